@@ -1,11 +1,23 @@
 import { Module } from '@nestjs/common';
+import { ConditionalModule } from '@nestjs/config';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { AppConfigModule } from './config/config.module';
 import { DatabaseModule } from './database/database.module';
 import { RedisModule } from './modules/redis/redis.module';
 import { StorageModule } from './modules/storage/storage.module';
+import { StorageWorkersModule } from './modules/storage/storage-workers.module';
+import { MailModule } from './modules/mail/mail.module';
+import { MailPreviewModule } from './modules/mail/mail-preview.module';
 import { HealthModule } from './modules/health/health.module';
+import { UsersModule } from './modules/users/users.module';
+import { AuthModule } from './modules/auth/auth.module';
+import { SessionsModule } from './modules/sessions/sessions.module';
+import { PoliciesModule } from './modules/policies/policies.module';
+import { ApiKeysModule } from './modules/api-keys/api-keys.module';
+import { TwoFactorModule } from './modules/two-factor/two-factor.module';
+import { ImpersonationModule } from './modules/impersonation/impersonation.module';
+import { NotificationsModule } from './modules/notifications/notifications.module';
 
 @Module({
   imports: [
@@ -13,7 +25,21 @@ import { HealthModule } from './modules/health/health.module';
     DatabaseModule,
     RedisModule,
     StorageModule,
+    StorageWorkersModule,
+    MailModule,
+    ConditionalModule.registerWhen(
+      MailPreviewModule,
+      (env) => env.APP_ENV === 'development',
+    ),
     HealthModule,
+    UsersModule,
+    AuthModule,
+    SessionsModule,
+    PoliciesModule,
+    ApiKeysModule,
+    TwoFactorModule,
+    ImpersonationModule,
+    NotificationsModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { AppConfigModule } from '../config/config.module';
+import { DatabaseModule } from '../database/database.module';
+import { PoliciesModule } from '../modules/policies/policies.module';
+import { StorageModule } from '../modules/storage/storage.module';
+import { StorageMigrationService } from '../modules/storage/storage-migration.service';
+import type {
+  StorageMigrationOptions,
+  StorageMigrationReport,
+} from '../modules/storage/types';
+
+/**
+ * Config, database and storage only — unlike `AppModule`, it starts no
+ * workers and doesn't connect to Redis or the mail server.
+ */
+@Module({
+  imports: [AppConfigModule, DatabaseModule, PoliciesModule, StorageModule],
+})
+export class StorageMigrateModule {}
+
+/** Runs one migration in an application context that is closed afterwards */
+export async function migrateStorage(
+  options: StorageMigrationOptions,
+): Promise<StorageMigrationReport> {
+  const app = await NestFactory.createApplicationContext(StorageMigrateModule);
+  try {
+    return await app.get(StorageMigrationService).migrate(options);
+  } finally {
+    await app.close();
+  }
+}
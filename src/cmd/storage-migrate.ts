@@ -0,0 +1,81 @@
+import { Logger } from '@nestjs/common';
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { STORAGE_MIGRATION_CONCURRENCY } from '../modules/storage/storage.constants';
+
+const USAGE = `Usage: yarn storage:migrate --from <disk> --to <disk> [options]
+
+Copies every object under a prefix from one storage disk to another.
+
+  --from <disk>         Disk to copy from (default or one of STORAGE_DISKS)
+  --to <disk>           Disk to copy to
+  --prefix <prefix>     Only copy keys starting with this prefix
+  --concurrency <n>     Objects copied in parallel (default ${STORAGE_MIGRATION_CONCURRENCY})
+  --state <file>        Progress file; rerun with the same file to resume
+                        (default tmp/storage-migrate-<from>-<to>.jsonl)
+  --report <file>       Also write the final report as JSON
+  --no-verify           Don't read copies back to compare checksums
+  --dry-run             Only count what would be copied`;
+
+// Copies objects between storage disks, e.g. from MinIO to S3. Exits with 1
+// when an object failed to copy or its copy doesn't match the source.
+async function bootstrap() {
+  const logger = new Logger('StorageMigrate');
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      prefix: { type: 'string', default: '' },
+      concurrency: {
+        type: 'string',
+        default: String(STORAGE_MIGRATION_CONCURRENCY),
+      },
+      state: { type: 'string' },
+      report: { type: 'string' },
+      'no-verify': { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help || !values.from || !values.to) {
+    process.stdout.write(`${USAGE}\n`);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  // Loaded only now: importing the Nest modules reads and validates the
+  // configuration, which `--help` and argument errors don't need. Under
+  // ts-node the `import()` becomes a `require` (see `ts-node` in tsconfig.json)
+  const { migrateStorage } = await import('./storage-migrate.module.js');
+  const report = await migrateStorage({
+    from: values.from,
+    to: values.to,
+    prefix: values.prefix,
+    concurrency: Number(values.concurrency),
+    verify: !values['no-verify'],
+    dryRun: values['dry-run'],
+    statePath:
+      values.state ?? `tmp/storage-migrate-${values.from}-${values.to}.jsonl`,
+  });
+
+  logger.log(
+    `${report.dryRun ? 'Dry run: ' : ''}${report.listed} objects under "${report.prefix}", ` +
+      `${report.copied} ${report.dryRun ? 'to copy' : 'copied'} (${report.bytes} bytes), ` +
+      `${report.skipped} already copied, ${report.mismatches.length} mismatched ` +
+      `in ${(report.durationMs / 1000).toFixed(1)}s`,
+  );
+  for (const mismatch of report.mismatches) {
+    logger.error(`${mismatch.key}: ${mismatch.reason}`);
+  }
+  if (values.report) {
+    await writeFile(values.report, JSON.stringify(report, null, 2));
+  }
+  process.exitCode = report.mismatches.length ? 1 : 0;
+}
+
+bootstrap().catch((error) => {
+  new Logger('StorageMigrate').error(
+    error instanceof Error ? error.message : String(error),
+  );
+  process.exitCode = 1;
+});
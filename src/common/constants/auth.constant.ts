@@ -0,0 +1,65 @@
+import { Role } from '../enums/role.enum';
+
+/** Redis key prefix for revoked token ids (`jti`) */
+export const REVOKED_TOKEN_PREFIX = 'auth:revoked';
+
+/** Redis key prefix for refresh token families */
+export const REFRESH_TOKEN_FAMILY_PREFIX = 'auth:refresh-family';
+
+/** Redis key prefix marking sessions that are still active */
+export const SESSION_PREFIX = 'auth:session';
+
+/** Header carrying machine-to-machine API keys */
+export const API_KEY_HEADER = 'x-api-key';
+
+/** Redis key prefix for verified API keys, by key prefix */
+export const API_KEY_CACHE_PREFIX = 'auth:api-key';
+
+/** How long a verified API key is cached, in seconds */
+export const API_KEY_CACHE_TTL = 300;
+
+/** Lifetime of the "mfa pending" token issued between the two login steps, in seconds */
+export const MFA_TOKEN_TTL = 300;
+
+/** Two-factor codes accepted per "mfa pending" token before it is burned */
+export const MFA_MAX_ATTEMPTS = 5;
+
+/** Redis key prefix counting two-factor attempts, by mfa token id */
+export const MFA_ATTEMPTS_PREFIX = 'auth:mfa-attempts';
+
+/** Redis key prefix counting failed logins, by `account:<email>` or `ip:<ip>` */
+export const LOGIN_FAILURES_PREFIX = 'auth:login-failures';
+
+/** Redis key prefix for temporary lockouts, by `account:<email>` or `ip:<ip>` */
+export const LOCKOUT_PREFIX = 'auth:lockout';
+
+/** Redis key prefix for the progressive delay before the next login attempt */
+export const LOGIN_DELAY_PREFIX = 'auth:login-delay';
+
+/** Default minimum password length enforced by `@MeetsPasswordPolicy()` */
+export const PASSWORD_MIN_LENGTH = 12;
+
+/** bcrypt ignores bytes past 72, so longer passwords are rejected */
+export const PASSWORD_MAX_LENGTH = 72;
+
+/** Cookie name for the refresh token (matches `tokenExtractor`) */
+export const REFRESH_TOKEN_COOKIE = 'refreshToken';
+
+/** Lifetime of impersonation access tokens, in seconds (not refreshable) */
+export const IMPERSONATION_TOKEN_TTL = 1800;
+
+/** Cookie holding the CSRF token (double-submit) */
+export const CSRF_COOKIE = 'csrfToken';
+
+/** Header that must echo the CSRF cookie on unsafe requests */
+export const CSRF_HEADER = 'x-csrf-token';
+
+/**
+ * Roles each role directly inherits. Inheritance is transitive:
+ * admin ⊇ editor ⊇ viewer.
+ */
+export const ROLE_HIERARCHY: Record<Role, Role[]> = {
+  [Role.ADMIN]: [Role.EDITOR],
+  [Role.EDITOR]: [Role.VIEWER],
+  [Role.VIEWER]: [],
+};
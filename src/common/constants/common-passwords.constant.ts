@@ -0,0 +1,138 @@
+/**
+ * Offline list of the most common passwords and password stems, lowercase.
+ * The password policy rejects a password that matches an entry, either as a
+ * whole or once trailing digits and symbols are removed (`Password2024!`).
+ * Extend it with a larger list (e.g. from SecLists) if needed.
+ */
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '123456',
+  '1234567',
+  '12345678',
+  '123456789',
+  '1234567890',
+  '12345678910',
+  '123456789012',
+  '0123456789',
+  '987654321',
+  '111111',
+  '000000',
+  '123123',
+  '123321',
+  '654321',
+  '666666',
+  '121212',
+  '112233',
+  '11111111',
+  '1q2w3e4r',
+  '1q2w3e4r5t',
+  '1qaz2wsx',
+  '1qaz2wsx3edc',
+  'qazwsx',
+  'qwerty',
+  'qwertyuiop',
+  'qwerty123',
+  'qwertyuiop123',
+  'asdfgh',
+  'asdfghjkl',
+  'zxcvbn',
+  'zxcvbnm',
+  'abc123',
+  'abcdef',
+  'abcdefgh',
+  'abcd1234',
+  'a1b2c3d4',
+  'aa123456',
+  'password',
+  'passw0rd',
+  'p@ssword',
+  'p@ssw0rd',
+  'password1',
+  'password12',
+  'password123',
+  'password1234',
+  'mypassword',
+  'secret',
+  'changeme',
+  'letmein',
+  'welcome',
+  'welcome1',
+  'admin',
+  'administrator',
+  'root',
+  'toor',
+  'login',
+  'guest',
+  'master',
+  'default',
+  'test',
+  'testing',
+  'iloveyou',
+  'trustno1',
+  'monkey',
+  'dragon',
+  'shadow',
+  'superman',
+  'batman',
+  'spiderman',
+  'starwars',
+  'pokemon',
+  'football',
+  'baseball',
+  'basketball',
+  'soccer',
+  'hockey',
+  'sunshine',
+  'princess',
+  'flower',
+  'freedom',
+  'whatever',
+  'michael',
+  'jennifer',
+  'jordan',
+  'charlie',
+  'thomas',
+  'daniel',
+  'jessica',
+  'ashley',
+  'hunter',
+  'ranger',
+  'killer',
+  'summer',
+  'winter',
+  'spring',
+  'autumn',
+  'hello',
+  'helloworld',
+  'loveme',
+  'lovely',
+  'azerty',
+  'azertyuiop',
+  'computer',
+  'internet',
+  'samsung',
+  'google',
+  'apple',
+  'microsoft',
+  'mustang',
+  'ferrari',
+  'corvette',
+  'matrix',
+  'cheese',
+  'chocolate',
+  'cookie',
+  'banana',
+  'orange',
+  'pepper',
+  'ginger',
+  'maggie',
+  'buster',
+  'tigger',
+  'bailey',
+  'access',
+  'security',
+  'ncc1701',
+  'zaq12wsx',
+  'q1w2e3r4',
+  'q1w2e3r4t5',
+  'q1w2e3r4t5y6',
+]);
@@ -1,3 +1,5 @@
 export * from './app.constant';
 export * from './alphabet.constant';
-export * from './storage.constant';
\ No newline at end of file
+export * from './storage.constant';
+export * from './auth.constant';
+export * from './common-passwords.constant';
@@ -15,3 +15,8 @@ export const ALLOWED_FILE_TYPES = [
  * Max file size in bytes (10 MB)
  */
 export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
+
+/**
+ * Bytes read from the start of a file to detect its type from magic numbers
+ */
+export const MIME_SNIFF_BYTES = 4100;
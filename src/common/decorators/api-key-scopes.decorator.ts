@@ -0,0 +1,20 @@
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import { ApiExtension, ApiSecurity } from '@nestjs/swagger';
+
+export const API_KEY_SCOPES_KEY = 'apiKeyScopes';
+
+/**
+ * Accept API keys (`X-API-Key`) on a route, requiring every listed scope.
+ * Routes without this decorator reject API keys.
+ *
+ * @example
+ * @ApiKeyScopes('reports:read')
+ * @Get('reports')
+ * export() {}
+ */
+export const ApiKeyScopes = (...scopes: string[]) =>
+  applyDecorators(
+    SetMetadata(API_KEY_SCOPES_KEY, scopes),
+    ApiSecurity('api-key'),
+    ApiExtension('x-required-scopes', scopes),
+  );
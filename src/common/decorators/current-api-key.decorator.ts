@@ -0,0 +1,21 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type {
+  ApiKeyPrincipal,
+  AuthenticatedRequest,
+} from '../interfaces/auth.interface';
+
+/**
+ * Inject the API key client (set by `ApiKeyGuard`) into a handler.
+ *
+ * @example
+ * @ApiKeyScopes('orders:write')
+ * @Post('orders')
+ * import(@CurrentApiKey() client: ApiKeyPrincipal) {}
+ */
+export const CurrentApiKey = createParamDecorator(
+  (data: keyof ApiKeyPrincipal | undefined, ctx: ExecutionContext) => {
+    const request = ctx.switchToHttp().getRequest<AuthenticatedRequest>();
+    const apiKey = request.apiKey;
+    return data ? apiKey?.[data] : apiKey;
+  },
+);
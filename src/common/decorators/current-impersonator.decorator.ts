@@ -0,0 +1,21 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type {
+  AuthenticatedRequest,
+  Impersonator,
+} from '../interfaces/auth.interface';
+
+/**
+ * Inject the admin impersonating the current user, or `undefined` when the
+ * request is made by the user themselves.
+ *
+ * @example
+ * @Post('orders')
+ * create(@CurrentUser() user: AuthUser, @CurrentImpersonator() admin?: Impersonator) {}
+ */
+export const CurrentImpersonator = createParamDecorator(
+  (data: keyof Impersonator | undefined, ctx: ExecutionContext) => {
+    const request = ctx.switchToHttp().getRequest<AuthenticatedRequest>();
+    const impersonator = request.user?.impersonator;
+    return data ? impersonator?.[data] : impersonator;
+  },
+);
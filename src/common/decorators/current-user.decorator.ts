@@ -0,0 +1,24 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type {
+  AuthenticatedRequest,
+  AuthUser,
+} from '../interfaces/auth.interface';
+
+/**
+ * Inject the authenticated user (set by `JwtAuthGuard`) into a handler.
+ * Pass a property name to extract a single field.
+ *
+ * @example
+ * @Get('me')
+ * me(@CurrentUser() user: AuthUser) {}
+ *
+ * @Get('me/id')
+ * myId(@CurrentUser('id') id: string) {}
+ */
+export const CurrentUser = createParamDecorator(
+  (data: keyof AuthUser | undefined, ctx: ExecutionContext) => {
+    const request = ctx.switchToHttp().getRequest<AuthenticatedRequest>();
+    const user = request.user;
+    return data ? user?.[data] : user;
+  },
+);
@@ -0,0 +1,16 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const DENY_IMPERSONATION_KEY = 'denyImpersonation';
+
+/**
+ * Mark a route or controller as too sensitive to be used while an admin is
+ * impersonating the user (security settings, sessions, credentials...).
+ * Enforced by `ImpersonationGuard` with `403 Forbidden`.
+ *
+ * @example
+ * @DenyImpersonation()
+ * @Post('password')
+ * changePassword() {}
+ */
+export const DenyImpersonation = () =>
+  SetMetadata(DENY_IMPERSONATION_KEY, true);
@@ -4,3 +4,11 @@ export * from './serialize.decorator';
 export * from './depricated.decorator'
 export * from './normalize-string.decorator';
 export * from './sort.decorator';
+export * from './current-user.decorator';
+export * from './roles.decorator';
+export * from './api-key-scopes.decorator';
+export * from './current-api-key.decorator';
+export * from './skip-csrf.decorator';
+export * from './refresh-cookie-auth.decorator';
+export * from './current-impersonator.decorator';
+export * from './deny-impersonation.decorator';
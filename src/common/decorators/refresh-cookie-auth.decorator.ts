@@ -0,0 +1,17 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const REFRESH_COOKIE_AUTH_KEY = 'refreshCookieAuth';
+
+/**
+ * Mark a public route that authenticates with the `refreshToken` cookie.
+ * `CsrfGuard` then requires the CSRF header whenever the refresh token was
+ * read from that cookie, as it does for cookie-borne access tokens.
+ *
+ * @example
+ * @Public()
+ * @RefreshCookieAuth()
+ * @Post('refresh')
+ * refresh() {}
+ */
+export const RefreshCookieAuth = () =>
+  SetMetadata(REFRESH_COOKIE_AUTH_KEY, true);
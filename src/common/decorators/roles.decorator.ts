@@ -0,0 +1,24 @@
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import { ApiExtension, ApiForbiddenResponse } from '@nestjs/swagger';
+import { Role } from '../enums/role.enum';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Restrict a route (or every route of a controller) to users holding at least
+ * one of the given roles. Higher roles inherit lower ones (admin ⊇ editor ⊇ viewer).
+ * Also documents the requirement on the Swagger operation.
+ *
+ * @example
+ * @Roles(Role.EDITOR)
+ * @Patch(':id')
+ * update() {} // editors and admins
+ */
+export const Roles = (...roles: Role[]) =>
+  applyDecorators(
+    SetMetadata(ROLES_KEY, roles),
+    ApiExtension('x-required-roles', roles),
+    ApiForbiddenResponse({
+      description: `Requires role: ${roles.join(' | ')}`,
+    }),
+  );
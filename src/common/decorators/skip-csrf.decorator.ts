@@ -0,0 +1,15 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const SKIP_CSRF_KEY = 'skipCsrf';
+
+/**
+ * Exempt a route or controller from `CsrfGuard`, e.g. webhooks called by
+ * third parties that authenticate with a signature instead of cookies.
+ *
+ * @example
+ * @Public()
+ * @SkipCsrf()
+ * @Post('webhooks/stripe')
+ * handle() {}
+ */
+export const SkipCsrf = () => SetMetadata(SKIP_CSRF_KEY, true);
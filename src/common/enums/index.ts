@@ -1,2 +1,3 @@
 export * from './sort-order.enum';
 export * from './environment.enum';
+export * from './role.enum';
@@ -1 +1,2 @@
 export * from './business.exception';
+export * from './retry-after.exception';
@@ -0,0 +1,39 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Exception telling the client when it may retry.
+ * `GlobalExceptionFilter` sends `retryAfter` as the `Retry-After` header (seconds).
+ */
+export class RetryAfterException extends HttpException {
+  constructor(
+    message: string,
+    statusCode: HttpStatus,
+    readonly retryAfter: number,
+  ) {
+    super({ message, statusCode }, statusCode);
+  }
+}
+
+/**
+ * 429 — the client must slow down before trying again.
+ */
+export class TooManyAttemptsException extends RetryAfterException {
+  constructor(
+    retryAfter: number,
+    message: string = 'Too many attempts, please try again later',
+  ) {
+    super(message, HttpStatus.TOO_MANY_REQUESTS, retryAfter);
+  }
+}
+
+/**
+ * 423 — the account is temporarily locked.
+ */
+export class AccountLockedException extends RetryAfterException {
+  constructor(
+    retryAfter: number,
+    message: string = 'Account temporarily locked due to too many failed attempts',
+  ) {
+    super(message, HttpStatus.LOCKED, retryAfter);
+  }
+}
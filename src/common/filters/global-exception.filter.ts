@@ -10,11 +10,13 @@ import { Request, Response } from 'express';
 import { QueryFailedError } from 'typeorm';
 import { errorResponse } from '../utils/response.util';
 import { sanitizeRequestBody } from '../helper/sanitize-req-body.helper';
+import { RetryAfterException } from '../exceptions/retry-after.exception';
 
 /**
  * Global exception filter that normalizes all errors
  * into a consistent API error response format.
  * Handles HttpException, QueryFailedError, and unknown errors.
+ * Sets `Retry-After` for `RetryAfterException` (429 / 423).
  */
 @Catch()
 export class GlobalExceptionFilter implements ExceptionFilter {
@@ -29,6 +31,13 @@ export class GlobalExceptionFilter implements ExceptionFilter {
 
     this.logError(exception, request);
 
+    if (exception instanceof RetryAfterException) {
+      response.setHeader(
+        'Retry-After',
+        String(Math.max(1, Math.ceil(exception.retryAfter))),
+      );
+    }
+
     const body = errorResponse(statusCode, message, request.url, errors);
     response.status(statusCode).json(body);
   }
@@ -110,7 +119,7 @@ export class GlobalExceptionFilter implements ExceptionFilter {
 
     if (request.body && Object.keys(request.body).length > 0) {
       this.logger.debug(
-        `Request Body: ${JSON.stringify(sanitizeRequestBody(request.body))}`,
+        `Request Body: ${JSON.stringify(sanitizeRequestBody(request.body, request.path))}`,
       );
     }
   }
@@ -0,0 +1,192 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+import { CsrfGuard } from './csrf.guard';
+import { SkipCsrf } from '../decorators/skip-csrf.decorator';
+import { RefreshCookieAuth } from '../decorators/refresh-cookie-auth.decorator';
+import { CSRF_COOKIE, CSRF_HEADER } from '../constants/auth.constant';
+import { generateCsrfToken } from '../utils/csrf.util';
+import type {
+  AuthenticatedRequest,
+  AuthUser,
+} from '../interfaces/auth.interface';
+
+const SECRET = 'csrf-secret';
+const SESSION_ID = 'session-1';
+
+class RoutesController {
+  update() {}
+
+  @SkipCsrf()
+  webhook() {}
+
+  @RefreshCookieAuth()
+  refresh() {}
+}
+
+interface RequestOptions {
+  method?: string;
+  user?: Partial<AuthUser>;
+  cookies?: Record<string, string>;
+  headers?: Record<string, string>;
+  body?: Record<string, string>;
+}
+
+describe('CsrfGuard', () => {
+  const jwtService = new JwtService({ secret: 'jwt-secret' });
+  const guard = new CsrfGuard(new Reflector(), { secret: SECRET }, jwtService);
+  const token = generateCsrfToken(SESSION_ID, SECRET);
+  let refreshToken: string;
+
+  beforeAll(async () => {
+    refreshToken = await jwtService.signAsync({
+      sub: 'user-1',
+      type: 'refresh',
+      jti: 'refresh-1',
+      fid: SESSION_ID,
+    });
+  });
+
+  function canActivate(
+    handler: keyof RoutesController,
+    options: RequestOptions,
+  ): Promise<boolean> {
+    const request = {
+      method: options.method ?? 'POST',
+      user: options.user,
+      cookies: options.cookies ?? {},
+      headers: options.headers ?? {},
+      body: options.body ?? {},
+      query: {},
+    } as unknown as AuthenticatedRequest;
+    const context = {
+      switchToHttp: () => ({ getRequest: () => request }),
+      getHandler: () => RoutesController.prototype[handler],
+      getClass: () => RoutesController,
+    } as unknown as ExecutionContext;
+    return guard.canActivate(context);
+  }
+
+  const cookieUser = {
+    user: { tokenSource: 'cookie' as const, sessionId: SESSION_ID },
+  };
+
+  it('lets safe methods through', async () => {
+    await expect(
+      canActivate('update', { ...cookieUser, method: 'GET' }),
+    ).resolves.toBe(true);
+  });
+
+  it('lets bearer-authenticated requests through', async () => {
+    await expect(
+      canActivate('update', { user: { tokenSource: 'header' } }),
+    ).resolves.toBe(true);
+  });
+
+  it('requires the header for cookie-authenticated requests', async () => {
+    await expect(canActivate('update', cookieUser)).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('accepts a signed header matching the cookie', async () => {
+    await expect(
+      canActivate('update', {
+        ...cookieUser,
+        cookies: { [CSRF_COOKIE]: token },
+        headers: { [CSRF_HEADER]: token },
+      }),
+    ).resolves.toBe(true);
+  });
+
+  it('rejects a header that does not match the cookie', async () => {
+    await expect(
+      canActivate('update', {
+        ...cookieUser,
+        cookies: { [CSRF_COOKIE]: token },
+        headers: { [CSRF_HEADER]: generateCsrfToken(SESSION_ID, SECRET) },
+      }),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('rejects matching tokens that were not signed with the secret', async () => {
+    const forged = generateCsrfToken(SESSION_ID, 'another-secret');
+    await expect(
+      canActivate('update', {
+        ...cookieUser,
+        cookies: { [CSRF_COOKIE]: forged },
+        headers: { [CSRF_HEADER]: forged },
+      }),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('rejects matching tokens issued to another session', async () => {
+    const planted = generateCsrfToken('attacker-session', SECRET);
+    await expect(
+      canActivate('update', {
+        ...cookieUser,
+        cookies: { [CSRF_COOKIE]: planted },
+        headers: { [CSRF_HEADER]: planted },
+      }),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('rejects cookie-authenticated requests without a session', async () => {
+    await expect(
+      canActivate('update', {
+        user: { tokenSource: 'cookie' },
+        cookies: { [CSRF_COOKIE]: token },
+        headers: { [CSRF_HEADER]: token },
+      }),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('skips @SkipCsrf() routes', async () => {
+    await expect(canActivate('webhook', cookieUser)).resolves.toBe(true);
+  });
+
+  describe('@RefreshCookieAuth() routes', () => {
+    it('requires the header when the refresh token comes from the cookie', async () => {
+      await expect(
+        canActivate('refresh', { cookies: { refreshToken } }),
+      ).rejects.toThrow(ForbiddenException);
+      await expect(
+        canActivate('refresh', {
+          cookies: { refreshToken, [CSRF_COOKIE]: token },
+          headers: { [CSRF_HEADER]: token },
+        }),
+      ).resolves.toBe(true);
+    });
+
+    it('rejects a token issued to another session than the refresh token', async () => {
+      const planted = generateCsrfToken('attacker-session', SECRET);
+      await expect(
+        canActivate('refresh', {
+          cookies: { refreshToken, [CSRF_COOKIE]: planted },
+          headers: { [CSRF_HEADER]: planted },
+        }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('rejects an unverifiable refresh cookie', async () => {
+      await expect(
+        canActivate('refresh', {
+          cookies: { refreshToken: 'token', [CSRF_COOKIE]: token },
+          headers: { [CSRF_HEADER]: token },
+        }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('lets a refresh token sent in the body through', async () => {
+      await expect(
+        canActivate('refresh', { body: { refreshToken } }),
+      ).resolves.toBe(true);
+    });
+
+    it('ignores the refresh cookie on other public routes', async () => {
+      await expect(
+        canActivate('update', { cookies: { refreshToken } }),
+      ).resolves.toBe(true);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { type ConfigType } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { csrfConfig } from '../../config/csrf.config';
+import { SKIP_CSRF_KEY } from '../decorators/skip-csrf.decorator';
+import { REFRESH_COOKIE_AUTH_KEY } from '../decorators/refresh-cookie-auth.decorator';
+import { extractTokenWithSource } from '../helper/token-extractor.helper';
+import { verifySessionId } from '../helper/session-id.helper';
+import { CSRF_COOKIE, CSRF_HEADER } from '../constants/auth.constant';
+import { safeEqual, verifyCsrfToken } from '../utils/csrf.util';
+import type { AuthenticatedRequest } from '../interfaces/auth.interface';
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/** Cookie that authenticates a request and so requires a CSRF token */
+type CookieCredential = 'accessToken' | 'refreshToken';
+
+/**
+ * Global CSRF guard (signed double-submit cookie).
+ * Runs after `JwtAuthGuard` and only applies to unsafe methods authenticated
+ * with a cookie-borne access token, or with the refresh cookie on
+ * `@RefreshCookieAuth()` routes: the `X-CSRF-Token` header must match the
+ * `csrfToken` cookie issued by `GET /auth/csrf`, and be signed for the
+ * session of the cookie's token. Bearer-header and API key requests cannot
+ * be forged cross-site and pass. Opt out with `@SkipCsrf()`.
+ */
+@Injectable()
+export class CsrfGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(csrfConfig.KEY)
+    private readonly config: ConfigType<typeof csrfConfig>,
+    private readonly jwtService: JwtService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (SAFE_METHODS.has(request.method)) return true;
+    const credential = this.cookieCredential(context, request);
+    if (!credential) return true;
+
+    const skip = this.reflector.getAllAndOverride<boolean>(SKIP_CSRF_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (skip) return true;
+
+    const header = request.headers[CSRF_HEADER];
+    const cookie = (request.cookies as Record<string, unknown> | undefined)?.[
+      CSRF_COOKIE
+    ];
+
+    const sessionId = await this.sessionId(request, credential);
+
+    const valid =
+      typeof header === 'string' &&
+      typeof cookie === 'string' &&
+      !!sessionId &&
+      safeEqual(header, cookie) &&
+      verifyCsrfToken(header, sessionId, this.config.secret!);
+    if (!valid) {
+      throw new ForbiddenException('Invalid or missing CSRF token');
+    }
+    return true;
+  }
+
+  private cookieCredential(
+    context: ExecutionContext,
+    request: AuthenticatedRequest,
+  ): CookieCredential | null {
+    if (request.user?.tokenSource === 'cookie') return 'accessToken';
+
+    const refreshCookieAuth = this.reflector.getAllAndOverride<boolean>(
+      REFRESH_COOKIE_AUTH_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    return refreshCookieAuth &&
+      extractTokenWithSource(request, 'refreshToken')?.source === 'cookie'
+      ? 'refreshToken'
+      : null;
+  }
+
+  /**
+   * Session the CSRF token must be signed for. The access token was already
+   * verified by `JwtAuthGuard`; the refresh cookie is verified here.
+   */
+  private async sessionId(
+    request: AuthenticatedRequest,
+    credential: CookieCredential,
+  ): Promise<string | null> {
+    if (credential === 'accessToken') return request.user?.sessionId ?? null;
+
+    const { token } = extractTokenWithSource(request, 'refreshToken')!;
+    return verifySessionId(this.jwtService, token, 'refresh');
+  }
+}
@@ -0,0 +1,34 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { DENY_IMPERSONATION_KEY } from '../decorators/deny-impersonation.decorator';
+import type { AuthenticatedRequest } from '../interfaces/auth.interface';
+
+/**
+ * Global guard rejecting routes marked `@DenyImpersonation()` when the
+ * access token is an impersonation token. Runs after `JwtAuthGuard`.
+ */
+@Injectable()
+export class ImpersonationGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (!request.user?.impersonator) return true;
+
+    const denied = this.reflector.getAllAndOverride<boolean>(
+      DENY_IMPERSONATION_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (denied) {
+      throw new ForbiddenException(
+        'This action is not allowed while impersonating a user',
+      );
+    }
+    return true;
+  }
+}
@@ -1,3 +1,4 @@
-export {};
-// Guards should be added per-project (e.g., JwtAuthGuard, RolesGuard).
-// This folder is reserved for reusable cross-cutting guards.
+export * from './jwt-auth.guard';
+export * from './roles.guard';
+export * from './csrf.guard';
+export * from './impersonation.guard';
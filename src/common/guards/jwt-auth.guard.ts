@@ -0,0 +1,104 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { extractTokenWithSource } from '../helper/token-extractor.helper';
+import { buildRedisKey } from '../utils/redis.util';
+import {
+  REVOKED_TOKEN_PREFIX,
+  SESSION_PREFIX,
+} from '../constants/auth.constant';
+import type {
+  AuthenticatedRequest,
+  JwtPayload,
+} from '../interfaces/auth.interface';
+import { RedisService } from '../../modules/redis/redis.service';
+
+/**
+ * Global authentication guard.
+ * Verifies the access token found by `tokenExtractor` (header, cookie, body, query),
+ * rejects revoked tokens and tokens of revoked sessions (for impersonation
+ * tokens, the admin's session), and attaches the principal to `request.user`.
+ * Handlers or controllers marked with `@Public()` are skipped, as are requests
+ * already authenticated with an API key by `ApiKeyGuard`.
+ */
+@Injectable()
+export class JwtAuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly jwtService: JwtService,
+    private readonly redis: RedisService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isPublic) return true;
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (request.apiKey) return true;
+
+    const extracted = extractTokenWithSource(request, 'accessToken');
+    if (!extracted) {
+      throw new UnauthorizedException('Missing access token');
+    }
+    const { token, source } = extracted;
+
+    let payload: JwtPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(token);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired access token');
+    }
+
+    if (payload.type !== 'access') {
+      throw new UnauthorizedException('Invalid token type');
+    }
+
+    const revoked = await this.redis.exists(
+      buildRedisKey(REVOKED_TOKEN_PREFIX, payload.jti),
+    );
+    if (revoked) {
+      throw new UnauthorizedException('Access token has been revoked');
+    }
+
+    if (payload.sid && !(await this.isSessionActive(payload.sid))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    // Impersonation tokens are bound to the admin's session instead
+    if (payload.act) {
+      const adminSessionId = payload.act.sid;
+      if (!adminSessionId || !(await this.isSessionActive(adminSessionId))) {
+        throw new UnauthorizedException(
+          'Impersonating session has been revoked',
+        );
+      }
+    }
+
+    request.user = {
+      id: payload.sub,
+      email: payload.email,
+      role: payload.role,
+      sessionId: payload.sid,
+      tokenId: payload.jti,
+      tokenExpiresAt: payload.exp!,
+      tokenSource: source,
+      impersonator: payload.act
+        ? { id: payload.act.sub, email: payload.act.email }
+        : undefined,
+    };
+    return true;
+  }
+
+  private isSessionActive(sessionId: string): Promise<boolean> {
+    return this.redis.exists(buildRedisKey(SESSION_PREFIX, sessionId));
+  }
+}
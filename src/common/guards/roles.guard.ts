@@ -0,0 +1,48 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { Role } from '../enums/role.enum';
+import { hasAnyRole } from '../utils/role.util';
+import type { AuthenticatedRequest } from '../interfaces/auth.interface';
+
+/**
+ * Global authorization guard for `@Roles()`.
+ * Runs after `JwtAuthGuard`; routes marked `@Public()` or without `@Roles()` pass.
+ * API key clients are authorized by their scopes in `ApiKeyGuard` instead.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+
+    const isPublic = this.reflector.getAllAndOverride<boolean>(
+      IS_PUBLIC_KEY,
+      targets,
+    );
+    if (isPublic) return true;
+
+    const required = this.reflector.getAllAndOverride<Role[]>(
+      ROLES_KEY,
+      targets,
+    );
+    if (!required || required.length === 0) return true;
+
+    const { user, apiKey } = context
+      .switchToHttp()
+      .getRequest<AuthenticatedRequest>();
+    if (apiKey) return true;
+
+    if (!hasAnyRole(user?.role, required)) {
+      throw new ForbiddenException('Insufficient role');
+    }
+    return true;
+  }
+}
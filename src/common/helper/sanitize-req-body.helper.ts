@@ -1,8 +1,23 @@
-export function sanitizeRequestBody(body: Record<string, any>) {
-  const hiddenFields = ["password", "token", "authorization"];
+const HIDDEN_FIELDS = [
+  'password',
+  'token',
+  'authorization',
+  'accessToken',
+  'refreshToken',
+  'mfaToken',
+];
+
+// TOTP and recovery codes; `code` is too common a field name to hide everywhere
+const TWO_FACTOR_ROUTE = /\/auth\/(login\/)?2fa(\/|$)/;
+const TWO_FACTOR_FIELDS = ['code'];
+
+export function sanitizeRequestBody(body: Record<string, any>, path = '') {
+  const hiddenFields = TWO_FACTOR_ROUTE.test(path)
+    ? [...HIDDEN_FIELDS, ...TWO_FACTOR_FIELDS]
+    : HIDDEN_FIELDS;
   return Object.fromEntries(
     Object.entries(body).map(([key, value]) =>
-      hiddenFields.includes(key) ? [key, "***REDACTED***"] : [key, value],
+      hiddenFields.includes(key) ? [key, '***REDACTED***'] : [key, value],
     ),
   );
 }
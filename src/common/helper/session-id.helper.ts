@@ -0,0 +1,22 @@
+import { JwtService } from '@nestjs/jwt';
+import type { JwtPayload } from '../interfaces/auth.interface';
+
+/**
+ * Verify a token and return the session it belongs to: the `sid` of an
+ * access token or the `fid` of a refresh token (the same id). Returns null
+ * for invalid or expired tokens and tokens of another type.
+ */
+export const verifySessionId = async (
+  jwtService: JwtService,
+  token: string,
+  type: 'access' | 'refresh',
+): Promise<string | null> => {
+  let payload: JwtPayload;
+  try {
+    payload = await jwtService.verifyAsync<JwtPayload>(token);
+  } catch {
+    return null;
+  }
+  if (payload.type !== type) return null;
+  return (type === 'access' ? payload.sid : payload.fid) ?? null;
+};
@@ -1,4 +1,6 @@
-import { Request } from "express";
+import { Request } from 'express';
+import { API_KEY_HEADER } from '../constants/auth.constant';
+import type { TokenSource } from '../interfaces/auth.interface';
 
 /**
  * Extract a token (access or refresh) from the request.
@@ -9,26 +11,53 @@ import { Request } from "express";
  */
 export const tokenExtractor = (
   req: Request,
-  tokenType: "accessToken" | "refreshToken" = "accessToken",
+  tokenType: 'accessToken' | 'refreshToken' = 'accessToken',
 ): string | null => {
+  return extractTokenWithSource(req, tokenType)?.token ?? null;
+};
+
+/**
+ * Same lookup as `tokenExtractor`, also reporting where the token was found.
+ * Cookie-borne tokens are sent by the browser automatically and need CSRF protection.
+ */
+export const extractTokenWithSource = (
+  req: Request,
+  tokenType: 'accessToken' | 'refreshToken' = 'accessToken',
+): { token: string; source: TokenSource } | null => {
   if (
-    tokenType === "accessToken" &&
-    req?.headers?.authorization?.startsWith("Bearer ")
+    tokenType === 'accessToken' &&
+    req?.headers?.authorization?.startsWith('Bearer ')
   ) {
-    return req.headers.authorization.split(" ")[1];
+    return { token: req.headers.authorization.split(' ')[1], source: 'header' };
   }
 
-  if (req?.cookies?.[tokenType]) {
-    return req.cookies[tokenType];
+  const cookie: unknown = req?.cookies?.[tokenType];
+  if (typeof cookie === 'string' && cookie) {
+    return { token: cookie, source: 'cookie' };
   }
 
-  if (req?.body?.[tokenType]) {
-    return req.body[tokenType];
+  const body: unknown = (req?.body as Record<string, unknown> | undefined)?.[
+    tokenType
+  ];
+  if (typeof body === 'string' && body) {
+    return { token: body, source: 'body' };
   }
 
   if (req?.query?.[tokenType]) {
-    return String(req.query[tokenType]);
+    return { token: String(req.query[tokenType]), source: 'query' };
   }
 
   return null;
 };
+
+/**
+ * Extract a machine-to-machine API key from the `X-API-Key` header.
+ * API keys are never read from cookies, body or query params.
+ */
+export const apiKeyExtractor = (req: Request): string | null => {
+  const value = req?.headers?.[API_KEY_HEADER];
+  if (typeof value === 'string' && value.trim() !== '') {
+    return value.trim();
+  }
+  return null;
+};
@@ -27,3 +27,6 @@ export * from './filters/index';
 
 // Interceptors
 export * from './interceptors/index';
+
+// Guards
+export * from './guards/index';
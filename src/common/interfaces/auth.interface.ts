@@ -0,0 +1,75 @@
+import type { Request } from 'express';
+import type { Role } from '../enums/role.enum';
+
+/**
+ * Token kinds issued by the auth module. `mfa` tokens only prove the first
+ * login step and can be exchanged at `/auth/login/2fa`.
+ */
+export type TokenType = 'access' | 'refresh' | 'mfa';
+
+/** Claims carried by every JWT issued by the auth module. */
+export interface JwtPayload {
+  /** User id */
+  sub: string;
+  /** User email */
+  email: string;
+  /** User role (access tokens only) */
+  role?: Role;
+  /** Distinguishes access tokens from refresh tokens */
+  type: TokenType;
+  /** Unique token id, used for revocation */
+  jti: string;
+  /** Session id (access tokens only) */
+  sid?: string;
+  /** Refresh token family id, equal to the session id (refresh tokens only) */
+  fid?: string;
+  /**
+   * Acting admin on impersonation tokens (RFC 8693 `act` claim), with the
+   * admin's session id so the token dies with that session
+   */
+  act?: { sub: string; email: string; sid?: string };
+  /** Issued at (seconds since epoch) */
+  iat?: number;
+  /** Expiration (seconds since epoch) */
+  exp?: number;
+}
+
+/** Admin acting as another user through an impersonation token. */
+export interface Impersonator {
+  id: string;
+  email: string;
+}
+
+/** Where `tokenExtractor` found a token. */
+export type TokenSource = 'header' | 'cookie' | 'body' | 'query';
+
+/** The authenticated principal attached to `request.user` by `JwtAuthGuard`. */
+export interface AuthUser {
+  id: string;
+  email: string;
+  role?: Role;
+  /** Session the access token belongs to */
+  sessionId?: string;
+  /** Access token id (`jti` claim) */
+  tokenId: string;
+  /** Access token expiration (seconds since epoch) */
+  tokenExpiresAt: number;
+  /** Where the access token was read from; `cookie` requires a CSRF token */
+  tokenSource?: TokenSource;
+  /** Set when an admin is impersonating this user */
+  impersonator?: Impersonator;
+}
+
+/** The machine client attached to `request.apiKey` by `ApiKeyGuard`. */
+export interface ApiKeyPrincipal {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+}
+
+/** Express request after `ApiKeyGuard` / `JwtAuthGuard` have authenticated it. */
+export interface AuthenticatedRequest extends Request {
+  user?: AuthUser;
+  apiKey?: ApiKeyPrincipal;
+}
@@ -1,3 +1,4 @@
 export * from './pagination.interface';
 export * from './api-response.interface';
 export * from './client-info.interface';
+export * from './auth.interface';
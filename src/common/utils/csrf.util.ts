@@ -0,0 +1,44 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Generate a CSRF token bound to a session:
+ * `<nonce>.<HMAC-SHA256(sessionId.nonce)>`. Binding the signature to the
+ * session stops attackers from planting a token issued to another session
+ * (e.g. their own, through a sibling subdomain) in the double-submit cookie.
+ */
+export function generateCsrfToken(sessionId: string, secret: string): string {
+  const nonce = randomBytes(32).toString('base64url');
+  return `${nonce}.${signCsrfNonce(sessionId, nonce, secret)}`;
+}
+
+/**
+ * Check that a CSRF token was issued to `sessionId` with `secret`.
+ */
+export function verifyCsrfToken(
+  token: string,
+  sessionId: string,
+  secret: string,
+): boolean {
+  const [nonce, signature, ...rest] = token.split('.');
+  if (!nonce || !signature || rest.length > 0) return false;
+  return safeEqual(signature, signCsrfNonce(sessionId, nonce, secret));
+}
+
+/**
+ * Constant-time string comparison.
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function signCsrfNonce(
+  sessionId: string,
+  nonce: string,
+  secret: string,
+): string {
+  return createHmac('sha256', secret)
+    .update(`${sessionId}.${nonce}`)
+    .digest('base64url');
+}
@@ -14,6 +14,13 @@ export function addDays(date: Date, days: number): Date {
   return result;
 }
 
+/**
+ * Add a number of seconds to a date.
+ */
+export function addSeconds(date: Date, seconds: number): Date {
+  return new Date(date.getTime() + seconds * 1000);
+}
+
 /**
  * Subtract a number of days from a date.
  */
@@ -1,4 +1,5 @@
 import * as bcrypt from 'bcrypt';
+import { createHash, createHmac } from 'crypto';
 import { BCRYPT_SALT_ROUNDS } from '../constants/app.constant';
 
 /**
@@ -14,3 +15,18 @@ export async function hash(plainText: string, rounds: number = BCRYPT_SALT_ROUND
 export async function compare(plainText: string, hashed: string): Promise<boolean> {
   return bcrypt.compare(plainText, hashed);
 }
+
+/**
+ * SHA-256 hex digest. Only for high-entropy secrets (tokens, recovery codes)
+ * that need a fast, deterministic lookup — use `hash()` for passwords.
+ */
+export function sha256(plainText: string): string {
+  return createHash('sha256').update(plainText).digest('hex');
+}
+
+/**
+ * HMAC-SHA256 hex digest of `data` keyed with `secret` (e.g. webhook signatures).
+ */
+export function hmacSha256(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('hex');
+}
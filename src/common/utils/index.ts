@@ -10,3 +10,6 @@ export * from './request.util';
 export * from './redis.util';
 export * from './storage.util';
 export * from './orm-filter.util';
+export * from './role.util';
+export * from './csrf.util';
+export * from './network.util';
@@ -0,0 +1,87 @@
+import { createServer, type Server } from 'http';
+import { type AddressInfo } from 'net';
+import { Agent, fetch } from 'undici';
+import {
+  assertPublicHost,
+  isPublicAddress,
+  publicLookup,
+} from './network.util';
+
+describe('network.util', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    '::',
+    'fe80::1',
+    'fd00::1',
+    '::ffff:127.0.0.1',
+    '::ffff:a9fe:a9fe',
+    '64:ff9b::a00:1',
+    '2002:a00:1::1',
+  ])('rejects %s', (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each(['93.184.216.34', '8.8.8.8', '2606:4700::1111', '::ffff:8.8.8.8'])(
+    'accepts %s',
+    (address) => {
+      expect(isPublicAddress(address)).toBe(true);
+    },
+  );
+
+  it('checks IP literals without a DNS query', async () => {
+    await expect(assertPublicHost('[::1]')).rejects.toThrow(
+      'non-public address ::1',
+    );
+    await expect(assertPublicHost('169.254.169.254')).rejects.toThrow();
+    await expect(assertPublicHost('8.8.8.8')).resolves.toBeUndefined();
+  });
+
+  it('checks what a hostname resolves to', async () => {
+    await expect(assertPublicHost('localhost')).rejects.toThrow(
+      'non-public address',
+    );
+  });
+
+  describe('publicLookup', () => {
+    let server: Server;
+    let port: number;
+
+    beforeAll(async () => {
+      server = createServer((_request, response) => response.end('internal'));
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      port = (server.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('fails for a host resolving to a non-public address', (done) => {
+      publicLookup('localhost', {}, (error) => {
+        expect(error?.message).toMatch('non-public address');
+        done();
+      });
+    });
+
+    it('keeps an agent from connecting to what the host resolves to', async () => {
+      const agent = new Agent({ connect: { lookup: publicLookup } });
+      try {
+        const error = await fetch(`http://localhost:${port}`, {
+          dispatcher: agent,
+        }).catch((error: Error) => error);
+        expect(((error as Error).cause as Error).message).toMatch(
+          'localhost resolves to non-public address',
+        );
+      } finally {
+        await agent.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { lookup as lookupCallback, type LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIPv4, type LookupFunction } from 'net';
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges: anything
+// a server-side request must not reach on behalf of a user
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  // NAT64 and 6to4 addresses embed an IPv4 address, possibly a private one
+  ['64:ff9b::', 96],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Returns `true` for a publicly routable IPv4/IPv6 address. `BlockList`
+ * judges IPv4-mapped IPv6 addresses (`::ffff:10.0.0.1`) by their IPv4 part.
+ */
+export function isPublicAddress(address: string): boolean {
+  return !NON_PUBLIC.check(address, isIPv4(address) ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolve a hostname (or IP literal) and throw unless every address it
+ * resolves to is public. Guards outgoing requests to user-supplied URLs
+ * against SSRF.
+ */
+export async function assertPublicHost(hostname: string): Promise<void> {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  assertPublicAddresses(
+    host,
+    await lookup(host, { all: true, verbatim: true }),
+  );
+}
+
+/**
+ * Drop-in `dns.lookup` for sockets to user-supplied hosts (e.g. an undici
+ * `Agent`'s `connect.lookup`): fails unless every address is public, so the
+ * connection goes to an address that was checked and a DNS-rebinding host
+ * can't swap in an internal one after `assertPublicHost`. Sockets skip the
+ * lookup for IP literals, so check those with `assertPublicHost` first.
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(
+    hostname,
+    { ...options, all: true, verbatim: true },
+    (error, addresses) => {
+      if (error) return callback(error, '');
+      try {
+        assertPublicAddresses(hostname, addresses);
+      } catch (blocked) {
+        return callback(blocked as NodeJS.ErrnoException, '');
+      }
+      if (options.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    },
+  );
+};
+
+function assertPublicAddresses(host: string, addresses: LookupAddress[]): void {
+  const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+  if (blocked) {
+    throw new Error(
+      `${host} resolves to non-public address ${blocked.address}`,
+    );
+  }
+}
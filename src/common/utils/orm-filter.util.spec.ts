@@ -0,0 +1,38 @@
+import { intersectConditions } from './orm-filter.util';
+
+interface Row {
+  userId: string;
+  status: string;
+}
+
+describe('intersectConditions', () => {
+  it('ANDs every left condition with every right condition', () => {
+    expect(
+      intersectConditions<Row>(
+        [{ status: 'a' }, { status: 'b' }],
+        [{ userId: '1' }, { userId: '2' }],
+      ),
+    ).toEqual([
+      { status: 'a', userId: '1' },
+      { status: 'a', userId: '2' },
+      { status: 'b', userId: '1' },
+      { status: 'b', userId: '2' },
+    ]);
+  });
+
+  it('lets the right side win on conflicting fields', () => {
+    expect(intersectConditions<Row>({ userId: '2' }, { userId: '1' })).toEqual([
+      { userId: '1' },
+    ]);
+  });
+
+  it('keeps the right side when the left side is an empty list', () => {
+    expect(intersectConditions<Row>([], { userId: '1' })).toEqual([
+      { userId: '1' },
+    ]);
+  });
+
+  it('throws instead of widening when the right side is an empty list', () => {
+    expect(() => intersectConditions<Row>({ status: 'a' }, [])).toThrow();
+  });
+});
@@ -186,4 +186,31 @@ export function mergeSearchConditions<T>(
     ...andFilters,
     ...searchCond,
   }));
-}
\ No newline at end of file
+}
+
+/**
+ * Combines two where conditions with AND, where either side may be an
+ * OR-array. Returns the cross product as an OR-array; on conflicting
+ * fields the right-hand side wins.
+ *
+ * TypeORM reads `where: []` as no condition at all, so an empty left side
+ * means "no filters", and an empty right side (a scope matching nothing)
+ * throws instead of widening the query to every row.
+ *
+ * @param left - e.g. filters built with the helpers above
+ * @param right - e.g. an access scope that must always apply
+ */
+export function intersectConditions<T>(
+  left: FindOptionsWhere<T> | FindOptionsWhere<T>[],
+  right: FindOptionsWhere<T> | FindOptionsWhere<T>[],
+): FindOptionsWhere<T>[] {
+  const leftList = Array.isArray(left) ? left : [left];
+  const rightList = Array.isArray(right) ? right : [right];
+  if (rightList.length === 0) {
+    throw new Error('Cannot intersect with an empty condition list');
+  }
+
+  return (leftList.length ? leftList : [{}]).flatMap((l) =>
+    rightList.map((r) => ({ ...l, ...r })),
+  );
+}
@@ -0,0 +1,35 @@
+import { Role } from '../enums/role.enum';
+import { ROLE_HIERARCHY } from '../constants/auth.constant';
+
+/**
+ * Expand a role into itself plus every role it inherits (transitively).
+ *
+ * @example
+ * expandRole(Role.ADMIN); // [admin, editor, viewer]
+ */
+export function expandRole(role: Role): Role[] {
+  const granted = new Set<Role>([role]);
+  const queue = [role];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const inherited of ROLE_HIERARCHY[current] ?? []) {
+      if (!granted.has(inherited)) {
+        granted.add(inherited);
+        queue.push(inherited);
+      }
+    }
+  }
+
+  return [...granted];
+}
+
+/**
+ * Check whether a role satisfies at least one of the required roles,
+ * taking the role hierarchy into account.
+ */
+export function hasAnyRole(role: Role | undefined, required: Role[]): boolean {
+  if (!role) return false;
+  const granted = expandRole(role);
+  return required.some((r) => granted.includes(r));
+}
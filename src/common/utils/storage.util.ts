@@ -1,7 +1,12 @@
 import { randomBytes } from 'crypto';
+import {
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
 import { Readable } from 'stream';
 import { extname, join } from 'path';
 import { ALLOWED_FILE_TYPES, MAX_FILE_SIZE } from '../constants/storage.constant';
+import { dynamicImport } from '../helper/dynamic-import.helper';
 
 /**
  * Build a storage key/path from folder and filename
@@ -20,17 +25,22 @@ export const sanitizeFilename = (filename: string): string => {
 
 /**
  * Extract file extension from filename using Node.js path library
+ * Returns an empty string unless it is 1-10 lowercase letters or digits
  */
 export const getFileExtension = (filename: string): string => {
     // extname returns '.jpg', '.png', so we remove the leading dot
-  return extname(filename).replace(/^\./, '').toLowerCase();
+  const ext = extname(filename).replace(/^\./, '').toLowerCase();
+  return /^[a-z0-9]{1,10}$/.test(ext) ? ext : '';
 };
 
 /**
  * Generate a unique filename by appending timestamp + random string
+ * Pass `ext` to replace the client's extension (e.g. with the detected type's)
  */
-export const generateUniqueFilename = (filename: string): string => {
-  const ext = getFileExtension(filename);
+export const generateUniqueFilename = (
+  filename: string,
+  ext: string = getFileExtension(filename),
+): string => {
   const base = sanitizeFilename(filename.replace(/\.[^/.]+$/, ''));
   const unique = `${base}_${Date.now()}_${randomBytes(4).toString('hex')}`;
   return ext ? `${unique}.${ext}` : unique;
@@ -38,23 +48,41 @@ export const generateUniqueFilename = (filename: string): string => {
 
 /**
  * Validate MIME type against allowed types
- * Defaults to ALLOWED_FILE_TYPES constant
+ * Defaults to ALLOWED_FILE_TYPES constant, throws 415 Unsupported Media Type
  */
 export const validateMimeType = (mime: string, allowedTypes: string[] = ALLOWED_FILE_TYPES): void => {
   if (!allowedTypes.includes(mime)) {
-    throw new Error(`File type "${mime}" is not allowed`);
+    throw new UnsupportedMediaTypeException(
+      `File type "${mime}" is not allowed`,
+    );
   }
 };
 
 /**
- * Validate file size (default max: MAX_FILE_SIZE)
+ * Validate file size (default max: MAX_FILE_SIZE), throws 413 Payload Too Large
  */
 export const validateFileSize = (size: number, maxSize: number = MAX_FILE_SIZE): void => {
   if (size > maxSize) {
-    throw new Error(`File size ${size} exceeds max allowed ${maxSize} bytes`);
+    throw new PayloadTooLargeException(
+      `File size ${size} exceeds max allowed ${maxSize} bytes`,
+    );
   }
 };
 
+/**
+ * Detect the real MIME type and extension of a file from its leading bytes (magic numbers)
+ * Pass at least MIME_SNIFF_BYTES bytes; returns undefined when the signature is unknown
+ */
+export const detectFileType = async (
+  sample: Uint8Array,
+): Promise<{ mime: string; ext: string } | undefined> => {
+  const { fileTypeFromBuffer } = (await dynamicImport(
+    'file-type',
+  )) as typeof import('file-type');
+  const type = await fileTypeFromBuffer(sample);
+  return type && { mime: type.mime, ext: type.ext };
+};
+
 /**
  * Build S3-style key
  * Can be used for other cloud storage providers
@@ -74,9 +102,19 @@ export const bufferToStream = (buffer: Buffer): Readable => {
 };
 
 /**
- * Generate a placeholder signed URL (implementation in StorageService)
+ * Build an RFC 6266 Content-Disposition header value
+ * Adds an ASCII fallback filename plus a UTF-8 encoded filename* parameter
  */
-export const generateSignedUrl = (key: string, expiresInSeconds: number = 3600): string => {
-  // Actual implementation depends on storage provider (S3, GCP, etc.)
-  return `${key}?expires=${Date.now() + expiresInSeconds * 1000}`;
+export const buildContentDisposition = (
+  filename: string,
+  type: 'inline' | 'attachment' = 'attachment',
+): string => {
+  const fallback = filename
+    .replace(/[^\x20-\x7e]/g, '_')
+    .replace(/["\\]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
 };
@@ -1,5 +1,7 @@
 import { randomBytes } from 'crypto';
 import { DEFAULT_RANDOM_STRING_LENGTH, MAX_SLUG_LENGTH } from '../constants/app.constant';
+import { ALPHABET_ALPHANUMERIC } from '../constants/alphabet.constant';
+import { randomInt } from './math.util';
 
 /**
  * Convert a string to a URL-friendly slug.
@@ -61,6 +63,20 @@ export function randomString(length: number = DEFAULT_RANDOM_STRING_LENGTH): str
   return Array.from(bytes, (byte) => chars[byte % chars.length]).join('');
 }
 
+/**
+ * Generate a cryptographically secure code drawn uniformly from `alphabet`
+ * (one of the `ALPHABET_*` constants), e.g. for recovery or referral codes.
+ */
+export function randomCode(
+  length: number,
+  alphabet: string = ALPHABET_ALPHANUMERIC,
+): string {
+  return Array.from(
+    { length },
+    () => alphabet[randomInt(0, alphabet.length - 1)],
+  ).join('');
+}
+
 /**
  * Sanitize user input by stripping HTML tags and trimming whitespace.
  */
@@ -0,0 +1,62 @@
+import {
+  checkPasswordPolicy,
+  isCommonPassword,
+} from './password-policy.validator';
+
+describe('checkPasswordPolicy', () => {
+  it('accepts a password meeting every rule', () => {
+    expect(checkPasswordPolicy('Correct7Horse9Battery')).toEqual([]);
+  });
+
+  it('counts the maximum length in bytes, against the 72-byte bcrypt limit', () => {
+    // "é" is two bytes in UTF-8: 3 + 34 * 2 = 71 bytes, then 73
+    expect(checkPasswordPolicy(`Aa1${'é'.repeat(34)}`)).toEqual([]);
+    expect(checkPasswordPolicy(`Aa1${'é'.repeat(35)}`)).toEqual([
+      'be at most 72 bytes long',
+    ]);
+    expect(checkPasswordPolicy(`Aa1${'x'.repeat(69)}`)).toEqual([]);
+    expect(checkPasswordPolicy(`Aa1${'x'.repeat(70)}`)).toEqual([
+      'be at most 72 bytes long',
+    ]);
+  });
+
+  it('counts the minimum length in characters', () => {
+    expect(checkPasswordPolicy('Aa1éééé')).toEqual([
+      'be at least 12 characters long',
+    ]);
+  });
+
+  it('lists every rule the password breaks', () => {
+    expect(checkPasswordPolicy('short', { requireSymbol: true })).toEqual([
+      'be at least 12 characters long',
+      'contain an uppercase letter',
+      'contain a digit',
+      'contain a symbol',
+    ]);
+  });
+
+  it('rejects a common password with trailing digits and symbols', () => {
+    expect(checkPasswordPolicy('Password2024!')).toEqual([
+      'not be a commonly used password',
+    ]);
+    expect(
+      checkPasswordPolicy('Password2024!', { rejectCommon: false }),
+    ).toEqual([]);
+  });
+});
+
+describe('isCommonPassword', () => {
+  it('matches listed passwords case-insensitively', () => {
+    expect(isCommonPassword('PASSWORD')).toBe(true);
+  });
+
+  it('matches the stem without trailing digits and symbols', () => {
+    expect(isCommonPassword('Password2024!')).toBe(true);
+    expect(isCommonPassword('password!!1')).toBe(true);
+  });
+
+  it('only strips a trailing suffix', () => {
+    expect(isCommonPassword('2024!Password')).toBe(false);
+    expect(isCommonPassword('Passwordly2024')).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  registerDecorator,
+  ValidationArguments,
+  ValidationOptions,
+} from 'class-validator';
+import { COMMON_PASSWORDS } from '../constants/common-passwords.constant';
+import {
+  PASSWORD_MAX_LENGTH,
+  PASSWORD_MIN_LENGTH,
+} from '../constants/auth.constant';
+
+/** Rules checked by `checkPasswordPolicy` / `@MeetsPasswordPolicy()`. */
+export interface PasswordPolicyOptions {
+  /** Default: `PASSWORD_MIN_LENGTH` (12) */
+  minLength?: number;
+  /** Default: `PASSWORD_MAX_LENGTH` (72, the bcrypt limit) */
+  maxLength?: number;
+  /** Default: `true` */
+  requireLowercase?: boolean;
+  /** Default: `true` */
+  requireUppercase?: boolean;
+  /** Default: `true` */
+  requireDigit?: boolean;
+  /** Default: `false` */
+  requireSymbol?: boolean;
+  /** Reject passwords from `COMMON_PASSWORDS`. Default: `true` */
+  rejectCommon?: boolean;
+}
+
+const DEFAULT_POLICY: Required<PasswordPolicyOptions> = {
+  minLength: PASSWORD_MIN_LENGTH,
+  maxLength: PASSWORD_MAX_LENGTH,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireDigit: true,
+  requireSymbol: false,
+  rejectCommon: true,
+};
+
+/**
+ * Check a password against the policy. Returns the list of violations
+ * (empty when the password is acceptable).
+ */
+export function checkPasswordPolicy(
+  password: string,
+  options: PasswordPolicyOptions = {},
+): string[] {
+  const policy = { ...DEFAULT_POLICY, ...options };
+  const violations: string[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push(`be at least ${policy.minLength} characters long`);
+  }
+  if (Buffer.byteLength(password) > policy.maxLength) {
+    violations.push(`be at most ${policy.maxLength} bytes long`);
+  }
+  if (policy.requireLowercase && !/\p{Ll}/u.test(password)) {
+    violations.push('contain a lowercase letter');
+  }
+  if (policy.requireUppercase && !/\p{Lu}/u.test(password)) {
+    violations.push('contain an uppercase letter');
+  }
+  if (policy.requireDigit && !/\d/.test(password)) {
+    violations.push('contain a digit');
+  }
+  if (policy.requireSymbol && !/[^\p{L}\d]/u.test(password)) {
+    violations.push('contain a symbol');
+  }
+  if (policy.rejectCommon && isCommonPassword(password)) {
+    violations.push('not be a commonly used password');
+  }
+
+  return violations;
+}
+
+/**
+ * True if the password, or its stem without trailing digits and symbols,
+ * is in `COMMON_PASSWORDS`.
+ */
+export function isCommonPassword(password: string): boolean {
+  const normalized = password.toLowerCase();
+  const stem = normalized.replace(/[^\p{L}]+$/u, '');
+  return COMMON_PASSWORDS.has(normalized) || COMMON_PASSWORDS.has(stem);
+}
+
+/**
+ * Validate that a DTO property meets the password policy.
+ *
+ * @example
+ * ```typescript
+ * class RegisterDto {
+ *   @MeetsPasswordPolicy()
+ *   password: string;
+ *
+ *   @MeetsPasswordPolicy({ minLength: 16, requireSymbol: true })
+ *   adminPassword: string;
+ * }
+ * ```
+ */
+export function MeetsPasswordPolicy(
+  options: PasswordPolicyOptions = {},
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  return (target: object, propertyName: string | symbol) => {
+    registerDecorator({
+      name: 'meetsPasswordPolicy',
+      target: target.constructor,
+      propertyName: propertyName as string,
+      constraints: [options],
+      options: validationOptions,
+      validator: {
+        validate(value: unknown): boolean {
+          return (
+            typeof value === 'string' &&
+            checkPasswordPolicy(value, options).length === 0
+          );
+        },
+        defaultMessage({ property, value }: ValidationArguments): string {
+          if (typeof value !== 'string') return `${property} must be a string`;
+          const violations = checkPasswordPolicy(value, options);
+          return `${property} must ${violations.join(', ')}`;
+        },
+      },
+    });
+  };
+}
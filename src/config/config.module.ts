@@ -6,8 +6,11 @@ import {
   storageConfig,
   platformConfig,
   mailConfig,
+  mailOutboxConfig,
   redisConfig,
   jwtConfig,
+  lockoutConfig,
+  csrfConfig,
   configValidationSchema,
 } from './index';
 
@@ -21,8 +24,11 @@ import {
         databaseConfig,
         storageConfig,
         mailConfig,
+        mailOutboxConfig,
         redisConfig,
         jwtConfig,
+        lockoutConfig,
+        csrfConfig,
       ],
       validationSchema: configValidationSchema,
       validationOptions: { abortEarly: false },
@@ -0,0 +1,32 @@
+import { CookieOptions } from 'express';
+import { ConfigType } from '@nestjs/config';
+import { jwtConfig } from './jwt.config';
+
+/**
+ * Build options for the httpOnly refresh token cookie using typed JWT config.
+ * Cross-site frontends (CORS with `credentials: true`) need `SameSite=None`,
+ * which browsers only accept together with `Secure`.
+ */
+export function buildRefreshCookieOptions(
+  jwt: ConfigType<typeof jwtConfig>,
+): CookieOptions {
+  return {
+    httpOnly: true,
+    secure: jwt.cookieSameSite === 'none' ? true : jwt.cookieSecure,
+    sameSite: jwt.cookieSameSite,
+    domain: jwt.cookieDomain,
+    path: '/',
+    maxAge: jwt.refreshExpiresIn * 1000,
+  };
+}
+
+/**
+ * Build options for the CSRF token cookie. Same scope as the refresh cookie,
+ * but readable by JavaScript so same-site frontends can echo it in
+ * the `X-CSRF-Token` header.
+ */
+export function buildCsrfCookieOptions(
+  jwt: ConfigType<typeof jwtConfig>,
+): CookieOptions {
+  return { ...buildRefreshCookieOptions(jwt), httpOnly: false };
+}
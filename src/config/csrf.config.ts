@@ -0,0 +1,10 @@
+import { registerAs } from '@nestjs/config';
+import * as Joi from 'joi';
+
+export const csrfConfig = registerAs('csrf', () => ({
+  secret: process.env.CSRF_SECRET,
+}));
+
+export const csrfConfigValidation = Joi.object({
+  CSRF_SECRET: Joi.string().required(),
+});
@@ -2,9 +2,12 @@ import { appConfigValidation } from './app.config';
 import { databaseConfigValidation } from './database.config';
 import { redisConfigValidation } from './redis.config';
 import { mailConfigValidation } from './mail.config';
+import { mailOutboxConfigValidation } from './mail-outbox.config';
 import { storageConfigValidation } from './storage.config';
 import { jwtConfigValidation } from './jwt.config';
 import { platformConfigValidation } from './platform.config';
+import { lockoutConfigValidation } from './lockout.config';
+import { csrfConfigValidation } from './csrf.config';
 
 //create a combined Joi schema for all configs
 export const configValidationSchema = appConfigValidation
@@ -12,8 +15,11 @@ export const configValidationSchema = appConfigValidation
   .concat(databaseConfigValidation)
   .concat(redisConfigValidation)
   .concat(mailConfigValidation)
+  .concat(mailOutboxConfigValidation)
   .concat(storageConfigValidation)
-  .concat(jwtConfigValidation);
+  .concat(jwtConfigValidation)
+  .concat(lockoutConfigValidation)
+  .concat(csrfConfigValidation);
 
 
 // export all configs and their validation schemas
@@ -21,6 +27,9 @@ export * from './app.config';
 export * from './database.config';
 export * from './redis.config';
 export * from './mail.config';
+export * from './mail-outbox.config';
 export * from './storage.config';
 export * from './jwt.config';
-export * from './platform.config';
\ No newline at end of file
+export * from './platform.config';
+export * from './lockout.config';
+export * from './csrf.config';
\ No newline at end of file
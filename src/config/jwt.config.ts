@@ -4,9 +4,25 @@ import * as Joi from 'joi';
 export const jwtConfig = registerAs('jwt', () => ({
   secret: process.env.JWT_SECRET,
   expiresIn: parseInt(process.env.JWT_EXPIRES_IN ?? '3600', 10),
+  refreshExpiresIn: parseInt(
+    process.env.JWT_REFRESH_EXPIRES_IN ?? '604800',
+    10,
+  ),
+  cookieDomain: process.env.JWT_COOKIE_DOMAIN || undefined,
+  cookieSameSite: (process.env.JWT_COOKIE_SAME_SITE ?? 'lax') as
+    | 'strict'
+    | 'lax'
+    | 'none',
+  cookieSecure: process.env.JWT_COOKIE_SECURE !== 'false',
 }));
 
 export const jwtConfigValidation = Joi.object({
   JWT_SECRET: Joi.string().required(),
   JWT_EXPIRES_IN: Joi.number().default(3600),
+  JWT_REFRESH_EXPIRES_IN: Joi.number().default(604800),
+  JWT_COOKIE_DOMAIN: Joi.string().allow('').optional(),
+  JWT_COOKIE_SAME_SITE: Joi.string()
+    .valid('strict', 'lax', 'none')
+    .default('lax'),
+  JWT_COOKIE_SECURE: Joi.boolean().default(true),
 });
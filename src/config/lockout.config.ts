@@ -0,0 +1,20 @@
+import { registerAs } from '@nestjs/config';
+import * as Joi from 'joi';
+
+export const lockoutConfig = registerAs('lockout', () => ({
+  maxAttempts: parseInt(process.env.LOCKOUT_MAX_ATTEMPTS ?? '10', 10),
+  ipMaxAttempts: parseInt(process.env.LOCKOUT_IP_MAX_ATTEMPTS ?? '100', 10),
+  window: parseInt(process.env.LOCKOUT_WINDOW ?? '900', 10),
+  duration: parseInt(process.env.LOCKOUT_DURATION ?? '900', 10),
+  delayAfter: parseInt(process.env.LOCKOUT_DELAY_AFTER ?? '3', 10),
+  maxDelay: parseInt(process.env.LOCKOUT_MAX_DELAY ?? '60', 10),
+}));
+
+export const lockoutConfigValidation = Joi.object({
+  LOCKOUT_MAX_ATTEMPTS: Joi.number().integer().min(1).default(10),
+  LOCKOUT_IP_MAX_ATTEMPTS: Joi.number().integer().min(1).default(100),
+  LOCKOUT_WINDOW: Joi.number().integer().min(1).default(900),
+  LOCKOUT_DURATION: Joi.number().integer().min(1).default(900),
+  LOCKOUT_DELAY_AFTER: Joi.number().integer().min(1).default(3),
+  LOCKOUT_MAX_DELAY: Joi.number().integer().min(1).default(60),
+});
@@ -0,0 +1,25 @@
+import { registerAs } from '@nestjs/config';
+import * as Joi from 'joi';
+
+export const mailOutboxConfig = registerAs('mailOutbox', () => ({
+  workerEnabled: process.env.MAIL_OUTBOX_WORKER_ENABLED !== 'false',
+  pollInterval: parseInt(process.env.MAIL_OUTBOX_POLL_INTERVAL ?? '5', 10),
+  batchSize: parseInt(process.env.MAIL_OUTBOX_BATCH_SIZE ?? '20', 10),
+  maxAttempts: parseInt(process.env.MAIL_OUTBOX_MAX_ATTEMPTS ?? '8', 10),
+  retryDelay: parseInt(process.env.MAIL_OUTBOX_RETRY_DELAY ?? '30', 10),
+  maxRetryDelay: parseInt(
+    process.env.MAIL_OUTBOX_MAX_RETRY_DELAY ?? '3600',
+    10,
+  ),
+  lease: parseInt(process.env.MAIL_OUTBOX_LEASE ?? '300', 10),
+}));
+
+export const mailOutboxConfigValidation = Joi.object({
+  MAIL_OUTBOX_WORKER_ENABLED: Joi.boolean().default(true),
+  MAIL_OUTBOX_POLL_INTERVAL: Joi.number().integer().min(1).default(5),
+  MAIL_OUTBOX_BATCH_SIZE: Joi.number().integer().min(1).default(20),
+  MAIL_OUTBOX_MAX_ATTEMPTS: Joi.number().integer().min(1).default(8),
+  MAIL_OUTBOX_RETRY_DELAY: Joi.number().integer().min(1).default(30),
+  MAIL_OUTBOX_MAX_RETRY_DELAY: Joi.number().integer().min(1).default(3600),
+  MAIL_OUTBOX_LEASE: Joi.number().integer().min(1).default(300),
+});
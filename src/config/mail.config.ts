@@ -1,20 +1,43 @@
 import { registerAs } from '@nestjs/config';
 import * as Joi from 'joi';
 
+export const MAIL_TRANSPORTS = ['smtp', 'file', 'memory'] as const;
+
 export const mailConfig = registerAs('mail', () => ({
+  transport: (process.env.MAIL_TRANSPORT ??
+    'smtp') as (typeof MAIL_TRANSPORTS)[number],
   host: process.env.MAIL_HOST,
   port: parseInt(process.env.MAIL_PORT ?? '587', 10),
   user: process.env.MAIL_USER,
   password: process.env.MAIL_PASSWORD,
   from: process.env.MAIL_FROM,
   secure: process.env.MAIL_SECURE === 'true',
+  maxConnections: parseInt(process.env.MAIL_MAX_CONNECTIONS ?? '5', 10),
+  templatesDir: process.env.MAIL_TEMPLATES_DIR,
+  defaultLocale: process.env.MAIL_DEFAULT_LOCALE ?? 'en',
+  captureDir: process.env.MAIL_CAPTURE_DIR ?? 'tmp/mail',
 }));
 
+// SMTP settings are only required when mail actually leaves the app
+const smtpOnly = (schema: Joi.Schema) =>
+  Joi.when('MAIL_TRANSPORT', {
+    is: 'smtp',
+    then: schema.required(),
+    otherwise: schema.optional(),
+  });
+
 export const mailConfigValidation = Joi.object({
-  MAIL_HOST: Joi.string().required(),
-  MAIL_PORT: Joi.number().required(),
-  MAIL_USER: Joi.string().required(),
-  MAIL_PASSWORD: Joi.string().required(),
+  MAIL_TRANSPORT: Joi.string()
+    .valid(...MAIL_TRANSPORTS)
+    .default('smtp'),
+  MAIL_HOST: smtpOnly(Joi.string()),
+  MAIL_PORT: smtpOnly(Joi.number()),
+  MAIL_USER: smtpOnly(Joi.string()),
+  MAIL_PASSWORD: smtpOnly(Joi.string()),
   MAIL_FROM: Joi.string().email().required(),
   MAIL_SECURE: Joi.boolean().default(false),
+  MAIL_MAX_CONNECTIONS: Joi.number().integer().min(1).default(5),
+  MAIL_TEMPLATES_DIR: Joi.string().optional(),
+  MAIL_DEFAULT_LOCALE: Joi.string().default('en'),
+  MAIL_CAPTURE_DIR: Joi.string().default('tmp/mail'),
 });
@@ -0,0 +1,154 @@
+import { storageConfig, storageConfigValidation } from './storage.config';
+
+/** Settings of the default disk, stored locally */
+const BASE = {
+  STORAGE_DRIVER: 'local',
+  STORAGE_LOCAL_ROOT: 'tmp/storage',
+};
+
+const S3_DISK = {
+  STORAGE_DISK_BACKUPS_DRIVER: 's3',
+  STORAGE_DISK_BACKUPS_BUCKET: 'my-app-backups',
+  STORAGE_DISK_BACKUPS_ENDPOINT: 'https://s3.eu-west-1.amazonaws.com',
+  STORAGE_DISK_BACKUPS_REGION: 'eu-west-1',
+  STORAGE_DISK_BACKUPS_ACCESS_KEY_ID: 'key',
+  STORAGE_DISK_BACKUPS_SECRET_ACCESS_KEY: 'secret',
+};
+
+/** Validate like `AppConfigModule`, which allows unknown variables */
+const validate = (env: Record<string, string>) =>
+  storageConfigValidation.validate(
+    { ...BASE, ...env },
+    { abortEarly: false, allowUnknown: true },
+  ).error?.message;
+
+describe('storageConfig', () => {
+  describe('disks', () => {
+    const env = process.env;
+
+    afterEach(() => {
+      process.env = env;
+    });
+
+    it('only registers the disks declared in STORAGE_DISKS', () => {
+      process.env = {
+        ...BASE,
+        ...S3_DISK,
+        STORAGE_DISK_ARCHIVE_DRIVER: 'memory',
+        STORAGE_DISKS: 'backups',
+      };
+
+      const config = storageConfig();
+      expect(Object.keys(config.disks)).toEqual(['default', 'backups']);
+      expect(config.disks.backups).toMatchObject({
+        driver: 's3',
+        bucket: 'my-app-backups',
+        accessKeyId: 'key',
+      });
+    });
+
+    it("doesn't copy settings of the default disk", () => {
+      process.env = {
+        ...BASE,
+        STORAGE_BUCKET: 'my-app',
+        STORAGE_ACCESS_KEY_ID: 'default-key',
+        STORAGE_DISKS: 'scratch',
+        STORAGE_DISK_SCRATCH_DRIVER: 'memory',
+      };
+
+      expect(storageConfig().disks.scratch).toMatchObject({
+        driver: 'memory',
+        bucket: undefined,
+        accessKeyId: undefined,
+      });
+    });
+  });
+
+  describe('validation', () => {
+    it('accepts disks with their own bucket or local root', () => {
+      expect(
+        validate({
+          ...S3_DISK,
+          STORAGE_DISKS: 'backups, public-assets, scratch',
+          STORAGE_DISK_PUBLIC_ASSETS_DRIVER: 'local',
+          STORAGE_DISK_PUBLIC_ASSETS_LOCAL_ROOT: 'tmp/public-assets',
+          STORAGE_DISK_SCRATCH_DRIVER: 'memory',
+        }),
+      ).toBeUndefined();
+    });
+
+    it('requires the driver and bucket settings of every disk', () => {
+      expect(validate({ STORAGE_DISKS: 'backups' })).toMatch(
+        'STORAGE_DISK_BACKUPS_DRIVER',
+      );
+      expect(
+        validate({
+          ...S3_DISK,
+          STORAGE_DISK_BACKUPS_BUCKET: '',
+          STORAGE_DISKS: 'backups',
+        }),
+      ).toMatch('STORAGE_DISK_BACKUPS_BUCKET');
+      expect(
+        validate({
+          STORAGE_DISKS: 'public-assets',
+          STORAGE_DISK_PUBLIC_ASSETS_DRIVER: 'local',
+        }),
+      ).toMatch('STORAGE_DISK_PUBLIC_ASSETS_LOCAL_ROOT');
+    });
+
+    it.each([
+      ['the local root of the default disk', 'tmp/storage'],
+      ['a folder in the default disk', 'tmp/storage/public'],
+      ['a parent of the default disk', 'tmp'],
+    ])('rejects a disk sharing %s', (_case, root) => {
+      expect(
+        validate({
+          STORAGE_DISKS: 'public-assets',
+          STORAGE_DISK_PUBLIC_ASSETS_DRIVER: 'local',
+          STORAGE_DISK_PUBLIC_ASSETS_LOCAL_ROOT: root,
+        }),
+      ).toMatch('must not share the bucket or local root of disk "default"');
+    });
+
+    it('rejects two disks on the same bucket', () => {
+      expect(
+        validate({
+          ...S3_DISK,
+          ...Object.fromEntries(
+            Object.entries(S3_DISK).map(([name, value]) => [
+              name.replace('BACKUPS', 'ARCHIVE'),
+              value,
+            ]),
+          ),
+          STORAGE_DISKS: 'backups,archive',
+        }),
+      ).toMatch('must not share the bucket or local root of disk "backups"');
+    });
+
+    it.each(['default', 'Backups', 'back_ups', 'backups,backups'])(
+      'rejects the disk list %j',
+      (disks) => {
+        expect(validate({ ...S3_DISK, STORAGE_DISKS: disks })).toMatch(
+          'STORAGE_DISKS',
+        );
+      },
+    );
+
+    it('only maps tenants to configured disks', () => {
+      const env = { ...S3_DISK, STORAGE_DISKS: 'backups' };
+
+      expect(
+        validate({
+          ...env,
+          STORAGE_TENANT_DISKS: 'acme:backups,globex:default',
+        }),
+      ).toBeUndefined();
+      expect(
+        validate({ ...env, STORAGE_TENANT_DISKS: 'acme:archive' }),
+      ).toMatch('unknown disk "archive"');
+      expect(validate({ ...env, STORAGE_TENANT_DISKS: 'acme' })).toMatch(
+        'expected "tenant:disk"',
+      );
+    });
+  });
+});
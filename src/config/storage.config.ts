@@ -1,20 +1,275 @@
 import { registerAs } from '@nestjs/config';
 import * as Joi from 'joi';
+import { resolve, sep } from 'path';
+
+export const STORAGE_DRIVERS = ['s3', 'local', 'memory'] as const;
+export const STORAGE_SCANNERS = ['none', 'clamav', 'fake'] as const;
+
+/** Disk configured by the `STORAGE_*` settings */
+export const DEFAULT_STORAGE_DISK = 'default';
+
+/** Names of named disks: lower case words joined by `-` (`private-documents`) */
+const STORAGE_DISK_NAME = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/** Name of a disk: `default` or one declared in `STORAGE_DISKS` */
+export type StorageDiskName = string;
+
+export interface StorageDiskSettings {
+  driver: (typeof STORAGE_DRIVERS)[number];
+  provider: string;
+  bucket?: string;
+  region?: string;
+  endpoint?: string;
+  publicEndpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  localRoot: string;
+}
+
+/** `private-documents` → `STORAGE_DISK_PRIVATE_DOCUMENTS_` */
+export const storageDiskEnvPrefix = (disk: string): string =>
+  `STORAGE_DISK_${disk.toUpperCase().replace(/-/g, '_')}_`;
+
+/** `public-assets,backups` → `['public-assets', 'backups']` */
+const parseList = (value: string | undefined): string[] =>
+  (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Read the settings of a disk from `<prefix>DRIVER`, `<prefix>BUCKET`, ...
+ * Named disks don't inherit anything from the default disk: each one names
+ * its own bucket (or local root) and credentials.
+ */
+const readStorageDisk = (prefix: string): StorageDiskSettings => ({
+  driver: (process.env[`${prefix}DRIVER`] ??
+    's3') as (typeof STORAGE_DRIVERS)[number],
+  provider: process.env[`${prefix}PROVIDER`] || 's3',
+  bucket: process.env[`${prefix}BUCKET`],
+  region: process.env[`${prefix}REGION`],
+  endpoint: process.env[`${prefix}ENDPOINT`],
+  publicEndpoint: process.env[`${prefix}PUBLIC_ENDPOINT`],
+  accessKeyId: process.env[`${prefix}ACCESS_KEY_ID`],
+  secretAccessKey: process.env[`${prefix}SECRET_ACCESS_KEY`],
+  localRoot: process.env[`${prefix}LOCAL_ROOT`] ?? 'tmp/storage',
+});
+
+/** The default disk and every disk declared in `STORAGE_DISKS` */
+const readStorageDisks = (): Record<StorageDiskName, StorageDiskSettings> =>
+  Object.fromEntries([
+    [DEFAULT_STORAGE_DISK, readStorageDisk('STORAGE_')],
+    ...parseList(process.env.STORAGE_DISKS).map(
+      (disk): [StorageDiskName, StorageDiskSettings] => [
+        disk,
+        readStorageDisk(storageDiskEnvPrefix(disk)),
+      ],
+    ),
+  ]);
+
+/** `acme:acme-files,globex:globex-files` → tenant ID → disk name */
+const readTenantDisks = (): Record<string, StorageDiskName> =>
+  Object.fromEntries(
+    parseList(process.env.STORAGE_TENANT_DISKS).map(
+      (entry) =>
+        entry.split(':').map((part) => part.trim()) as [string, string],
+    ),
+  );
 
 export const storageConfig = registerAs('storage', () => ({
-  provider: process.env.STORAGE_PROVIDER || 's3',
-  bucket: process.env.STORAGE_BUCKET,
-  region: process.env.STORAGE_REGION,
-  endpoint: process.env.STORAGE_ENDPOINT,
-  accessKeyId: process.env.STORAGE_ACCESS_KEY_ID,
-  secretAccessKey: process.env.STORAGE_SECRET_ACCESS_KEY,
+  ...readStorageDisk('STORAGE_'),
+  disks: readStorageDisks(),
+  tenantDisks: readTenantDisks(),
+  localBaseUrl: process.env.STORAGE_LOCAL_BASE_URL,
+  // Falls back to the JWT secret
+  urlSecret: process.env.STORAGE_URL_SECRET || process.env.JWT_SECRET,
+  multipartPartSize: parseInt(
+    process.env.STORAGE_MULTIPART_PART_SIZE ?? String(8 * 1024 * 1024),
+    10,
+  ),
+  multipartConcurrency: parseInt(
+    process.env.STORAGE_MULTIPART_CONCURRENCY ?? '4',
+    10,
+  ),
+  multipartCleanupEnabled:
+    process.env.STORAGE_MULTIPART_CLEANUP_ENABLED !== 'false',
+  multipartCleanupInterval: parseInt(
+    process.env.STORAGE_MULTIPART_CLEANUP_INTERVAL ?? '3600',
+    10,
+  ),
+  multipartMaxAge: parseInt(
+    process.env.STORAGE_MULTIPART_MAX_AGE ?? '86400',
+    10,
+  ),
+  orphanSweepEnabled: process.env.STORAGE_ORPHAN_SWEEP_ENABLED !== 'false',
+  imagePipelineEnabled: process.env.STORAGE_IMAGE_PIPELINE_ENABLED !== 'false',
+  orphanSweepInterval: parseInt(
+    process.env.STORAGE_ORPHAN_SWEEP_INTERVAL ?? '3600',
+    10,
+  ),
+  orphanGracePeriod: parseInt(
+    process.env.STORAGE_ORPHAN_GRACE_PERIOD ?? '86400',
+    10,
+  ),
+  scanner: (process.env.STORAGE_SCANNER ??
+    'none') as (typeof STORAGE_SCANNERS)[number],
+  clamavSocket:
+    process.env.STORAGE_CLAMAV_SOCKET ?? '/var/run/clamav/clamd.ctl',
+  scanInterval: parseInt(process.env.STORAGE_SCAN_INTERVAL ?? '10', 10),
+  scanTimeout: parseInt(process.env.STORAGE_SCAN_TIMEOUT ?? '60', 10),
+  quarantinePrefix: (
+    process.env.STORAGE_QUARANTINE_PREFIX ?? 'quarantine'
+  ).replace(/^\/+|\/+$/g, ''),
 }));
 
+// Bucket settings are only required when objects actually go to S3
+const s3Only = (schema: Joi.Schema) =>
+  Joi.when('STORAGE_DRIVER', {
+    is: 's3',
+    then: schema.required(),
+    otherwise: schema.optional(),
+  });
+
+// Named disks don't fall back to the default disk, so each needs its own settings
+const diskRequiredFor = (
+  prefix: string,
+  driver: (typeof STORAGE_DRIVERS)[number],
+  schema: Joi.Schema,
+) =>
+  Joi.when(`${prefix}DRIVER`, {
+    is: driver,
+    then: schema.required(),
+    otherwise: schema.optional(),
+  });
+
+const storageDiskValidation = (prefix: string): Joi.PartialSchemaMap => ({
+  [`${prefix}DRIVER`]: Joi.string()
+    .valid(...STORAGE_DRIVERS)
+    .required(),
+  [`${prefix}PROVIDER`]: Joi.string().valid('s3', 'minio', 'other').optional(),
+  [`${prefix}BUCKET`]: diskRequiredFor(prefix, 's3', Joi.string()),
+  [`${prefix}ENDPOINT`]: diskRequiredFor(prefix, 's3', Joi.string().uri()),
+  [`${prefix}PUBLIC_ENDPOINT`]: Joi.string().uri().optional(),
+  [`${prefix}REGION`]: diskRequiredFor(prefix, 's3', Joi.string()),
+  [`${prefix}ACCESS_KEY_ID`]: diskRequiredFor(prefix, 's3', Joi.string()),
+  [`${prefix}SECRET_ACCESS_KEY`]: diskRequiredFor(prefix, 's3', Joi.string()),
+  [`${prefix}LOCAL_ROOT`]: diskRequiredFor(prefix, 'local', Joi.string()),
+});
+
+/**
+ * Where a disk keeps its objects: the bucket on its endpoint, or the resolved
+ * local root. Memory disks are always separate.
+ */
+const diskTarget = (
+  env: Record<string, string | undefined>,
+  prefix: string,
+): string | null => {
+  const driver = env[`${prefix}DRIVER`] ?? 's3';
+  if (driver === 's3') {
+    return `s3:${env[`${prefix}ENDPOINT`]}/${env[`${prefix}BUCKET`]}/`;
+  }
+  if (driver === 'local') {
+    return `local:${resolve(env[`${prefix}LOCAL_ROOT`] ?? 'tmp/storage')}${sep}`;
+  }
+  return null;
+};
+
+/**
+ * Checks the disks declared in `STORAGE_DISKS` (their names, settings and
+ * that no two share a bucket or local root) and the disks of
+ * `STORAGE_TENANT_DISKS`. The setting names depend on `STORAGE_DISKS`, so they
+ * can't be listed in the schema itself.
+ */
+const validateStorageDisks: Joi.CustomValidator<
+  Record<string, string | undefined>
+> = (env, helpers) => {
+  const fail = (message: string) => helpers.message({ custom: message });
+  const disks = parseList(env.STORAGE_DISKS);
+
+  const targets = new Map<string, StorageDiskName>();
+  const defaultTarget = diskTarget(env, 'STORAGE_');
+  if (defaultTarget) targets.set(defaultTarget, DEFAULT_STORAGE_DISK);
+
+  for (const disk of disks) {
+    if (!STORAGE_DISK_NAME.test(disk) || disk === DEFAULT_STORAGE_DISK) {
+      return fail(`STORAGE_DISKS: invalid disk name "${disk}"`);
+    }
+    if (disks.indexOf(disk) !== disks.lastIndexOf(disk)) {
+      return fail(`STORAGE_DISKS: disk "${disk}" is declared twice`);
+    }
+
+    const prefix = storageDiskEnvPrefix(disk);
+    const { error } = Joi.object(storageDiskValidation(prefix))
+      .unknown()
+      .validate(env, { abortEarly: true });
+    if (error) return fail(error.message);
+
+    // Nested local roots would see each other's objects too
+    const target = diskTarget(env, prefix);
+    const shared = target
+      ? [...targets].find(
+          ([other]) => other.startsWith(target) || target.startsWith(other),
+        )
+      : undefined;
+    if (shared) {
+      return fail(
+        `Disk "${disk}" must not share the bucket or local root of disk "${shared[1]}"`,
+      );
+    }
+    if (target) targets.set(target, disk);
+  }
+
+  for (const entry of parseList(env.STORAGE_TENANT_DISKS)) {
+    const [tenant, disk, ...rest] = entry.split(':').map((part) => part.trim());
+    if (!tenant || !disk || rest.length) {
+      return fail(
+        `STORAGE_TENANT_DISKS: expected "tenant:disk", got "${entry}"`,
+      );
+    }
+    if (disk !== DEFAULT_STORAGE_DISK && !disks.includes(disk)) {
+      return fail(`STORAGE_TENANT_DISKS: unknown disk "${disk}"`);
+    }
+  }
+  return env;
+};
+
 export const storageConfigValidation = Joi.object({
+  STORAGE_DRIVER: Joi.string()
+    .valid(...STORAGE_DRIVERS)
+    .default('s3'),
   STORAGE_PROVIDER: Joi.string().valid('s3', 'minio', 'other').default('s3'),
-  STORAGE_BUCKET: Joi.string().required(),
-  STORAGE_ENDPOINT: Joi.string().uri().required(),
-  STORAGE_REGION: Joi.string().required(),
-  STORAGE_ACCESS_KEY_ID: Joi.string().required(),
-  STORAGE_SECRET_ACCESS_KEY: Joi.string().required(),
-});
+  STORAGE_BUCKET: s3Only(Joi.string()),
+  STORAGE_ENDPOINT: s3Only(Joi.string().uri()),
+  STORAGE_PUBLIC_ENDPOINT: Joi.string().uri().optional(),
+  STORAGE_REGION: s3Only(Joi.string()),
+  STORAGE_ACCESS_KEY_ID: s3Only(Joi.string()),
+  STORAGE_SECRET_ACCESS_KEY: s3Only(Joi.string()),
+  STORAGE_LOCAL_ROOT: Joi.string().default('tmp/storage'),
+  STORAGE_LOCAL_BASE_URL: Joi.string().uri().optional(),
+  STORAGE_URL_SECRET: Joi.string().allow('').optional(),
+  // S3 rejects parts smaller than 5 MiB (except the last one)
+  STORAGE_MULTIPART_PART_SIZE: Joi.number()
+    .integer()
+    .min(5 * 1024 * 1024)
+    .default(8 * 1024 * 1024),
+  STORAGE_MULTIPART_CONCURRENCY: Joi.number().integer().min(1).default(4),
+  STORAGE_MULTIPART_CLEANUP_ENABLED: Joi.boolean().default(true),
+  STORAGE_MULTIPART_CLEANUP_INTERVAL: Joi.number()
+    .integer()
+    .min(60)
+    .default(3600),
+  STORAGE_MULTIPART_MAX_AGE: Joi.number().integer().min(60).default(86400),
+  STORAGE_ORPHAN_SWEEP_ENABLED: Joi.boolean().default(true),
+  STORAGE_ORPHAN_SWEEP_INTERVAL: Joi.number().integer().min(60).default(3600),
+  STORAGE_ORPHAN_GRACE_PERIOD: Joi.number().integer().min(60).default(86400),
+  STORAGE_IMAGE_PIPELINE_ENABLED: Joi.boolean().default(true),
+  STORAGE_SCANNER: Joi.string()
+    .valid(...STORAGE_SCANNERS)
+    .default('none'),
+  STORAGE_CLAMAV_SOCKET: Joi.string().default('/var/run/clamav/clamd.ctl'),
+  STORAGE_SCAN_INTERVAL: Joi.number().integer().min(1).default(10),
+  STORAGE_SCAN_TIMEOUT: Joi.number().integer().min(1).default(60),
+  STORAGE_QUARANTINE_PREFIX: Joi.string().default('quarantine'),
+  STORAGE_DISKS: Joi.string().allow('').optional(),
+  STORAGE_TENANT_DISKS: Joi.string().allow('').optional(),
+}).custom(validateStorageDisks);
@@ -44,6 +44,15 @@ export function setupSwagger(
       },
       'session-auth',
     )
+    .addApiKey(
+      {
+        type: 'apiKey',
+        in: 'header',
+        name: 'X-API-Key',
+        description: 'Enter API key (machine-to-machine clients)',
+      },
+      'api-key',
+    )
     .build();
 
   const document: OpenAPIObject = SwaggerModule.createDocument(app, config);
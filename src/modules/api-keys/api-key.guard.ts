@@ -0,0 +1,71 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { IS_PUBLIC_KEY } from '../../common/decorators/public.decorator';
+import { API_KEY_SCOPES_KEY } from '../../common/decorators/api-key-scopes.decorator';
+import {
+  apiKeyExtractor,
+  tokenExtractor,
+} from '../../common/helper/token-extractor.helper';
+import type { AuthenticatedRequest } from '../../common/interfaces/auth.interface';
+import { ApiKeysService } from './api-keys.service';
+
+/**
+ * Global guard authenticating `X-API-Key` requests. Runs before `JwtAuthGuard`.
+ *
+ * Keys are only accepted on routes marked `@ApiKeyScopes()` and must hold
+ * every listed scope. Requests without a key pass through untouched.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeysService: ApiKeysService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const rawKey = apiKeyExtractor(request);
+    if (!rawKey) return true;
+
+    const targets = [context.getHandler(), context.getClass()];
+
+    const isPublic = this.reflector.getAllAndOverride<boolean>(
+      IS_PUBLIC_KEY,
+      targets,
+    );
+    if (isPublic) return true;
+
+    const required = this.reflector.getAllAndOverride<string[]>(
+      API_KEY_SCOPES_KEY,
+      targets,
+    );
+    if (!required) {
+      // Let a user token, if any, be handled by JwtAuthGuard
+      if (tokenExtractor(request, 'accessToken')) return true;
+      throw new ForbiddenException('API keys are not accepted on this route');
+    }
+
+    const principal = await this.apiKeysService.verify(rawKey);
+    if (!principal) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    const missing = required.filter(
+      (scope) => !principal.scopes.includes(scope),
+    );
+    if (missing.length > 0) {
+      throw new ForbiddenException(
+        `Missing API key scope: ${missing.join(', ')}`,
+      );
+    }
+
+    request.apiKey = principal;
+    return true;
+  }
+}
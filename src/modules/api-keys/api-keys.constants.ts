@@ -0,0 +1,8 @@
+/** Length of the public, indexed part of an API key */
+export const API_KEY_PREFIX_LENGTH = 8;
+
+/** Length of the secret part of an API key */
+export const API_KEY_SECRET_LENGTH = 40;
+
+/** `lastUsedAt` is written at most once per this many seconds per key */
+export const API_KEY_LAST_USED_RESOLUTION = 60;
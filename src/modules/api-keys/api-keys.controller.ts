@@ -0,0 +1,60 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Serialize } from '../../common/decorators/serialize.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { Pagination } from '../../common/decorators/pagination.decorator';
+import { ParseUUIDPipe } from '../../common/pipes/parse-uuid.pipe';
+import { Role } from '../../common/enums/role.enum';
+import type { AuthUser } from '../../common/interfaces/auth.interface';
+import type { PaginationOptions } from '../../common/interfaces/pagination.interface';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto, UpdateApiKeyDto } from './dto';
+
+@ApiTags('API Keys')
+@ApiBearerAuth('session-auth')
+@Roles(Role.ADMIN)
+@Serialize()
+@Controller('api-keys')
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  create(@Body() dto: CreateApiKeyDto, @CurrentUser() user: AuthUser) {
+    return this.apiKeysService.issue(dto, user.id);
+  }
+
+  @Get()
+  findAll(@Pagination() pagination: Required<PaginationOptions>) {
+    return this.apiKeysService.findAll(pagination);
+  }
+
+  @Get(':id')
+  findOne(@Param('id', new ParseUUIDPipe()) id: string) {
+    return this.apiKeysService.findOne(id);
+  }
+
+  @Patch(':id')
+  update(
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Body() dto: UpdateApiKeyDto,
+  ) {
+    return this.apiKeysService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revoke(@Param('id', new ParseUUIDPipe()) id: string): Promise<void> {
+    await this.apiKeysService.revoke(id);
+  }
+}
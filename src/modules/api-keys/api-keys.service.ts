@@ -0,0 +1,192 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { timingSafeEqual } from 'crypto';
+import { RedisService } from '../redis/redis.service';
+import { compare, hash, sha256 } from '../../common/utils/hashing.util';
+import { randomString } from '../../common/utils/string.util';
+import { buildRedisKey } from '../../common/utils/redis.util';
+import { paginate } from '../../common/utils/pagination.util';
+import { isExpired } from '../../common/utils/date.util';
+import {
+  API_KEY_CACHE_PREFIX,
+  API_KEY_CACHE_TTL,
+} from '../../common/constants/auth.constant';
+import type { ApiKeyPrincipal } from '../../common/interfaces/auth.interface';
+import type {
+  PaginatedResponse,
+  PaginationOptions,
+} from '../../common/interfaces/pagination.interface';
+import { ApiKey } from './api-keys.entity';
+import {
+  API_KEY_LAST_USED_RESOLUTION,
+  API_KEY_PREFIX_LENGTH,
+  API_KEY_SECRET_LENGTH,
+} from './api-keys.constants';
+import { type CreateApiKeyDto, type UpdateApiKeyDto } from './dto';
+import type { CachedApiKey } from './types/interfaces/cached-api-key.interface';
+import type { IssuedApiKey } from './types/interfaces/issued-api-key.interface';
+
+/**
+ * Issues and verifies API keys of the form `<prefix>.<secret>`.
+ *
+ * Successful verifications are cached in Redis for `API_KEY_CACHE_TTL`
+ * seconds (with a SHA-256 digest of the secret) so bcrypt only runs on a miss.
+ */
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(
+    @InjectRepository(ApiKey)
+    private readonly repository: Repository<ApiKey>,
+    private readonly redis: RedisService,
+  ) {}
+
+  /**
+   * Create a key. The returned plain key cannot be retrieved later.
+   */
+  async issue(
+    dto: CreateApiKeyDto,
+    createdById: string | null,
+  ): Promise<IssuedApiKey> {
+    const prefix = randomString(API_KEY_PREFIX_LENGTH);
+    const secret = randomString(API_KEY_SECRET_LENGTH);
+
+    const apiKey = await this.repository.save(
+      this.repository.create({
+        name: dto.name,
+        prefix,
+        secretHash: await hash(secret),
+        scopes: dto.scopes,
+        expiresAt: dto.expiresAt ?? null,
+        createdById,
+      }),
+    );
+
+    return { apiKey, key: `${prefix}.${secret}` };
+  }
+
+  async findAll(
+    options: PaginationOptions,
+  ): Promise<PaginatedResponse<ApiKey>> {
+    return paginate(options, (skip, take) =>
+      this.repository.findAndCount({
+        order: { createdAt: 'DESC' },
+        skip,
+        take,
+      }),
+    );
+  }
+
+  async findOne(id: string): Promise<ApiKey> {
+    const apiKey = await this.repository.findOneBy({ id });
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+    return apiKey;
+  }
+
+  async update(id: string, dto: UpdateApiKeyDto): Promise<ApiKey> {
+    const apiKey = await this.findOne(id);
+    Object.assign(apiKey, dto);
+    const saved = await this.repository.save(apiKey);
+    await this.invalidate(apiKey.prefix);
+    return saved;
+  }
+
+  /**
+   * Revoke a key. It stops working immediately.
+   */
+  async revoke(id: string): Promise<void> {
+    const apiKey = await this.findOne(id);
+    if (!apiKey.revokedAt) {
+      await this.repository.update({ id }, { revokedAt: new Date() });
+    }
+    await this.invalidate(apiKey.prefix);
+  }
+
+  /**
+   * Verify a plain key. Returns the client, or null if the key is unknown,
+   * wrong, revoked or expired.
+   */
+  async verify(rawKey: string): Promise<ApiKeyPrincipal | null> {
+    const [prefix, secret, ...rest] = rawKey.split('.');
+    if (!prefix || !secret || rest.length > 0) return null;
+
+    const digest = sha256(secret);
+    const cacheKey = buildRedisKey(API_KEY_CACHE_PREFIX, prefix);
+
+    let cached = await this.redis.get<CachedApiKey>(cacheKey);
+    if (!cached) {
+      const apiKey = await this.repository.findOne({
+        where: { prefix, revokedAt: IsNull() },
+        select: {
+          id: true,
+          name: true,
+          prefix: true,
+          scopes: true,
+          expiresAt: true,
+          secretHash: true,
+        },
+      });
+      if (!apiKey || !(await compare(secret, apiKey.secretHash))) {
+        return null;
+      }
+
+      cached = {
+        id: apiKey.id,
+        name: apiKey.name,
+        prefix: apiKey.prefix,
+        scopes: apiKey.scopes,
+        expiresAt: apiKey.expiresAt?.toISOString() ?? null,
+        digest,
+      };
+      await this.redis.set(cacheKey, cached, API_KEY_CACHE_TTL);
+    }
+
+    if (!this.digestMatches(cached.digest, digest)) return null;
+    if (cached.expiresAt && isExpired(new Date(cached.expiresAt))) return null;
+
+    await this.touch(cached.id, prefix);
+
+    return {
+      id: cached.id,
+      name: cached.name,
+      prefix: cached.prefix,
+      scopes: cached.scopes,
+    };
+  }
+
+  /**
+   * Record usage, at most once per `API_KEY_LAST_USED_RESOLUTION` seconds.
+   */
+  private async touch(id: string, prefix: string): Promise<void> {
+    const first = await this.redis
+      .getClient()
+      .set(
+        buildRedisKey(API_KEY_CACHE_PREFIX, prefix, 'used'),
+        '1',
+        'EX',
+        API_KEY_LAST_USED_RESOLUTION,
+        'NX',
+      );
+    if (first !== 'OK') return;
+
+    this.repository
+      .update({ id }, { lastUsedAt: new Date() })
+      .catch((err: Error) =>
+        this.logger.warn(`Failed to record API key usage: ${err.message}`),
+      );
+  }
+
+  private async invalidate(prefix: string): Promise<void> {
+    await this.redis.del(buildRedisKey(API_KEY_CACHE_PREFIX, prefix));
+  }
+
+  private digestMatches(expected: string, actual: string): boolean {
+    const a = Buffer.from(expected, 'hex');
+    const b = Buffer.from(actual, 'hex');
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
@@ -0,0 +1,6 @@
+export * from './api-keys.module';
+export * from './api-keys.service';
+export * from './api-keys.entity';
+export * from './api-key.guard';
+export * from './dto';
+export * from './types';
@@ -0,0 +1,2 @@
+export * from './interfaces/issued-api-key.interface';
+export * from './interfaces/cached-api-key.interface';
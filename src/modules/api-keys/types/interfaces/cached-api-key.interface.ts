@@ -0,0 +1,8 @@
+import type { ApiKeyPrincipal } from '../../../../common/interfaces/auth.interface';
+
+/** Redis record of a recently verified API key. */
+export interface CachedApiKey extends ApiKeyPrincipal {
+  /** SHA-256 of the secret, to verify cache hits without bcrypt */
+  digest: string;
+  expiresAt: string | null;
+}
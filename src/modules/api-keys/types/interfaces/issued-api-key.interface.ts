@@ -0,0 +1,8 @@
+import { type ApiKey } from '../../api-keys.entity';
+
+/** Returned once when a key is issued; `key` is never retrievable again. */
+export interface IssuedApiKey {
+  apiKey: ApiKey;
+  /** Plain key to send as `X-API-Key` */
+  key: string;
+}
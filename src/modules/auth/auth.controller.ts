@@ -0,0 +1,193 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Inject,
+  Post,
+  Req,
+  Res,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { type ConfigType } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { type Request, type Response } from 'express';
+import { jwtConfig } from '../../config/jwt.config';
+import { csrfConfig } from '../../config/csrf.config';
+import {
+  buildCsrfCookieOptions,
+  buildRefreshCookieOptions,
+} from '../../config/cookie.config';
+import { Public } from '../../common/decorators/public.decorator';
+import { RefreshCookieAuth } from '../../common/decorators/refresh-cookie-auth.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { tokenExtractor } from '../../common/helper/token-extractor.helper';
+import { verifySessionId } from '../../common/helper/session-id.helper';
+import { extractReqInfo } from '../../common/utils/request.util';
+import {
+  CSRF_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+} from '../../common/constants/auth.constant';
+import { generateCsrfToken } from '../../common/utils/csrf.util';
+import type { AuthUser } from '../../common/interfaces/auth.interface';
+import { RedisService } from '../redis/redis.service';
+import { ImpersonationService } from '../impersonation/impersonation.service';
+import { AuthService } from './auth.service';
+import { LoginDto, RefreshTokenDto, TwoFactorLoginDto } from './dto';
+import { type AuthTokens } from './types/interfaces/auth-tokens.interface';
+import { type LoginResult } from './types/interfaces/mfa-challenge.interface';
+
+@ApiTags('Auth')
+@Controller('auth')
+export class AuthController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly impersonationService: ImpersonationService,
+    private readonly redis: RedisService,
+    private readonly jwtService: JwtService,
+    @Inject(jwtConfig.KEY)
+    private readonly jwt: ConfigType<typeof jwtConfig>,
+    @Inject(csrfConfig.KEY)
+    private readonly csrf: ConfigType<typeof csrfConfig>,
+  ) {}
+
+  /**
+   * Issue a CSRF token as a cookie and in the body, bound to the session of
+   * the caller's refresh or access token. Clients authenticating with
+   * cookies echo it in the `X-CSRF-Token` header on unsafe requests.
+   */
+  @Public()
+  @Get('csrf')
+  async csrfToken(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<{ csrfToken: string }> {
+    const sessionId = await this.csrfSessionId(req);
+    if (!sessionId) {
+      throw new UnauthorizedException('A CSRF token requires a login session');
+    }
+
+    const csrfToken = generateCsrfToken(sessionId, this.csrf.secret!);
+    res.cookie(CSRF_COOKIE, csrfToken, buildCsrfCookieOptions(this.jwt));
+    return { csrfToken };
+  }
+
+  @Public()
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  async login(
+    @Body() dto: LoginDto,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<LoginResult> {
+    const result = await this.authService.login(
+      dto,
+      await this.clientInfo(req),
+    );
+    if ('refreshToken' in result) {
+      this.setRefreshCookie(res, result.refreshToken);
+    }
+    return result;
+  }
+
+  @Public()
+  @Post('login/2fa')
+  @HttpCode(HttpStatus.OK)
+  async loginWithTwoFactor(
+    @Body() dto: TwoFactorLoginDto,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<AuthTokens> {
+    const tokens = await this.authService.loginWithTwoFactor(
+      dto,
+      await this.clientInfo(req),
+    );
+    this.setRefreshCookie(res, tokens.refreshToken);
+    return tokens;
+  }
+
+  @Public()
+  @RefreshCookieAuth()
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(
+    @Body() _dto: RefreshTokenDto,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<AuthTokens> {
+    const refreshToken = tokenExtractor(req, 'refreshToken');
+    if (!refreshToken) {
+      throw new UnauthorizedException('Missing refresh token');
+    }
+
+    try {
+      const tokens = await this.authService.refresh(
+        refreshToken,
+        await this.clientInfo(req),
+      );
+      this.setRefreshCookie(res, tokens.refreshToken);
+      return tokens;
+    } catch (error) {
+      this.clearRefreshCookie(res);
+      throw error;
+    }
+  }
+
+  @ApiBearerAuth('session-auth')
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(
+    @CurrentUser() user: AuthUser,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<void> {
+    // An impersonation token has no session; the refresh cookie (if any)
+    // belongs to the admin and must survive.
+    if (user.impersonator) {
+      await this.impersonationService.stop(user, await this.clientInfo(req));
+      return;
+    }
+
+    await this.authService.logout(user);
+    this.clearRefreshCookie(res);
+  }
+
+  /**
+   * Session of the refresh token, or else of the access token. Public route,
+   * so neither has been verified by `JwtAuthGuard`.
+   */
+  private async csrfSessionId(req: Request): Promise<string | null> {
+    const refreshToken = tokenExtractor(req, 'refreshToken');
+    const fromRefresh =
+      refreshToken &&
+      (await verifySessionId(this.jwtService, refreshToken, 'refresh'));
+    if (fromRefresh) return fromRefresh;
+
+    const accessToken = tokenExtractor(req, 'accessToken');
+    return accessToken
+      ? verifySessionId(this.jwtService, accessToken, 'access')
+      : null;
+  }
+
+  private clientInfo(req: Request) {
+    return extractReqInfo(
+      req,
+      { extractLocationInfo: true, useCache: true },
+      this.redis,
+    );
+  }
+
+  private setRefreshCookie(res: Response, refreshToken: string): void {
+    res.cookie(
+      REFRESH_TOKEN_COOKIE,
+      refreshToken,
+      buildRefreshCookieOptions(this.jwt),
+    );
+  }
+
+  private clearRefreshCookie(res: Response): void {
+    res.clearCookie(REFRESH_TOKEN_COOKIE, buildRefreshCookieOptions(this.jwt));
+  }
+}
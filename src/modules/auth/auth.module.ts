@@ -0,0 +1,58 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { JwtModule } from '@nestjs/jwt';
+import { ConfigType } from '@nestjs/config';
+import { jwtConfig } from '../../config/jwt.config';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { CsrfGuard } from '../../common/guards/csrf.guard';
+import { ImpersonationGuard } from '../../common/guards/impersonation.guard';
+import { PoliciesGuard } from '../policies/policies.guard';
+import { UsersModule } from '../users/users.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+import { TwoFactorModule } from '../two-factor/two-factor.module';
+import { ImpersonationModule } from '../impersonation/impersonation.module';
+import { ApiKeyGuard } from '../api-keys/api-key.guard';
+import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';
+import { RefreshTokenService } from './refresh-token.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { LockoutsController } from './lockouts.controller';
+
+@Module({
+  imports: [
+    UsersModule,
+    SessionsModule,
+    ApiKeysModule,
+    TwoFactorModule,
+    ImpersonationModule,
+    JwtModule.registerAsync({
+      global: true,
+      inject: [jwtConfig.KEY],
+      useFactory: (config: ConfigType<typeof jwtConfig>) => ({
+        secret: config.secret,
+        signOptions: { expiresIn: config.expiresIn },
+      }),
+    }),
+  ],
+  controllers: [AuthController, LockoutsController],
+  providers: [
+    AuthService,
+    RefreshTokenService,
+    LoginAttemptsService,
+    // Authenticates X-API-Key requests on routes marked @ApiKeyScopes()
+    { provide: APP_GUARD, useClass: ApiKeyGuard },
+    // Every route requires a valid access token unless marked @Public()
+    { provide: APP_GUARD, useClass: JwtAuthGuard },
+    // Cookie-authenticated unsafe requests must carry X-CSRF-Token
+    { provide: APP_GUARD, useClass: CsrfGuard },
+    // Routes marked @DenyImpersonation() reject impersonation tokens
+    { provide: APP_GUARD, useClass: ImpersonationGuard },
+    // Registered after JwtAuthGuard so request.user is already set
+    { provide: APP_GUARD, useClass: RolesGuard },
+    { provide: APP_GUARD, useClass: PoliciesGuard },
+  ],
+  exports: [AuthService, RefreshTokenService, LoginAttemptsService],
+})
+export class AuthModule {}
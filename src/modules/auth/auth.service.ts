@@ -0,0 +1,266 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { type ConfigType } from '@nestjs/config';
+import { jwtConfig } from '../../config/jwt.config';
+import { RedisService } from '../redis/redis.service';
+import { UsersService } from '../users/users.service';
+import { PasswordService } from '../users/password.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { TwoFactorService } from '../two-factor/two-factor.service';
+import { type User } from '../users/users.entity';
+import { generateUUID } from '../../common/utils/uuid.util';
+import { buildRedisKey } from '../../common/utils/redis.util';
+import {
+  MFA_ATTEMPTS_PREFIX,
+  MFA_MAX_ATTEMPTS,
+  MFA_TOKEN_TTL,
+  REVOKED_TOKEN_PREFIX,
+} from '../../common/constants/auth.constant';
+import type {
+  AuthUser,
+  JwtPayload,
+} from '../../common/interfaces/auth.interface';
+import type { ClientInfo } from '../../common/interfaces/client-info.interface';
+import { type LoginDto } from './dto/login.dto';
+import { type TwoFactorLoginDto } from './dto/two-factor-login.dto';
+import { type AuthTokens } from './types/interfaces/auth-tokens.interface';
+import type {
+  LoginResult,
+  MfaChallenge,
+} from './types/interfaces/mfa-challenge.interface';
+import { RefreshTokenService } from './refresh-token.service';
+import { LoginAttemptsService } from './login-attempts.service';
+
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly usersService: UsersService,
+    private readonly passwords: PasswordService,
+    private readonly refreshTokens: RefreshTokenService,
+    private readonly sessions: SessionsService,
+    private readonly twoFactor: TwoFactorService,
+    private readonly loginAttempts: LoginAttemptsService,
+    private readonly redis: RedisService,
+    @Inject(jwtConfig.KEY)
+    private readonly jwt: ConfigType<typeof jwtConfig>,
+  ) {}
+
+  /**
+   * Verify credentials, open a session for the client and issue a new
+   * access/refresh token pair bound to it.
+   * Users with 2FA enabled get an `MfaChallenge` instead.
+   * Failures count towards the brute-force lockout of the email and IP.
+   */
+  async login(dto: LoginDto, clientInfo: ClientInfo): Promise<LoginResult> {
+    await this.loginAttempts.assertAllowed(dto.email, clientInfo.ip);
+
+    const user = await this.usersService.findByEmailWithPassword(dto.email);
+    const valid = user
+      ? await this.passwords.verify(dto.password, user.password)
+      : false;
+
+    if (!user || !valid || !user.isActive) {
+      await this.loginAttempts.recordFailure(dto.email, clientInfo.ip);
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    await this.upgradePasswordHash(user, dto.password);
+
+    // Failures are only cleared once the second factor is verified too
+    if (await this.twoFactor.isEnabled(user.id)) {
+      return this.issueMfaChallenge(user);
+    }
+
+    await this.loginAttempts.recordSuccess(dto.email);
+    return this.startSession(user, clientInfo);
+  }
+
+  /**
+   * Second login step: exchange an "mfa pending" token and a TOTP or
+   * recovery code for a token pair. The mfa token is single-use and is
+   * burned after `MFA_MAX_ATTEMPTS` wrong codes.
+   */
+  async loginWithTwoFactor(
+    dto: TwoFactorLoginDto,
+    clientInfo: ClientInfo,
+  ): Promise<AuthTokens> {
+    const payload = await this.verifyMfaToken(dto.mfaToken);
+    await this.loginAttempts.assertAllowed(payload.email, clientInfo.ip);
+
+    const attemptsKey = buildRedisKey(MFA_ATTEMPTS_PREFIX, payload.jti);
+    const attempts = await this.redis.incr(attemptsKey);
+    if (attempts === 1) {
+      await this.redis.expire(attemptsKey, MFA_TOKEN_TTL);
+    }
+    if (attempts > MFA_MAX_ATTEMPTS) {
+      await this.revokeToken(payload.jti, payload.exp!);
+      throw new UnauthorizedException(
+        'Too many two-factor attempts, log in again',
+      );
+    }
+
+    const user = await this.usersService.findById(payload.sub);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    if (!(await this.twoFactor.verify(user.id, dto.code))) {
+      await this.loginAttempts.recordFailure(payload.email, clientInfo.ip);
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    await this.revokeToken(payload.jti, payload.exp!);
+    await this.loginAttempts.recordSuccess(payload.email);
+    return this.startSession(user, clientInfo);
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair, rotating its family.
+   * Any failure (revoked session, token reuse, inactive user) ends the session.
+   */
+  async refresh(
+    refreshToken: string,
+    clientInfo: ClientInfo,
+  ): Promise<AuthTokens> {
+    const payload = await this.refreshTokens.verify(refreshToken);
+    const sessionId = payload.fid!;
+
+    if (!(await this.sessions.isActive(sessionId))) {
+      await this.refreshTokens.revokeFamily(sessionId);
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    const user = await this.usersService.findById(payload.sub);
+    if (!user || !user.isActive) {
+      await this.endSession(sessionId);
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    let nextRefreshToken: string;
+    try {
+      nextRefreshToken = await this.refreshTokens.rotate(payload, user);
+    } catch (error) {
+      await this.sessions.revoke(sessionId);
+      throw error;
+    }
+
+    await this.sessions.touch(sessionId, clientInfo);
+    const accessToken = await this.signAccessToken(user, sessionId);
+    return this.buildTokens(accessToken, nextRefreshToken);
+  }
+
+  /**
+   * Revoke the current access token and end its session.
+   */
+  async logout(user: AuthUser): Promise<void> {
+    await this.revokeToken(user.tokenId, user.tokenExpiresAt);
+
+    if (user.sessionId) {
+      await this.endSession(user.sessionId);
+    }
+  }
+
+  /**
+   * Re-hash the password with the current cost/algorithm if it is outdated.
+   * Never fails the login.
+   */
+  private async upgradePasswordHash(user: User, password: string) {
+    if (!this.passwords.needsRehash(user.password)) return;
+    try {
+      await this.usersService.updatePassword(user.id, password);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to upgrade password hash for user ${user.id}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async startSession(
+    user: User,
+    clientInfo: ClientInfo,
+  ): Promise<AuthTokens> {
+    const session = await this.sessions.create(user.id, clientInfo);
+    const [accessToken, refreshToken] = await Promise.all([
+      this.signAccessToken(user, session.id),
+      this.refreshTokens.create(user, session.id),
+    ]);
+    return this.buildTokens(accessToken, refreshToken);
+  }
+
+  private async endSession(sessionId: string): Promise<void> {
+    await Promise.all([
+      this.sessions.revoke(sessionId),
+      this.refreshTokens.revokeFamily(sessionId),
+    ]);
+  }
+
+  private signAccessToken(user: User, sessionId: string): Promise<string> {
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      type: 'access',
+      jti: generateUUID(),
+      sid: sessionId,
+    };
+    return this.jwtService.signAsync(payload, {
+      expiresIn: this.jwt.expiresIn,
+    });
+  }
+
+  private async issueMfaChallenge(user: User): Promise<MfaChallenge> {
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      type: 'mfa',
+      jti: generateUUID(),
+    };
+    const mfaToken = await this.jwtService.signAsync(payload, {
+      expiresIn: MFA_TOKEN_TTL,
+    });
+    return { mfaRequired: true, mfaToken, expiresIn: MFA_TOKEN_TTL };
+  }
+
+  private async verifyMfaToken(token: string): Promise<JwtPayload> {
+    let payload: JwtPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(token);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired two-factor token');
+    }
+
+    const revoked = await this.redis.exists(
+      buildRedisKey(REVOKED_TOKEN_PREFIX, payload.jti),
+    );
+    if (payload.type !== 'mfa' || revoked) {
+      throw new UnauthorizedException('Invalid or expired two-factor token');
+    }
+    return payload;
+  }
+
+  private buildTokens(accessToken: string, refreshToken: string): AuthTokens {
+    return {
+      accessToken,
+      refreshToken,
+      tokenType: 'Bearer',
+      expiresIn: this.jwt.expiresIn,
+    };
+  }
+
+  /**
+   * Deny-list a token id until the token would have expired anyway.
+   */
+  private async revokeToken(jti: string, exp: number): Promise<void> {
+    const ttl = Math.ceil(exp - Date.now() / 1000);
+    if (ttl <= 0) return;
+    await this.redis.set(buildRedisKey(REVOKED_TOKEN_PREFIX, jti), true, ttl);
+  }
+}
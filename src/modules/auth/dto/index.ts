@@ -0,0 +1,3 @@
+export * from './login.dto';
+export * from './refresh-token.dto';
+export * from './two-factor-login.dto';
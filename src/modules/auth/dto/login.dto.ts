@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+import { NormalizeString } from '../../../common/decorators/normalize-string.decorator';
+
+export class LoginDto {
+  @ApiProperty({ example: 'jane@example.com' })
+  @NormalizeString({ trim: true, lowerCase: true })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsJWT } from 'class-validator';
+import { TwoFactorCodeDto } from '../../two-factor/dto/two-factor-code.dto';
+
+export class TwoFactorLoginDto extends TwoFactorCodeDto {
+  @ApiProperty({ description: 'Token returned by /auth/login' })
+  @IsJWT()
+  mfaToken: string;
+}
@@ -0,0 +1,5 @@
+export * from './auth.module';
+export * from './auth.service';
+export * from './refresh-token.service';
+export * from './dto';
+export * from './types';
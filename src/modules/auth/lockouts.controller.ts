@@ -0,0 +1,34 @@
+import {
+  Controller,
+  Delete,
+  HttpCode,
+  HttpStatus,
+  Param,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Role } from '../../common/enums/role.enum';
+import { LoginAttemptsService } from './login-attempts.service';
+
+/**
+ * Admin endpoints to lift brute-force lockouts before they expire.
+ */
+@ApiTags('Auth')
+@ApiBearerAuth('session-auth')
+@Roles(Role.ADMIN)
+@Controller('auth/lockouts')
+export class LockoutsController {
+  constructor(private readonly loginAttempts: LoginAttemptsService) {}
+
+  @Delete('accounts/:email')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async unlockAccount(@Param('email') email: string): Promise<void> {
+    await this.loginAttempts.unlockAccount(email);
+  }
+
+  @Delete('ips/:ip')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async unlockIp(@Param('ip') ip: string): Promise<void> {
+    await this.loginAttempts.unlockIp(ip);
+  }
+}
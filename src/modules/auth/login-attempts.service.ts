@@ -0,0 +1,138 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { type ConfigType } from '@nestjs/config';
+import { lockoutConfig } from '../../config/lockout.config';
+import { RedisService } from '../redis/redis.service';
+import { buildRedisKey } from '../../common/utils/redis.util';
+import {
+  AccountLockedException,
+  TooManyAttemptsException,
+} from '../../common/exceptions/retry-after.exception';
+import {
+  LOCKOUT_PREFIX,
+  LOGIN_DELAY_PREFIX,
+  LOGIN_FAILURES_PREFIX,
+} from '../../common/constants/auth.constant';
+
+type AttemptScope = 'account' | 'ip';
+
+/**
+ * Brute-force protection for credential endpoints, backed by Redis counters.
+ *
+ * Failures are counted per account (email) and per IP within
+ * `LOCKOUT_WINDOW`. From `LOCKOUT_DELAY_AFTER` failures on, the account must
+ * wait 1s, 2s, 4s… (capped at `LOCKOUT_MAX_DELAY`) between attempts; at
+ * `LOCKOUT_MAX_ATTEMPTS` it is locked for `LOCKOUT_DURATION`. An IP reaching
+ * `LOCKOUT_IP_MAX_ATTEMPTS` is blocked for the same duration.
+ */
+@Injectable()
+export class LoginAttemptsService {
+  constructor(
+    private readonly redis: RedisService,
+    @Inject(lockoutConfig.KEY)
+    private readonly config: ConfigType<typeof lockoutConfig>,
+  ) {}
+
+  /**
+   * Throw `429` (IP blocked, or retrying before the delay elapsed) or
+   * `423` (account locked) if this attempt may not proceed.
+   */
+  async assertAllowed(account: string, ip: string): Promise<void> {
+    const ipLock = await this.redis.ttl(this.key(LOCKOUT_PREFIX, 'ip', ip));
+    if (ipLock > 0) {
+      throw new TooManyAttemptsException(
+        ipLock,
+        'Too many failed attempts from this address, please try again later',
+      );
+    }
+
+    const accountLock = await this.redis.ttl(
+      this.key(LOCKOUT_PREFIX, 'account', account),
+    );
+    if (accountLock > 0) {
+      throw new AccountLockedException(accountLock);
+    }
+
+    const delay = await this.redis.ttl(
+      this.key(LOGIN_DELAY_PREFIX, 'account', account),
+    );
+    if (delay > 0) {
+      throw new TooManyAttemptsException(delay);
+    }
+  }
+
+  async recordFailure(account: string, ip: string): Promise<void> {
+    const [accountFailures, ipFailures] = await Promise.all([
+      this.increment('account', account),
+      this.increment('ip', ip),
+    ]);
+
+    if (ipFailures >= this.config.ipMaxAttempts) {
+      await this.lock('ip', ip);
+    }
+
+    if (accountFailures >= this.config.maxAttempts) {
+      await this.lock('account', account);
+    } else if (accountFailures >= this.config.delayAfter) {
+      const delay = Math.min(
+        2 ** (accountFailures - this.config.delayAfter),
+        this.config.maxDelay,
+      );
+      await this.redis.set(
+        this.key(LOGIN_DELAY_PREFIX, 'account', account),
+        true,
+        delay,
+      );
+    }
+  }
+
+  /**
+   * Forget an account's failures after a complete login.
+   * IP failures are kept: one IP may be attacking many accounts.
+   */
+  async recordSuccess(account: string): Promise<void> {
+    await this.redis.del(
+      this.key(LOGIN_FAILURES_PREFIX, 'account', account),
+      this.key(LOGIN_DELAY_PREFIX, 'account', account),
+    );
+  }
+
+  async unlockAccount(account: string): Promise<void> {
+    await this.redis.del(
+      this.key(LOCKOUT_PREFIX, 'account', account),
+      this.key(LOGIN_FAILURES_PREFIX, 'account', account),
+      this.key(LOGIN_DELAY_PREFIX, 'account', account),
+    );
+  }
+
+  async unlockIp(ip: string): Promise<void> {
+    await this.redis.del(
+      this.key(LOCKOUT_PREFIX, 'ip', ip),
+      this.key(LOGIN_FAILURES_PREFIX, 'ip', ip),
+    );
+  }
+
+  private async increment(scope: AttemptScope, id: string): Promise<number> {
+    const key = this.key(LOGIN_FAILURES_PREFIX, scope, id);
+    const failures = await this.redis.incr(key);
+    if (failures === 1) {
+      await this.redis.expire(key, this.config.window);
+    }
+    return failures;
+  }
+
+  private async lock(scope: AttemptScope, id: string): Promise<void> {
+    await this.redis.set(
+      this.key(LOCKOUT_PREFIX, scope, id),
+      true,
+      this.config.duration,
+    );
+    await this.redis.del(
+      this.key(LOGIN_FAILURES_PREFIX, scope, id),
+      this.key(LOGIN_DELAY_PREFIX, scope, id),
+    );
+  }
+
+  private key(prefix: string, scope: AttemptScope, id: string): string {
+    return buildRedisKey(prefix, scope, id.toLowerCase());
+  }
+}
@@ -0,0 +1,143 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { Test } from '@nestjs/testing';
+import { jwtConfig } from '../../config/jwt.config';
+import { RedisService } from '../redis/redis.service';
+import { REDIS_CLIENT } from '../redis/redis.constants';
+import { type User } from '../users/users.entity';
+import { RefreshTokenService } from './refresh-token.service';
+
+const user = { id: 'user-1', email: 'user@example.com' } as User;
+const FAMILY_ID = 'family-1';
+
+/**
+ * In-memory stand-in for the ioredis client. `eval` follows the contract of
+ * the rotation script: compare-and-swap of the family's `jti`, deleting the
+ * family when a stale one is presented.
+ */
+class FakeRedisClient {
+  readonly store = new Map<string, string>();
+
+  get(key: string) {
+    return Promise.resolve(this.store.get(key) ?? null);
+  }
+
+  set(key: string, value: string) {
+    this.store.set(key, value);
+    return Promise.resolve('OK');
+  }
+
+  del(...keys: string[]) {
+    return Promise.resolve(keys.filter((key) => this.store.delete(key)).length);
+  }
+
+  eval(
+    _script: string,
+    _keys: number,
+    key: string,
+    jti: string,
+    nextJti: string,
+  ) {
+    const raw = this.store.get(key);
+    if (!raw) return Promise.resolve(0);
+    const family = JSON.parse(raw) as { jti: string };
+    if (family.jti !== jti) {
+      this.store.delete(key);
+      return Promise.resolve(-1);
+    }
+    this.store.set(key, JSON.stringify({ ...family, jti: nextJti }));
+    return Promise.resolve(1);
+  }
+}
+
+describe('RefreshTokenService', () => {
+  let service: RefreshTokenService;
+  let redis: FakeRedisClient;
+
+  beforeEach(async () => {
+    redis = new FakeRedisClient();
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        RefreshTokenService,
+        RedisService,
+        { provide: REDIS_CLIENT, useValue: redis },
+        { provide: JwtService, useValue: new JwtService({ secret: 'test' }) },
+        { provide: jwtConfig.KEY, useValue: { refreshExpiresIn: 600 } },
+      ],
+    }).compile();
+    service = moduleRef.get(RefreshTokenService);
+  });
+
+  async function rotate(token: string): Promise<string> {
+    return service.rotate(await service.verify(token), user);
+  }
+
+  it('issues refresh tokens of the family', async () => {
+    const payload = await service.verify(await service.create(user, FAMILY_ID));
+    expect(payload).toMatchObject({
+      sub: user.id,
+      type: 'refresh',
+      fid: FAMILY_ID,
+    });
+  });
+
+  it('rejects tampered and non-refresh tokens', async () => {
+    const token = await service.create(user, FAMILY_ID);
+    await expect(service.verify(`${token}x`)).rejects.toThrow(
+      UnauthorizedException,
+    );
+
+    const access = await new JwtService({ secret: 'test' }).signAsync({
+      sub: user.id,
+      type: 'access',
+      jti: 'jti',
+    });
+    await expect(service.verify(access)).rejects.toThrow('Invalid token type');
+  });
+
+  it('rotates each token to the next one of its family', async () => {
+    const first = await service.create(user, FAMILY_ID);
+    const second = await rotate(first);
+    const third = await rotate(second);
+
+    const [a, b, c] = await Promise.all(
+      [first, second, third].map((token) => service.verify(token)),
+    );
+    expect(new Set([a.jti, b.jti, c.jti]).size).toBe(3);
+    expect(c.fid).toBe(FAMILY_ID);
+  });
+
+  it('revokes the family when a rotated token is reused', async () => {
+    const first = await service.create(user, FAMILY_ID);
+    const second = await rotate(first);
+
+    await expect(rotate(first)).rejects.toThrow('Refresh token reuse detected');
+    // The legitimate holder is logged out too
+    await expect(rotate(second)).rejects.toThrow(
+      'Refresh token has been revoked',
+    );
+  });
+
+  it('only lets one of two concurrent rotations win', async () => {
+    const first = await service.create(user, FAMILY_ID);
+    const payload = await service.verify(first);
+
+    const results = await Promise.allSettled([
+      service.rotate(payload, user),
+      service.rotate(payload, user),
+    ]);
+    expect(results.map((result) => result.status).sort()).toEqual([
+      'fulfilled',
+      'rejected',
+    ]);
+  });
+
+  it('rejects tokens of a revoked family', async () => {
+    const token = await service.create(user, FAMILY_ID);
+    await service.revokeFamily(FAMILY_ID);
+
+    await expect(rotate(token)).rejects.toThrow(
+      'Refresh token has been revoked',
+    );
+  });
+});
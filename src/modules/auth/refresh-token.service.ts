@@ -0,0 +1,144 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { type ConfigType } from '@nestjs/config';
+import { jwtConfig } from '../../config/jwt.config';
+import { RedisService } from '../redis/redis.service';
+import { type User } from '../users/users.entity';
+import { generateUUID } from '../../common/utils/uuid.util';
+import { buildRedisKey } from '../../common/utils/redis.util';
+import { REFRESH_TOKEN_FAMILY_PREFIX } from '../../common/constants/auth.constant';
+import type { JwtPayload } from '../../common/interfaces/auth.interface';
+import { type RefreshTokenFamily } from './types/interfaces/refresh-token-family.interface';
+
+/**
+ * Atomically swap the family's current token id.
+ * Returns 1 on success, 0 if the family is gone, -1 if a stale token was
+ * replayed (in which case the whole family is deleted).
+ */
+const ROTATE_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+if not raw then return 0 end
+local family = cjson.decode(raw)
+if family.jti ~= ARGV[1] then
+  redis.call('DEL', KEYS[1])
+  return -1
+end
+family.jti = ARGV[2]
+redis.call('SET', KEYS[1], cjson.encode(family), 'EX', tonumber(ARGV[3]))
+return 1
+`;
+
+/**
+ * Refresh token lifecycle backed by Redis token families.
+ *
+ * Every login starts a family; each refresh rotates the family to a new token id.
+ * Presenting a token that was already rotated away is treated as theft and
+ * revokes the whole family.
+ */
+@Injectable()
+export class RefreshTokenService {
+  private readonly logger = new Logger(RefreshTokenService.name);
+
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly redis: RedisService,
+    @Inject(jwtConfig.KEY)
+    private readonly jwt: ConfigType<typeof jwtConfig>,
+  ) {}
+
+  /**
+   * Start a new token family for the user and return its first refresh token.
+   */
+  async create(user: User, familyId: string): Promise<string> {
+    const jti = generateUUID();
+    const family: RefreshTokenFamily = { userId: user.id, jti };
+
+    await this.redis.set(
+      this.familyKey(familyId),
+      family,
+      this.jwt.refreshExpiresIn,
+    );
+    return this.sign(user, familyId, jti);
+  }
+
+  /**
+   * Verify a refresh token's signature, expiry and type.
+   * Does not check whether it is still the current token of its family.
+   */
+  async verify(token: string): Promise<JwtPayload> {
+    let payload: JwtPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(token);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+
+    if (payload.type !== 'refresh' || !payload.fid) {
+      throw new UnauthorizedException('Invalid token type');
+    }
+    return payload;
+  }
+
+  /**
+   * Replace a verified refresh token with the next token of its family.
+   * Replaying an already-rotated token revokes the family.
+   */
+  async rotate(payload: JwtPayload, user: User): Promise<string> {
+    const familyId = payload.fid!;
+    const nextJti = generateUUID();
+
+    const result = Number(
+      await this.redis
+        .getClient()
+        .eval(
+          ROTATE_SCRIPT,
+          1,
+          this.familyKey(familyId),
+          payload.jti,
+          nextJti,
+          this.jwt.refreshExpiresIn,
+        ),
+    );
+
+    if (result === -1) {
+      this.logger.warn(
+        `Refresh token reuse detected for user ${payload.sub}, family ${familyId} revoked`,
+      );
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+    if (result !== 1) {
+      throw new UnauthorizedException('Refresh token has been revoked');
+    }
+
+    return this.sign(user, familyId, nextJti);
+  }
+
+  /**
+   * Revoke every refresh token of a family.
+   */
+  async revokeFamily(familyId: string): Promise<void> {
+    await this.redis.del(this.familyKey(familyId));
+  }
+
+  private sign(user: User, familyId: string, jti: string): Promise<string> {
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      type: 'refresh',
+      jti,
+      fid: familyId,
+    };
+    return this.jwtService.signAsync(payload, {
+      expiresIn: this.jwt.refreshExpiresIn,
+    });
+  }
+
+  private familyKey(familyId: string): string {
+    return buildRedisKey(REFRESH_TOKEN_FAMILY_PREFIX, familyId);
+  }
+}
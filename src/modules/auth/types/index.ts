@@ -0,0 +1,3 @@
+export * from './interfaces/auth-tokens.interface';
+export * from './interfaces/refresh-token-family.interface';
+export * from './interfaces/mfa-challenge.interface';
@@ -0,0 +1,7 @@
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  /** Access token TTL in seconds */
+  expiresIn: number;
+}
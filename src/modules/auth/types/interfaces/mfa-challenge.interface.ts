@@ -0,0 +1,14 @@
+import type { AuthTokens } from './auth-tokens.interface';
+
+/**
+ * Returned by `/auth/login` instead of tokens when the user has 2FA enabled.
+ * Send `mfaToken` with a code to `/auth/login/2fa` to finish logging in.
+ */
+export interface MfaChallenge {
+  mfaRequired: true;
+  mfaToken: string;
+  /** `mfaToken` TTL in seconds */
+  expiresIn: number;
+}
+
+export type LoginResult = AuthTokens | MfaChallenge;
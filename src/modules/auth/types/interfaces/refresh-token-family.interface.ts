@@ -0,0 +1,6 @@
+/** Redis record for a refresh token family. */
+export interface RefreshTokenFamily {
+  userId: string;
+  /** Id of the only refresh token of this family that may still be used */
+  jti: string;
+}
@@ -5,11 +5,13 @@ import {
     TypeOrmHealthIndicator,
     MemoryHealthIndicator,
 } from '@nestjs/terminus';
+import { Public } from '../../common/decorators/public.decorator';
 import { HEAP_MEMORY_THRESHOLD } from '../../common/constants/app.constant';
 import { RedisHealthIndicator } from './indicators/redis.health';
 import { SmtpHealthIndicator } from './indicators/smtp.health';
 import { StorageHealthIndicator } from './indicators/storage.health';
 
+@Public()
 @Controller('health')
 export class HealthController {
   constructor(
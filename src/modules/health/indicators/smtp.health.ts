@@ -16,9 +16,13 @@ export class SmtpHealthIndicator {
    * SMTP is a non-critical check: connection failures are reported
    * as degraded (status: 'up' with an error message) rather than
    * 'down', so they won't cause a 503 on the health endpoint.
+   * Skipped when MAIL_TRANSPORT captures mail instead of sending it.
    */
   async check(key: string = 'smtp') {
     const session = this.indicator.check(key);
+    if (this.mail.transport !== 'smtp') {
+      return session.up({ transport: this.mail.transport });
+    }
     try {
       const transporter = createTransport({
         host: this.mail.host,
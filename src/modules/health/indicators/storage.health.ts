@@ -1,32 +1,41 @@
-import { Injectable, Inject } from '@nestjs/common';
+import { Injectable } from '@nestjs/common';
 import { HealthIndicatorService } from '@nestjs/terminus';
-import { S3Client, HeadBucketCommand } from '@aws-sdk/client-s3';
-import { storageConfig } from '../../../config/storage.config';
-import { type ConfigType } from '@nestjs/config';
-import { S3_CLIENT } from '../../storage/storage.constants';
+import { StorageManager } from '../../storage/storage.manager';
 
 @Injectable()
 export class StorageHealthIndicator {
   constructor(
-    @Inject(S3_CLIENT) private readonly client: S3Client,
-    @Inject(storageConfig.KEY)
-    private readonly storage: ConfigType<typeof storageConfig>,
+    private readonly storage: StorageManager,
     private readonly indicator: HealthIndicatorService,
   ) {}
 
   /**
-   * Non-critical check — verifies the configured S3 bucket is reachable
-   * via HeadBucket. Failures report degraded status, not down.
+   * Non-critical check — verifies every storage disk is reachable (HeadBucket
+   * for S3, a writable root for the local driver) and reports each one.
+   * Failures report degraded status, not down.
    */
   async check(key: string = 'storage') {
     const session = this.indicator.check(key);
-    try {
-      await this.client.send(
-        new HeadBucketCommand({ Bucket: this.storage.bucket }),
-      );
-      return session.up();
-    } catch {
-      return session.up({ message: 'degraded — storage service unavailable' });
+    const results = await Promise.all(
+      this.storage.all().map(async (disk) => {
+        const up = await disk.ping().then(
+          () => true,
+          () => false,
+        );
+        return [
+          disk.disk,
+          { driver: disk.driverName, status: up ? 'up' : 'degraded' },
+        ] as const;
+      }),
+    );
+
+    const disks = Object.fromEntries(results);
+    if (results.every(([, result]) => result.status === 'up')) {
+      return session.up({ disks });
     }
+    return session.up({
+      disks,
+      message: 'degraded — storage service unavailable',
+    });
   }
 }
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, MaxLength, MinLength } from 'class-validator';
+import { NormalizeString } from '../../../common/decorators/normalize-string.decorator';
+
+export class StartImpersonationDto {
+  @ApiProperty({
+    example: 'Ticket #4821 — checkout fails on step 2',
+    description:
+      'Why the user is being impersonated (stored in the audit trail)',
+  })
+  @NormalizeString({ trim: true })
+  @IsString()
+  @MinLength(3)
+  @MaxLength(500)
+  reason: string;
+}
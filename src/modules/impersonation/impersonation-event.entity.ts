@@ -0,0 +1,68 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { ImpersonationEventType } from './types/enums/impersonation-event-type.enum';
+
+/**
+ * Audit record of an admin starting or stopping an impersonation, with the
+ * admin's `ClientInfo`. Ids and emails are plain copies (no foreign keys)
+ * so the trail survives user deletion.
+ */
+@Entity('impersonation_events')
+export class ImpersonationEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'enum', enum: ImpersonationEventType })
+  type: ImpersonationEventType;
+
+  @Index()
+  @Column()
+  impersonatorId: string;
+
+  @Column()
+  impersonatorEmail: string;
+
+  @Index()
+  @Column()
+  targetUserId: string;
+
+  @Column()
+  targetEmail: string;
+
+  /** `jti` of the impersonation token, linking start and stop events */
+  @Index()
+  @Column()
+  tokenId: string;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null;
+
+  @Column()
+  ip: string;
+
+  @Column()
+  browser: string;
+
+  @Column()
+  os: string;
+
+  @Column({ type: 'text' })
+  agent: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  city: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  region: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  country: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,81 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { type Request } from 'express';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { DenyImpersonation } from '../../common/decorators/deny-impersonation.decorator';
+import { Pagination } from '../../common/decorators/pagination.decorator';
+import { ParseUUIDPipe } from '../../common/pipes/parse-uuid.pipe';
+import { Role } from '../../common/enums/role.enum';
+import { extractReqInfo } from '../../common/utils/request.util';
+import type { AuthUser } from '../../common/interfaces/auth.interface';
+import type { PaginationOptions } from '../../common/interfaces/pagination.interface';
+import { RedisService } from '../redis/redis.service';
+import { ImpersonationService } from './impersonation.service';
+import { StartImpersonationDto } from './dto';
+import type { ImpersonationToken } from './types';
+
+@ApiTags('Impersonation')
+@ApiBearerAuth('session-auth')
+@Controller('impersonation')
+export class ImpersonationController {
+  constructor(
+    private readonly impersonationService: ImpersonationService,
+    private readonly redis: RedisService,
+  ) {}
+
+  /**
+   * Get an access token acting as the user. Send it as a Bearer token.
+   */
+  @Roles(Role.ADMIN)
+  @DenyImpersonation()
+  @Post('users/:userId')
+  async start(
+    @CurrentUser() admin: AuthUser,
+    @Param('userId', new ParseUUIDPipe()) userId: string,
+    @Body() dto: StartImpersonationDto,
+    @Req() req: Request,
+  ): Promise<ImpersonationToken> {
+    return this.impersonationService.start(
+      admin,
+      userId,
+      dto,
+      await this.clientInfo(req),
+    );
+  }
+
+  /**
+   * Revoke the current impersonation token. Call it with that token.
+   */
+  @Post('stop')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async stop(
+    @CurrentUser() user: AuthUser,
+    @Req() req: Request,
+  ): Promise<void> {
+    await this.impersonationService.stop(user, await this.clientInfo(req));
+  }
+
+  @Roles(Role.ADMIN)
+  @Get('events')
+  findEvents(@Pagination() pagination: Required<PaginationOptions>) {
+    return this.impersonationService.findEvents(pagination);
+  }
+
+  private clientInfo(req: Request) {
+    return extractReqInfo(
+      req,
+      { extractLocationInfo: true, useCache: true },
+      this.redis,
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { UsersModule } from '../users/users.module';
+import { ImpersonationEvent } from './impersonation-event.entity';
+import { ImpersonationService } from './impersonation.service';
+import { ImpersonationController } from './impersonation.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ImpersonationEvent]), UsersModule],
+  controllers: [ImpersonationController],
+  providers: [ImpersonationService],
+  exports: [ImpersonationService],
+})
+export class ImpersonationModule {}
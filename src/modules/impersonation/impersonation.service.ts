@@ -0,0 +1,171 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { JwtService } from '@nestjs/jwt';
+import { Repository } from 'typeorm';
+import { RedisService } from '../redis/redis.service';
+import { UsersService } from '../users/users.service';
+import { Role } from '../../common/enums/role.enum';
+import { generateUUID } from '../../common/utils/uuid.util';
+import { buildRedisKey } from '../../common/utils/redis.util';
+import { paginate } from '../../common/utils/pagination.util';
+import {
+  IMPERSONATION_TOKEN_TTL,
+  REVOKED_TOKEN_PREFIX,
+} from '../../common/constants/auth.constant';
+import type {
+  AuthUser,
+  JwtPayload,
+} from '../../common/interfaces/auth.interface';
+import type { ClientInfo } from '../../common/interfaces/client-info.interface';
+import type {
+  PaginatedResponse,
+  PaginationOptions,
+} from '../../common/interfaces/pagination.interface';
+import { ImpersonationEvent } from './impersonation-event.entity';
+import { type StartImpersonationDto } from './dto';
+import { ImpersonationEventType, type ImpersonationToken } from './types';
+
+/**
+ * "Log in as user" for support staff.
+ *
+ * Issues a short-lived, non-refreshable access token for the target user
+ * carrying the admin and their session in its `act` claim, and writes an `ImpersonationEvent`
+ * on start and stop.
+ */
+@Injectable()
+export class ImpersonationService {
+  constructor(
+    @InjectRepository(ImpersonationEvent)
+    private readonly events: Repository<ImpersonationEvent>,
+    private readonly usersService: UsersService,
+    private readonly jwtService: JwtService,
+    private readonly redis: RedisService,
+  ) {}
+
+  async start(
+    admin: AuthUser,
+    targetUserId: string,
+    dto: StartImpersonationDto,
+    clientInfo: ClientInfo,
+  ): Promise<ImpersonationToken> {
+    if (!admin.sessionId) {
+      throw new ForbiddenException('Impersonation requires a login session');
+    }
+    if (targetUserId === admin.id) {
+      throw new BadRequestException('You cannot impersonate yourself');
+    }
+
+    const target = await this.usersService.findById(targetUserId);
+    if (!target || !target.isActive) {
+      throw new NotFoundException('User not found');
+    }
+    if (target.role === Role.ADMIN) {
+      throw new ForbiddenException('Administrators cannot be impersonated');
+    }
+
+    const payload: JwtPayload = {
+      sub: target.id,
+      email: target.email,
+      role: target.role,
+      type: 'access',
+      jti: generateUUID(),
+      act: { sub: admin.id, email: admin.email, sid: admin.sessionId },
+    };
+    const accessToken = await this.jwtService.signAsync(payload, {
+      expiresIn: IMPERSONATION_TOKEN_TTL,
+    });
+
+    await this.record(ImpersonationEventType.START, {
+      impersonatorId: admin.id,
+      impersonatorEmail: admin.email,
+      targetUserId: target.id,
+      targetEmail: target.email,
+      tokenId: payload.jti,
+      reason: dto.reason,
+      clientInfo,
+    });
+
+    return {
+      accessToken,
+      tokenType: 'Bearer',
+      expiresIn: IMPERSONATION_TOKEN_TTL,
+      impersonating: { id: target.id, email: target.email },
+    };
+  }
+
+  /**
+   * End the impersonation the current token belongs to by revoking it.
+   */
+  async stop(user: AuthUser, clientInfo: ClientInfo): Promise<void> {
+    if (!user.impersonator) {
+      throw new BadRequestException('You are not impersonating anyone');
+    }
+
+    const ttl = Math.ceil(user.tokenExpiresAt - Date.now() / 1000);
+    if (ttl > 0) {
+      await this.redis.set(
+        buildRedisKey(REVOKED_TOKEN_PREFIX, user.tokenId),
+        true,
+        ttl,
+      );
+    }
+
+    await this.record(ImpersonationEventType.STOP, {
+      impersonatorId: user.impersonator.id,
+      impersonatorEmail: user.impersonator.email,
+      targetUserId: user.id,
+      targetEmail: user.email,
+      tokenId: user.tokenId,
+      reason: null,
+      clientInfo,
+    });
+  }
+
+  /**
+   * Audit trail, newest first.
+   */
+  async findEvents(
+    options: PaginationOptions,
+  ): Promise<PaginatedResponse<ImpersonationEvent>> {
+    return paginate(options, (skip, take) =>
+      this.events.findAndCount({
+        order: { createdAt: 'DESC' },
+        skip,
+        take,
+      }),
+    );
+  }
+
+  private async record(
+    type: ImpersonationEventType,
+    event: Pick<
+      ImpersonationEvent,
+      | 'impersonatorId'
+      | 'impersonatorEmail'
+      | 'targetUserId'
+      | 'targetEmail'
+      | 'tokenId'
+      | 'reason'
+    > & { clientInfo: ClientInfo },
+  ): Promise<void> {
+    const { clientInfo, ...fields } = event;
+    await this.events.save(
+      this.events.create({
+        type,
+        ...fields,
+        ip: clientInfo.ip,
+        browser: clientInfo.browser,
+        os: clientInfo.os,
+        agent: clientInfo.agent,
+        city: clientInfo.ipInfo?.city ?? null,
+        region: clientInfo.ipInfo?.region ?? null,
+        country: clientInfo.ipInfo?.country ?? null,
+      }),
+    );
+  }
+}
@@ -0,0 +1,5 @@
+export * from './impersonation.module';
+export * from './impersonation.service';
+export * from './impersonation-event.entity';
+export * from './dto';
+export * from './types';
@@ -0,0 +1,4 @@
+export enum ImpersonationEventType {
+  START = 'start',
+  STOP = 'stop',
+}
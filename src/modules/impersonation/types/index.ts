@@ -0,0 +1,2 @@
+export * from './enums/impersonation-event-type.enum';
+export * from './interfaces/impersonation-token.interface';
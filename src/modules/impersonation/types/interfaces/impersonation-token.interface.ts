@@ -0,0 +1,8 @@
+/** Returned when an admin starts impersonating a user. */
+export interface ImpersonationToken {
+  accessToken: string;
+  tokenType: 'Bearer';
+  /** Access token TTL in seconds — impersonation tokens cannot be refreshed */
+  expiresIn: number;
+  impersonating: { id: string; email: string };
+}
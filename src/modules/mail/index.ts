@@ -0,0 +1,9 @@
+export * from './mail.module';
+export * from './mail.service';
+export * from './mail-template.service';
+export * from './mail-outbox.service';
+export * from './mail-outbox.entity';
+export * from './mail.constants';
+export * from './types';
+export * from './mail-capture.store';
+export * from './mail-capture.transport';
@@ -0,0 +1,109 @@
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { MAIL_CAPTURE_MEMORY_LIMIT } from './mail.constants';
+import type {
+  CapturedMail,
+  MailCaptureStore,
+} from './types/interfaces/captured-mail.interface';
+
+/** Captured ids are UUIDs; anything else never reaches the filesystem. */
+const CAPTURE_ID_PATTERN = /^[0-9a-f-]{36}$/i;
+
+/**
+ * Keeps the last `MAIL_CAPTURE_MEMORY_LIMIT` messages in memory. Lost on
+ * restart and not shared between instances.
+ */
+export class MemoryMailCaptureStore implements MailCaptureStore {
+  private readonly messages: { mail: CapturedMail; raw: Buffer }[] = [];
+
+  save(mail: CapturedMail, raw: Buffer): Promise<void> {
+    this.messages.unshift({ mail, raw });
+    this.messages.length = Math.min(
+      this.messages.length,
+      MAIL_CAPTURE_MEMORY_LIMIT,
+    );
+    return Promise.resolve();
+  }
+
+  list(): Promise<CapturedMail[]> {
+    return Promise.resolve(this.messages.map(({ mail }) => mail));
+  }
+
+  get(id: string): Promise<CapturedMail | null> {
+    return Promise.resolve(this.find(id)?.mail ?? null);
+  }
+
+  raw(id: string): Promise<Buffer | null> {
+    return Promise.resolve(this.find(id)?.raw ?? null);
+  }
+
+  clear(): Promise<void> {
+    this.messages.length = 0;
+    return Promise.resolve();
+  }
+
+  private find(id: string) {
+    return this.messages.find(({ mail }) => mail.id === id);
+  }
+}
+
+/**
+ * Writes `<id>.json` and `<id>.eml` per message to `MAIL_CAPTURE_DIR`.
+ * The `.eml` files open in any mail client.
+ */
+export class FileMailCaptureStore implements MailCaptureStore {
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = resolve(dir);
+  }
+
+  async save(mail: CapturedMail, raw: Buffer): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(join(this.dir, `${mail.id}.eml`), raw);
+    await writeFile(
+      join(this.dir, `${mail.id}.json`),
+      JSON.stringify(mail, null, 2),
+    );
+  }
+
+  async list(): Promise<CapturedMail[]> {
+    const files = await readdir(this.dir).catch(() => [] as string[]);
+    const messages = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => this.get(file.slice(0, -'.json'.length))),
+    );
+    return messages
+      .filter((mail): mail is CapturedMail => mail !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async get(id: string): Promise<CapturedMail | null> {
+    const json = await this.read(id, 'json');
+    return json ? (JSON.parse(json.toString('utf8')) as CapturedMail) : null;
+  }
+
+  raw(id: string): Promise<Buffer | null> {
+    return this.read(id, 'eml');
+  }
+
+  async clear(): Promise<void> {
+    const files = await readdir(this.dir).catch(() => [] as string[]);
+    await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json') || file.endsWith('.eml'))
+        .map((file) => rm(join(this.dir, file), { force: true })),
+    );
+  }
+
+  private async read(id: string, extension: string): Promise<Buffer | null> {
+    if (!CAPTURE_ID_PATTERN.test(id)) return null;
+    try {
+      return await readFile(join(this.dir, `${id}.${extension}`));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+}
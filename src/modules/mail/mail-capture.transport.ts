@@ -0,0 +1,90 @@
+import { type Transport } from 'nodemailer';
+import type Mail from 'nodemailer/lib/mailer';
+import type MailMessage from 'nodemailer/lib/mailer/mail-message';
+import { generateUUID } from '../../common/utils/uuid.util';
+import type {
+  CapturedMail,
+  MailCaptureStore,
+} from './types/interfaces/captured-mail.interface';
+import { type TransportResult } from './types/interfaces/sent-mail.interface';
+
+/** Reported alongside an error; nodemailer ignores `info` when `err` is set */
+const NOT_CAPTURED: TransportResult = {
+  messageId: '',
+  accepted: [],
+  rejected: [],
+};
+
+/**
+ * nodemailer transport that builds the full message (attachments
+ * included) and hands it to a `MailCaptureStore` instead of sending it.
+ */
+export class MailCaptureTransport implements Transport<TransportResult> {
+  readonly name = 'capture';
+  readonly version = '1.0.0';
+
+  constructor(private readonly store: MailCaptureStore) {}
+
+  send(
+    mail: MailMessage<TransportResult>,
+    callback: (err: Error | null, info: TransportResult) => void,
+  ): void {
+    this.capture(mail).then(
+      (info) => callback(null, info),
+      (error: Error) => callback(error, NOT_CAPTURED),
+    );
+  }
+
+  verify(): Promise<true> {
+    return Promise.resolve(true);
+  }
+
+  private async capture(
+    mail: MailMessage<TransportResult>,
+  ): Promise<TransportResult> {
+    const raw = await mail.message.build();
+    const messageId = mail.message.messageId();
+    const { data } = mail;
+
+    const captured: CapturedMail = {
+      id: generateUUID(),
+      messageId,
+      from: formatAddresses(data.from)[0] ?? '',
+      to: formatAddresses(data.to),
+      cc: formatAddresses(data.cc),
+      bcc: formatAddresses(data.bcc),
+      subject: data.subject ?? '',
+      html: asText(data.html),
+      text: asText(data.text),
+      attachments: (data.attachments ?? []).map((attachment) => ({
+        filename: attachment.filename || 'attachment',
+        contentType: attachment.contentType,
+      })),
+      createdAt: new Date().toISOString(),
+    };
+    await this.store.save(captured, raw);
+
+    return {
+      messageId,
+      accepted: mail.message.getEnvelope().to,
+      rejected: [],
+    };
+  }
+}
+
+function formatAddresses(value: Mail.Options['to']): string[] {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value]).map((address) =>
+    typeof address === 'string'
+      ? address
+      : address.name
+        ? `"${address.name}" <${address.address}>`
+        : address.address,
+  );
+}
+
+function asText(value: Mail.Options['html']): string | null {
+  if (typeof value === 'string') return value;
+  if (Buffer.isBuffer(value)) return value.toString('utf8');
+  return null;
+}
@@ -0,0 +1,47 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseEnumPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Pagination } from '../../common/decorators/pagination.decorator';
+import { ParseUUIDPipe } from '../../common/pipes/parse-uuid.pipe';
+import { Role } from '../../common/enums/role.enum';
+import type { PaginationOptions } from '../../common/interfaces/pagination.interface';
+import { MailOutboxService } from './mail-outbox.service';
+import { MailOutboxStatus } from './types/enums/mail-outbox-status.enum';
+
+@ApiTags('Mail Outbox')
+@ApiBearerAuth('session-auth')
+@Roles(Role.ADMIN)
+@Controller('mail/outbox')
+export class MailOutboxController {
+  constructor(private readonly outbox: MailOutboxService) {}
+
+  @Get()
+  @ApiQuery({ name: 'status', enum: MailOutboxStatus, required: false })
+  findAll(
+    @Pagination() pagination: Required<PaginationOptions>,
+    @Query('status', new ParseEnumPipe(MailOutboxStatus, { optional: true }))
+    status?: MailOutboxStatus,
+  ) {
+    return this.outbox.findAll(pagination, status);
+  }
+
+  @Get(':id')
+  findOne(@Param('id', new ParseUUIDPipe()) id: string) {
+    return this.outbox.findOne(id);
+  }
+
+  /**
+   * Re-queue a dead-lettered message.
+   */
+  @Post(':id/retry')
+  retry(@Param('id', new ParseUUIDPipe()) id: string) {
+    return this.outbox.retry(id);
+  }
+}
@@ -0,0 +1,59 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { MailOutboxStatus } from './types/enums/mail-outbox-status.enum';
+import { type QueueMailOptions } from './types/interfaces/queue-mail-options.interface';
+
+/**
+ * An email persisted before delivery. `MailOutboxWorker` sends due
+ * messages and reschedules failures with exponential backoff.
+ */
+@Entity('mail_outbox')
+@Index(['status', 'nextAttemptAt'])
+export class MailOutboxMessage {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', unique: true, nullable: true })
+  idempotencyKey: string | null;
+
+  @Column({
+    type: 'enum',
+    enum: MailOutboxStatus,
+    default: MailOutboxStatus.PENDING,
+  })
+  status: MailOutboxStatus;
+
+  @Column()
+  template: string;
+
+  /** Everything `MailService.send` needs, rendered at delivery time */
+  @Column({ type: 'simple-json' })
+  options: Omit<QueueMailOptions, 'idempotencyKey' | 'sendAt'>;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'timestamp' })
+  nextAttemptAt: Date;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  messageId: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  sentAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
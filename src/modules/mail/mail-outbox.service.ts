@@ -0,0 +1,216 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { type ConfigType } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThanOrEqual, QueryFailedError, Repository } from 'typeorm';
+import { mailOutboxConfig } from '../../config/mail-outbox.config';
+import { paginate } from '../../common/utils/pagination.util';
+import { addSeconds } from '../../common/utils/date.util';
+import type {
+  PaginatedResponse,
+  PaginationOptions,
+} from '../../common/interfaces/pagination.interface';
+import { MailService } from './mail.service';
+import { MailOutboxMessage } from './mail-outbox.entity';
+import { MailOutboxStatus } from './types/enums/mail-outbox-status.enum';
+import { type QueueMailOptions } from './types/interfaces/queue-mail-options.interface';
+
+/** Statuses a worker may claim once `nextAttemptAt` has passed. */
+const CLAIMABLE = [MailOutboxStatus.PENDING, MailOutboxStatus.SENDING];
+
+/**
+ * Durable email delivery. `enqueue` persists a message and returns
+ * immediately; `MailOutboxWorker` calls `processDue` to send it.
+ *
+ * Delivery is at-least-once: a worker that crashes between the SMTP
+ * handoff and the status update leaves the message to be sent again once
+ * its lease expires.
+ */
+@Injectable()
+export class MailOutboxService {
+  private readonly logger = new Logger(MailOutboxService.name);
+
+  constructor(
+    @InjectRepository(MailOutboxMessage)
+    private readonly repository: Repository<MailOutboxMessage>,
+    @Inject(mailOutboxConfig.KEY)
+    private readonly config: ConfigType<typeof mailOutboxConfig>,
+    private readonly mail: MailService,
+  ) {}
+
+  /**
+   * Persist an email for delivery. The template is rendered once up front
+   * so a typo fails here rather than in the worker.
+   */
+  async enqueue(options: QueueMailOptions): Promise<MailOutboxMessage> {
+    const { idempotencyKey, sendAt, ...message } = options;
+
+    if (idempotencyKey) {
+      const existing = await this.findByIdempotencyKey(idempotencyKey);
+      if (existing) return existing;
+    }
+
+    await this.mail.render(message);
+
+    try {
+      return await this.repository.save(
+        this.repository.create({
+          idempotencyKey: idempotencyKey ?? null,
+          status: MailOutboxStatus.PENDING,
+          template: message.template,
+          options: message,
+          nextAttemptAt: sendAt ?? new Date(),
+        }),
+      );
+    } catch (error) {
+      // Lost a race against a concurrent enqueue with the same key
+      if (idempotencyKey && error instanceof QueryFailedError) {
+        const existing = await this.findByIdempotencyKey(idempotencyKey);
+        if (existing) return existing;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send up to `batchSize` due messages. Returns how many were attempted.
+   */
+  async processDue(): Promise<number> {
+    const now = new Date();
+    const due = await this.repository.find({
+      select: { id: true },
+      where: { status: In(CLAIMABLE), nextAttemptAt: LessThanOrEqual(now) },
+      order: { nextAttemptAt: 'ASC' },
+      take: this.config.batchSize,
+    });
+
+    let attempted = 0;
+    for (const { id } of due) {
+      const message = await this.claim(id, now);
+      if (!message) continue;
+      await this.deliver(message);
+      attempted++;
+    }
+    return attempted;
+  }
+
+  async findAll(
+    options: PaginationOptions,
+    status?: MailOutboxStatus,
+  ): Promise<PaginatedResponse<MailOutboxMessage>> {
+    return paginate(options, (skip, take) =>
+      this.repository.findAndCount({
+        where: status ? { status } : {},
+        order: { createdAt: 'DESC' },
+        skip,
+        take,
+      }),
+    );
+  }
+
+  async findOne(id: string): Promise<MailOutboxMessage> {
+    const message = await this.repository.findOneBy({ id });
+    if (!message) {
+      throw new NotFoundException('Outbox message not found');
+    }
+    return message;
+  }
+
+  /**
+   * Move a dead-lettered message back to the queue with a fresh set of
+   * attempts.
+   */
+  async retry(id: string): Promise<MailOutboxMessage> {
+    const message = await this.findOne(id);
+    if (message.status !== MailOutboxStatus.FAILED) {
+      throw new ConflictException('Only failed messages can be retried');
+    }
+
+    message.status = MailOutboxStatus.PENDING;
+    message.attempts = 0;
+    message.nextAttemptAt = new Date();
+    return this.repository.save(message);
+  }
+
+  private findByIdempotencyKey(
+    idempotencyKey: string,
+  ): Promise<MailOutboxMessage | null> {
+    return this.repository.findOneBy({ idempotencyKey });
+  }
+
+  /**
+   * Take a lease on a message. The conditional update only succeeds for
+   * one worker, so several app instances can share the outbox.
+   */
+  private async claim(
+    id: string,
+    now: Date,
+  ): Promise<MailOutboxMessage | null> {
+    const result = await this.repository.update(
+      { id, status: In(CLAIMABLE), nextAttemptAt: LessThanOrEqual(now) },
+      {
+        status: MailOutboxStatus.SENDING,
+        nextAttemptAt: addSeconds(now, this.config.lease),
+      },
+    );
+    if (!result.affected) return null;
+    return this.repository.findOneBy({ id });
+  }
+
+  private async deliver(message: MailOutboxMessage): Promise<void> {
+    const attempts = message.attempts + 1;
+
+    try {
+      const sent = await this.mail.send(message.options);
+      await this.repository.update(message.id, {
+        status: MailOutboxStatus.SENT,
+        attempts,
+        messageId: sent.messageId,
+        sentAt: new Date(),
+        lastError: null,
+      });
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+
+      if (attempts >= this.config.maxAttempts || isPermanentFailure(error)) {
+        this.logger.error(
+          `Outbox message ${message.id} dead-lettered after ${attempts} attempt(s): ${lastError}`,
+        );
+        await this.repository.update(message.id, {
+          status: MailOutboxStatus.FAILED,
+          attempts,
+          lastError,
+        });
+        return;
+      }
+
+      const delay = Math.min(
+        this.config.retryDelay * 2 ** (attempts - 1),
+        this.config.maxRetryDelay,
+      );
+      this.logger.warn(
+        `Outbox message ${message.id} failed (attempt ${attempts}), retrying in ${delay}s: ${lastError}`,
+      );
+      await this.repository.update(message.id, {
+        status: MailOutboxStatus.PENDING,
+        attempts,
+        lastError,
+        nextAttemptAt: addSeconds(new Date(), delay),
+      });
+    }
+  }
+}
+
+/**
+ * SMTP 5xx replies (unknown mailbox, rejected content) will not succeed on
+ * retry; 4xx replies and connection errors might.
+ */
+function isPermanentFailure(error: unknown): boolean {
+  const code = (error as { responseCode?: unknown } | null)?.responseCode;
+  return typeof code === 'number' && code >= 500 && code < 600;
+}
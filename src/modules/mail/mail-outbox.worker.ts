@@ -0,0 +1,61 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { type ConfigType } from '@nestjs/config';
+import { mailOutboxConfig } from '../../config/mail-outbox.config';
+import { MailOutboxService } from './mail-outbox.service';
+
+/**
+ * Polls the outbox every `MAIL_OUTBOX_POLL_INTERVAL` seconds and drains
+ * due messages. Disable it with `MAIL_OUTBOX_WORKER_ENABLED=false` on
+ * instances that should only enqueue.
+ */
+@Injectable()
+export class MailOutboxWorker
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(MailOutboxWorker.name);
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+
+  constructor(
+    private readonly outbox: MailOutboxService,
+    @Inject(mailOutboxConfig.KEY)
+    private readonly config: ConfigType<typeof mailOutboxConfig>,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    if (!this.config.workerEnabled) return;
+
+    this.timer = setInterval(() => {
+      this.running ??= this.drain().finally(() => {
+        this.running = undefined;
+      });
+    }, this.config.pollInterval * 1000);
+    this.timer.unref();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    await this.running;
+  }
+
+  private async drain(): Promise<void> {
+    try {
+      // Keep going while full batches come back
+      while ((await this.outbox.processDue()) >= this.config.batchSize) {
+        if (!this.timer) return;
+      }
+    } catch (error) {
+      this.logger.error(
+        'Outbox poll failed',
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Inject,
+  NotFoundException,
+  Param,
+  ParseEnumPipe,
+  Query,
+  Res,
+} from '@nestjs/common';
+import { ApiQuery, ApiTags } from '@nestjs/swagger';
+import { type Response } from 'express';
+import { Public } from '../../common/decorators/public.decorator';
+import { ParseUUIDPipe } from '../../common/pipes/parse-uuid.pipe';
+import { MailService } from './mail.service';
+import { MailTemplateService } from './mail-template.service';
+import { MAIL_CAPTURE_STORE } from './mail.constants';
+import type {
+  CapturedMail,
+  MailCaptureStore,
+} from './types/interfaces/captured-mail.interface';
+import type { RenderedMail } from './types/interfaces/rendered-mail.interface';
+
+enum PreviewFormat {
+  HTML = 'html',
+  TEXT = 'text',
+  JSON = 'json',
+}
+
+/**
+ * Development-only mail catcher and template preview. Only registered
+ * when `APP_ENV=development` (see `MailPreviewModule`), and public so the
+ * HTML routes open directly in a browser.
+ */
+@ApiTags('Dev — Mail')
+@Public()
+@Controller('dev/mail')
+export class MailPreviewController {
+  constructor(
+    private readonly mail: MailService,
+    private readonly templates: MailTemplateService,
+    @Inject(MAIL_CAPTURE_STORE)
+    private readonly store: MailCaptureStore | null,
+  ) {}
+
+  @Get('templates')
+  listTemplates(): Promise<string[]> {
+    return this.templates.list();
+  }
+
+  /**
+   * Render a template with its `sample.json`. `format=html` (default) and
+   * `format=text` return the body itself, `format=json` all parts.
+   */
+  @Get('preview')
+  @ApiQuery({ name: 'template', example: 'welcome' })
+  @ApiQuery({ name: 'locale', required: false })
+  @ApiQuery({ name: 'format', enum: PreviewFormat, required: false })
+  async preview(
+    @Query('template') template: string,
+    @Query('locale') locale: string | undefined,
+    @Query('format', new ParseEnumPipe(PreviewFormat, { optional: true }))
+    format: PreviewFormat | undefined,
+    @Res() res: Response,
+  ): Promise<void> {
+    let rendered: RenderedMail;
+    try {
+      rendered = await this.mail.render({
+        template,
+        locale,
+        context: await this.templates.sample(template, locale),
+      });
+    } catch (error) {
+      throw new NotFoundException(
+        error instanceof Error ? error.message : 'Template not found',
+      );
+    }
+
+    if (format === PreviewFormat.JSON) {
+      res.json(rendered);
+    } else if (format === PreviewFormat.TEXT) {
+      res.type('text/plain').send(rendered.text);
+    } else {
+      res.type('html').send(rendered.html);
+    }
+  }
+
+  @Get('messages')
+  listMessages(): Promise<CapturedMail[]> {
+    return this.captureStore().list();
+  }
+
+  @Get('messages/:id')
+  getMessage(
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ): Promise<CapturedMail> {
+    return this.findMessage(id);
+  }
+
+  @Get('messages/:id/html')
+  async getMessageHtml(
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const message = await this.findMessage(id);
+    if (message.html === null) {
+      throw new NotFoundException('Message has no HTML body');
+    }
+    res.type('html').send(message.html);
+  }
+
+  /**
+   * The full message as sent, attachments included. Opens in any mail
+   * client.
+   */
+  @Get('messages/:id/raw')
+  async getMessageRaw(
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const raw = await this.captureStore().raw(id);
+    if (!raw) {
+      throw new NotFoundException('Message not found');
+    }
+    res.type('message/rfc822').attachment(`${id}.eml`).send(raw);
+  }
+
+  @Delete('messages')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async clearMessages(): Promise<void> {
+    await this.captureStore().clear();
+  }
+
+  private captureStore(): MailCaptureStore {
+    if (!this.store) {
+      throw new NotFoundException(
+        'Mail capture is disabled; set MAIL_TRANSPORT to file or memory',
+      );
+    }
+    return this.store;
+  }
+
+  private async findMessage(id: string): Promise<CapturedMail> {
+    const message = await this.captureStore().get(id);
+    if (!message) {
+      throw new NotFoundException('Message not found');
+    }
+    return message;
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { MailPreviewController } from './mail-preview.controller';
+
+/**
+ * Dev-only routes under `/dev/mail`. `AppModule` imports it through
+ * `ConditionalModule` so it never exists outside `APP_ENV=development`.
+ */
+@Module({
+  controllers: [MailPreviewController],
+})
+export class MailPreviewModule {}
@@ -0,0 +1,282 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { type ConfigType } from '@nestjs/config';
+import { readdir, readFile } from 'fs/promises';
+import { basename, join, relative, resolve, sep } from 'path';
+import Handlebars from 'handlebars';
+import { mailConfig } from '../../config/mail.config';
+import { appConfig } from '../../config/app.config';
+import { MAIL_DEFAULT_LAYOUT, MAIL_TEMPLATE_EXTENSION } from './mail.constants';
+import { type RenderedMail } from './types/interfaces/rendered-mail.interface';
+
+type TemplatePart = 'subject' | 'html' | 'text';
+
+/** Template and layout names are relative paths; `..` is never allowed. */
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*(\/[a-z0-9][a-z0-9_-]*)*$/i;
+
+/**
+ * Renders email templates with Handlebars.
+ *
+ * ```
+ * templates/
+ * ├── layouts/default.hbs       # HTML layout, receives {{{body}}}
+ * ├── layouts/default.text.hbs  # optional text layout
+ * ├── partials/button.hbs       # {{> button}}
+ * └── welcome/
+ *     ├── subject.hbs
+ *     ├── html.hbs
+ *     ├── text.hbs              # optional, derived from the HTML otherwise
+ *     ├── html.fr.hbs           # per-locale variant of any part
+ *     └── sample.json           # optional preview data (dev routes)
+ * ```
+ *
+ * Every template, layout and partial also receives `appName` and `locale`.
+ * Compiled templates are cached, except in development.
+ */
+@Injectable()
+export class MailTemplateService {
+  private readonly handlebars = Handlebars.create();
+  private readonly cache = new Map<string, HandlebarsTemplateDelegate | null>();
+  private readonly dir: string;
+  private readonly appName?: string;
+  private readonly cacheEnabled: boolean;
+  private partialsLoaded = false;
+
+  constructor(
+    @Inject(mailConfig.KEY)
+    private readonly config: ConfigType<typeof mailConfig>,
+    @Inject(appConfig.KEY)
+    app: ConfigType<typeof appConfig>,
+  ) {
+    this.dir = config.templatesDir
+      ? resolve(config.templatesDir)
+      : join(__dirname, 'templates');
+    this.appName = app.name;
+    this.cacheEnabled = app.env !== 'development';
+  }
+
+  async render(
+    template: string,
+    context: Record<string, unknown> = {},
+    options: {
+      locale?: string;
+      subject?: string;
+      layout?: string | false;
+    } = {},
+  ): Promise<RenderedMail> {
+    this.assertName(template);
+    await this.loadPartials();
+
+    const locale = options.locale ?? this.config.defaultLocale;
+    const data = { appName: this.appName, ...context, locale };
+
+    const body = await this.renderPart(template, 'html', locale, data);
+    if (body === null) {
+      throw new Error(`Mail template "${template}" not found`);
+    }
+
+    const subject =
+      options.subject ??
+      (await this.renderPart(template, 'subject', locale, data));
+    if (!subject) {
+      throw new Error(`Mail template "${template}" has no subject`);
+    }
+
+    const text =
+      (await this.renderPart(template, 'text', locale, data)) ??
+      htmlToText(body);
+
+    const layout =
+      options.layout === undefined ? MAIL_DEFAULT_LAYOUT : options.layout;
+    if (layout === false) {
+      return { subject: singleLine(subject), html: body, text };
+    }
+
+    this.assertName(layout);
+    const layoutData = { ...data, subject: singleLine(subject) };
+    const html = await this.renderFile(
+      `layouts/${layout}${MAIL_TEMPLATE_EXTENSION}`,
+      { ...layoutData, body },
+    );
+    if (html === null) {
+      throw new Error(`Mail layout "${layout}" not found`);
+    }
+    const textLayout = await this.renderFile(
+      `layouts/${layout}.text${MAIL_TEMPLATE_EXTENSION}`,
+      { ...layoutData, body: text },
+      true,
+    );
+
+    return { subject: singleLine(subject), html, text: textLayout ?? text };
+  }
+
+  /**
+   * Names of all templates (directories with an `html.hbs`), sorted.
+   */
+  async list(): Promise<string[]> {
+    const names: string[] = [];
+    const walk = async (dir: string): Promise<void> => {
+      const entries = await readdir(dir, { withFileTypes: true }).catch(
+        () => [],
+      );
+      for (const entry of entries) {
+        if (entry.isFile() && entry.name === `html${MAIL_TEMPLATE_EXTENSION}`) {
+          names.push(relative(this.dir, dir).split(sep).join('/'));
+        }
+        const reserved =
+          dir === this.dir && ['layouts', 'partials'].includes(entry.name);
+        if (entry.isDirectory() && !reserved) {
+          await walk(join(dir, entry.name));
+        }
+      }
+    };
+    await walk(this.dir);
+    return names.sort();
+  }
+
+  /**
+   * Preview data from `<template>/sample.json` (or `sample.<locale>.json`),
+   * `{}` when there is none.
+   */
+  async sample(
+    template: string,
+    locale = this.config.defaultLocale,
+  ): Promise<Record<string, unknown>> {
+    this.assertName(template);
+    for (const suffix of localeSuffixes(locale, this.config.defaultLocale)) {
+      const json = await readOptional(
+        join(this.dir, template, `sample${suffix}.json`),
+      );
+      if (json !== null) return JSON.parse(json) as Record<string, unknown>;
+    }
+    return {};
+  }
+
+  /**
+   * Render the most specific variant of a part: `html.fr-CA.hbs`,
+   * `html.fr.hbs`, then `html.hbs` (the default locale).
+   */
+  private async renderPart(
+    template: string,
+    part: TemplatePart,
+    locale: string,
+    data: Record<string, unknown>,
+  ): Promise<string | null> {
+    const noEscape = part !== 'html';
+    for (const suffix of localeSuffixes(locale, this.config.defaultLocale)) {
+      const rendered = await this.renderFile(
+        `${template}/${part}${suffix}${MAIL_TEMPLATE_EXTENSION}`,
+        data,
+        noEscape,
+      );
+      if (rendered !== null) return rendered;
+    }
+    return null;
+  }
+
+  /**
+   * Render a file relative to the templates directory, or `null` when it
+   * does not exist. Subjects and text bodies are rendered without HTML
+   * escaping.
+   */
+  private async renderFile(
+    file: string,
+    data: Record<string, unknown>,
+    noEscape = false,
+  ): Promise<string | null> {
+    const cacheKey = `${noEscape ? 'raw' : 'html'}:${file}`;
+    let compiled = this.cacheEnabled ? this.cache.get(cacheKey) : undefined;
+
+    if (compiled === undefined) {
+      const source = await readOptional(join(this.dir, file));
+      compiled =
+        source === null
+          ? null
+          : this.handlebars.compile(source, { noEscape, strict: false });
+      if (this.cacheEnabled) this.cache.set(cacheKey, compiled);
+    }
+
+    return compiled ? compiled(data) : null;
+  }
+
+  /**
+   * Register every `partials/*.hbs` file under its base name.
+   */
+  private async loadPartials(): Promise<void> {
+    if (this.partialsLoaded && this.cacheEnabled) return;
+
+    const dir = join(this.dir, 'partials');
+    const files = await readdir(dir).catch(() => [] as string[]);
+    for (const file of files) {
+      if (!file.endsWith(MAIL_TEMPLATE_EXTENSION)) continue;
+      const source = await readFile(join(dir, file), 'utf8');
+      this.handlebars.registerPartial(
+        basename(file, MAIL_TEMPLATE_EXTENSION),
+        source,
+      );
+    }
+    this.partialsLoaded = true;
+  }
+
+  private assertName(name: string): void {
+    if (!TEMPLATE_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid mail template name "${name}"`);
+    }
+  }
+}
+
+/**
+ * `fr-CA` → `['.fr-CA', '.fr', '']`. The default locale maps to the
+ * unsuffixed files.
+ */
+function localeSuffixes(locale: string, defaultLocale: string): string[] {
+  const suffixes: string[] = [];
+  const parts = locale.split(/[-_]/);
+  for (let i = parts.length; i > 0; i--) {
+    const candidate = parts.slice(0, i).join('-');
+    if (candidate === defaultLocale || !/^[a-z0-9-]+$/i.test(candidate)) {
+      continue;
+    }
+    suffixes.push(`.${candidate}`);
+  }
+  suffixes.push('');
+  return suffixes;
+}
+
+async function readOptional(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+function singleLine(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Plain-text fallback for templates without a `text.hbs`: keeps link
+ * targets and paragraph breaks, drops everything else.
+ */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(head|style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\s[^>]*href="([^"]+)"[^>]*>([\s\S]*?)<\/a>/gi, '$2 ($1)')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|tr|table)>/gi, '\n\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;|&#39;/g, "'")
+    .replace(/&#x3D;/g, '=')
+    .replace(/&#x60;/g, '`')
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
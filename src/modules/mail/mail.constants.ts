@@ -0,0 +1,14 @@
+/** Injection token for the shared, pooled nodemailer transport. */
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
+
+/** Extension of every template, layout and partial file. */
+export const MAIL_TEMPLATE_EXTENSION = '.hbs';
+
+/** Layout wrapped around templates unless `layout` says otherwise. */
+export const MAIL_DEFAULT_LAYOUT = 'default';
+
+/** Injection token for the `MailCaptureStore` (`null` with the SMTP transport). */
+export const MAIL_CAPTURE_STORE = Symbol('MAIL_CAPTURE_STORE');
+
+/** Messages kept by the `memory` transport before the oldest are dropped. */
+export const MAIL_CAPTURE_MEMORY_LIMIT = 100;
@@ -0,0 +1,72 @@
+import { Global, Module } from '@nestjs/common';
+import { type ConfigType } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { createTransport } from 'nodemailer';
+import { mailConfig } from '../../config/mail.config';
+import { MAIL_CAPTURE_STORE, MAIL_TRANSPORT } from './mail.constants';
+import { MailTemplateService } from './mail-template.service';
+import { MailService } from './mail.service';
+import { MailOutboxMessage } from './mail-outbox.entity';
+import { MailOutboxService } from './mail-outbox.service';
+import { MailOutboxWorker } from './mail-outbox.worker';
+import { MailOutboxController } from './mail-outbox.controller';
+import { MailCaptureTransport } from './mail-capture.transport';
+import {
+  FileMailCaptureStore,
+  MemoryMailCaptureStore,
+} from './mail-capture.store';
+import type { MailCaptureStore } from './types/interfaces/captured-mail.interface';
+import type { MailTransporter } from './types/interfaces/sent-mail.interface';
+
+@Global()
+@Module({
+  imports: [TypeOrmModule.forFeature([MailOutboxMessage])],
+  controllers: [MailOutboxController],
+  providers: [
+    {
+      provide: MAIL_CAPTURE_STORE,
+      inject: [mailConfig.KEY],
+      useFactory: (
+        config: ConfigType<typeof mailConfig>,
+      ): MailCaptureStore | null => {
+        if (config.transport === 'file') {
+          return new FileMailCaptureStore(config.captureDir);
+        }
+        if (config.transport === 'memory') {
+          return new MemoryMailCaptureStore();
+        }
+        return null;
+      },
+    },
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [mailConfig.KEY, MAIL_CAPTURE_STORE],
+      useFactory: (
+        config: ConfigType<typeof mailConfig>,
+        store: MailCaptureStore | null,
+      ): MailTransporter =>
+        store
+          ? createTransport(new MailCaptureTransport(store))
+          : createTransport({
+              pool: true,
+              maxConnections: config.maxConnections,
+              host: config.host,
+              port: config.port,
+              secure: config.secure,
+              auth: { user: config.user, pass: config.password },
+            }),
+    },
+    MailTemplateService,
+    MailService,
+    MailOutboxService,
+    MailOutboxWorker,
+  ],
+  exports: [
+    MailService,
+    MailTemplateService,
+    MailOutboxService,
+    MAIL_TRANSPORT,
+    MAIL_CAPTURE_STORE,
+  ],
+})
+export class MailModule {}
@@ -0,0 +1,127 @@
+import { Inject, Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { type ConfigType } from '@nestjs/config';
+import { type Address, type Attachment } from 'nodemailer/lib/mailer';
+import { mailConfig } from '../../config/mail.config';
+import { StorageService } from '../storage/storage.service';
+import { MAIL_TRANSPORT } from './mail.constants';
+import { MailTemplateService } from './mail-template.service';
+import { type SendMailOptions } from './types/interfaces/send-mail-options.interface';
+import { type MailAttachment } from './types/interfaces/mail-attachment.interface';
+import { type RenderedMail } from './types/interfaces/rendered-mail.interface';
+import type {
+  MailTransporter,
+  SentMail,
+} from './types/interfaces/sent-mail.interface';
+
+/**
+ * Sends templated transactional emails through the shared transport
+ * configured from `mailConfig`: pooled SMTP, or a capture transport
+ * (`MAIL_TRANSPORT=file|memory`) that keeps messages for inspection.
+ */
+@Injectable()
+export class MailService implements OnModuleDestroy {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    @Inject(MAIL_TRANSPORT)
+    private readonly transport: MailTransporter,
+    @Inject(mailConfig.KEY)
+    private readonly config: ConfigType<typeof mailConfig>,
+    private readonly templates: MailTemplateService,
+    private readonly storage: StorageService,
+  ) {}
+
+  /**
+   * Render a template and send it. Storage attachments are streamed.
+   */
+  async send(options: SendMailOptions): Promise<SentMail> {
+    const rendered = await this.render(options);
+    const attachments = await this.toAttachments(options.attachments ?? []);
+
+    try {
+      const info = await this.transport.sendMail({
+        from: options.from ?? this.config.from,
+        to: options.to,
+        cc: options.cc,
+        bcc: options.bcc,
+        replyTo: options.replyTo,
+        subject: rendered.subject,
+        html: rendered.html,
+        text: rendered.text,
+        attachments,
+      });
+
+      this.logger.log(
+        `Sent "${options.template}" mail ${info.messageId} to ${info.accepted.length} recipient(s)`,
+      );
+      return {
+        messageId: info.messageId,
+        accepted: info.accepted.map(toAddress),
+        rejected: info.rejected.map(toAddress),
+      };
+    } catch (error) {
+      // Release storage streams the transport never consumed
+      releaseAttachments(attachments);
+      throw error;
+    }
+  }
+
+  /**
+   * Render a template without sending it (previews, tests).
+   */
+  render(
+    options: Pick<
+      SendMailOptions,
+      'template' | 'context' | 'locale' | 'subject' | 'layout'
+    >,
+  ): Promise<RenderedMail> {
+    return this.templates.render(options.template, options.context, {
+      locale: options.locale,
+      subject: options.subject,
+      layout: options.layout,
+    });
+  }
+
+  onModuleDestroy(): void {
+    this.transport.close();
+  }
+
+  /**
+   * Open every storage attachment. If one download fails, the streams already
+   * opened are destroyed before rethrowing.
+   */
+  private async toAttachments(
+    attachments: MailAttachment[],
+  ): Promise<Attachment[]> {
+    const results = await Promise.allSettled(
+      attachments.map((attachment) => this.toAttachment(attachment)),
+    );
+    const failed = results.find((result) => result.status === 'rejected');
+    const opened = results.flatMap((result) =>
+      result.status === 'fulfilled' ? [result.value] : [],
+    );
+    if (failed) {
+      releaseAttachments(opened);
+      throw failed.reason;
+    }
+    return opened;
+  }
+
+  private async toAttachment(attachment: MailAttachment): Promise<Attachment> {
+    const { storageKey, ...rest } = attachment;
+    if (storageKey === undefined) return rest;
+    return { ...rest, content: await this.storage.download(storageKey) };
+  }
+}
+
+function releaseAttachments(attachments: Attachment[]): void {
+  for (const { content } of attachments) {
+    if (content && typeof content === 'object' && 'destroy' in content) {
+      content.destroy();
+    }
+  }
+}
+
+function toAddress(address: string | Address): string {
+  return typeof address === 'string' ? address : address.address;
+}
@@ -0,0 +1,9 @@
+export enum MailOutboxStatus {
+  /** Waiting for `nextAttemptAt` */
+  PENDING = 'pending',
+  /** Claimed by a worker until `nextAttemptAt` (the lease) */
+  SENDING = 'sending',
+  SENT = 'sent',
+  /** Dead-lettered: out of attempts or permanently rejected */
+  FAILED = 'failed',
+}
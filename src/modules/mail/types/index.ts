@@ -0,0 +1,7 @@
+export * from './enums/mail-outbox-status.enum';
+export * from './interfaces/mail-attachment.interface';
+export * from './interfaces/send-mail-options.interface';
+export * from './interfaces/queue-mail-options.interface';
+export * from './interfaces/rendered-mail.interface';
+export * from './interfaces/sent-mail.interface';
+export * from './interfaces/captured-mail.interface';
@@ -0,0 +1,26 @@
+/** A message kept by the `file` or `memory` mail transport. */
+export interface CapturedMail {
+  id: string;
+  messageId: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  html: string | null;
+  text: string | null;
+  attachments: { filename: string; contentType?: string }[];
+  /** ISO 8601 */
+  createdAt: string;
+}
+
+/** Where captured messages are kept (`MAIL_CAPTURE_STORE`). */
+export interface MailCaptureStore {
+  save(mail: CapturedMail, raw: Buffer): Promise<void>;
+  /** Newest first */
+  list(): Promise<CapturedMail[]>;
+  get(id: string): Promise<CapturedMail | null>;
+  /** The full RFC 822 message */
+  raw(id: string): Promise<Buffer | null>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,15 @@
+import { type Readable } from 'stream';
+
+/**
+ * A file attached to an email. Provide exactly one of `storageKey`
+ * (streamed from `StorageService.download`) or `content`.
+ */
+export interface MailAttachment {
+  filename: string;
+  /** Object key in storage — the file is streamed, never buffered */
+  storageKey?: string;
+  content?: string | Buffer | Readable;
+  contentType?: string;
+  /** Content-ID for inline images (`<img src="cid:...">`) */
+  cid?: string;
+}
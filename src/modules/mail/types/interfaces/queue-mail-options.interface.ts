@@ -0,0 +1,18 @@
+import { type MailAttachment } from './mail-attachment.interface';
+import { type SendMailOptions } from './send-mail-options.interface';
+
+/** Outbox attachments are stored as JSON, so inline content must be text. */
+export type QueuedMailAttachment = Omit<MailAttachment, 'content'> & {
+  content?: string;
+};
+
+export interface QueueMailOptions extends Omit<SendMailOptions, 'attachments'> {
+  attachments?: QueuedMailAttachment[];
+  /**
+   * Enqueuing twice with the same key returns the first message instead of
+   * sending again, e.g. `password-reset:<tokenId>`.
+   */
+  idempotencyKey?: string;
+  /** Do not send before this date */
+  sendAt?: Date;
+}
@@ -0,0 +1,21 @@
+import { type MailAttachment } from './mail-attachment.interface';
+
+export interface SendMailOptions {
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  replyTo?: string;
+  /** Defaults to `MAIL_FROM` */
+  from?: string;
+  /** Template directory name, e.g. `welcome` */
+  template: string;
+  /** Variables available in the template, its subject and its layout */
+  context?: Record<string, unknown>;
+  /** e.g. `fr-CA`; falls back to `fr`, then to the default locale */
+  locale?: string;
+  /** Overrides the template's `subject.hbs` */
+  subject?: string;
+  /** Layout name, or `false` to send the template body as-is */
+  layout?: string | false;
+  attachments?: MailAttachment[];
+}
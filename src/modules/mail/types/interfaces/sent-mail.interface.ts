@@ -0,0 +1,18 @@
+import { type Transporter } from 'nodemailer';
+import { type Address } from 'nodemailer/lib/mailer';
+
+export interface SentMail {
+  messageId: string;
+  accepted: string[];
+  rejected: string[];
+}
+
+/** What every `MAIL_TRANSPORT` reports back from `sendMail`. */
+export interface TransportResult {
+  messageId: string;
+  accepted: (string | Address)[];
+  rejected: (string | Address)[];
+}
+
+/** The transport behind `MAIL_TRANSPORT`: pooled SMTP or a capture transport. */
+export type MailTransporter = Transporter<TransportResult>;
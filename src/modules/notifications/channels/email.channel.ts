@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common';
+import { MailOutboxService } from '../../mail/mail-outbox.service';
+import { NotificationChannelType } from '../types/enums/notification-channel-type.enum';
+import type {
+  NotificationChannel,
+  NotificationMessage,
+} from '../types/interfaces/notification-channel.interface';
+import { type NotificationDefinition } from '../types/interfaces/notification-definition.interface';
+
+/**
+ * Queues the notification in the mail outbox, keyed by the notification id.
+ * Every `notify()` call gets a new id unless the caller passes one, so only
+ * retries that reuse the id are deduplicated.
+ */
+@Injectable()
+export class EmailNotificationChannel implements NotificationChannel {
+  readonly type = NotificationChannelType.EMAIL;
+
+  constructor(private readonly outbox: MailOutboxService) {}
+
+  async send(
+    message: NotificationMessage,
+    definition: NotificationDefinition,
+  ): Promise<void> {
+    await this.outbox.enqueue({
+      to: message.recipient.email,
+      template: definition.emailTemplate ?? message.type,
+      context: { ...message.data, title: message.title, body: message.body },
+      idempotencyKey: `notification:${message.id}`,
+    });
+  }
+}
@@ -0,0 +1,21 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationInboxService } from '../notification-inbox.service';
+import { NotificationChannelType } from '../types/enums/notification-channel-type.enum';
+import type {
+  NotificationChannel,
+  NotificationMessage,
+} from '../types/interfaces/notification-channel.interface';
+
+/**
+ * Stores the notification for `GET /notifications`.
+ */
+@Injectable()
+export class InAppNotificationChannel implements NotificationChannel {
+  readonly type = NotificationChannelType.IN_APP;
+
+  constructor(private readonly inbox: NotificationInboxService) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    await this.inbox.create(message);
+  }
+}
@@ -0,0 +1,3 @@
+export * from './email.channel';
+export * from './in-app.channel';
+export * from './webhook.channel';
@@ -0,0 +1,21 @@
+import { Injectable } from '@nestjs/common';
+import { WebhookEndpointsService } from '../webhook-endpoints.service';
+import { NotificationChannelType } from '../types/enums/notification-channel-type.enum';
+import type {
+  NotificationChannel,
+  NotificationMessage,
+} from '../types/interfaces/notification-channel.interface';
+
+/**
+ * Signs and POSTs the notification to the recipient's webhook endpoints.
+ */
+@Injectable()
+export class WebhookNotificationChannel implements NotificationChannel {
+  readonly type = NotificationChannelType.WEBHOOK;
+
+  constructor(private readonly webhooks: WebhookEndpointsService) {}
+
+  send(message: NotificationMessage): Promise<void> {
+    return this.webhooks.deliver(message);
+  }
+}
@@ -0,0 +1,15 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, IsUrl, MaxLength } from 'class-validator';
+
+export class CreateWebhookEndpointDto {
+  @ApiProperty({ example: 'https://hooks.example.com/notifications' })
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  @MaxLength(2048)
+  url: string;
+
+  @ApiPropertyOptional({ example: 'Team chat bridge' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+}
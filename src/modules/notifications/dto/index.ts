@@ -0,0 +1,2 @@
+export * from './update-notification-preferences.dto';
+export * from './create-webhook-endpoint.dto';
@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsBoolean,
+  IsEnum,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { NotificationChannelType } from '../types/enums/notification-channel-type.enum';
+
+export class NotificationPreferenceDto {
+  @ApiProperty({ example: 'welcome' })
+  @IsString()
+  type: string;
+
+  @ApiProperty({
+    enum: NotificationChannelType,
+    example: NotificationChannelType.EMAIL,
+  })
+  @IsEnum(NotificationChannelType)
+  channel: NotificationChannelType;
+
+  @ApiProperty({ example: false })
+  @IsBoolean()
+  enabled: boolean;
+}
+
+export class UpdateNotificationPreferencesDto {
+  @ApiProperty({ type: [NotificationPreferenceDto] })
+  @ValidateNested({ each: true })
+  @Type(() => NotificationPreferenceDto)
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  preferences: NotificationPreferenceDto[];
+}
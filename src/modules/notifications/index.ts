@@ -0,0 +1,12 @@
+export * from './notifications.module';
+export * from './notification.service';
+export * from './notification-inbox.service';
+export * from './webhook-endpoints.service';
+export * from './notification.entity';
+export * from './notification-preference.entity';
+export * from './webhook-endpoint.entity';
+export * from './notifications.constants';
+export * from './notifications.definitions';
+export * from './channels';
+export * from './dto';
+export * from './types';
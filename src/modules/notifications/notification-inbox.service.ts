@@ -0,0 +1,103 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { RedisService } from '../redis/redis.service';
+import { paginate } from '../../common/utils/pagination.util';
+import { buildRedisKey } from '../../common/utils/redis.util';
+import type {
+  PaginatedResponse,
+  PaginationOptions,
+} from '../../common/interfaces/pagination.interface';
+import { Notification } from './notification.entity';
+import {
+  UNREAD_COUNT_PREFIX,
+  UNREAD_COUNT_TTL,
+} from './notifications.constants';
+import { type NotificationMessage } from './types/interfaces/notification-channel.interface';
+
+/**
+ * Persisted in-app notifications and their unread counters.
+ */
+@Injectable()
+export class NotificationInboxService {
+  constructor(
+    @InjectRepository(Notification)
+    private readonly repository: Repository<Notification>,
+    private readonly redis: RedisService,
+  ) {}
+
+  /**
+   * Stores the message in the recipient's inbox. A retried `notify()` reuses
+   * the id, so an existing row is left as it is rather than marked unread again.
+   */
+  async create(message: NotificationMessage): Promise<void> {
+    if (await this.repository.existsBy({ id: message.id })) return;
+
+    await this.repository.save(
+      this.repository.create({
+        id: message.id,
+        userId: message.recipient.id,
+        type: message.type,
+        title: message.title,
+        body: message.body,
+        data: message.data,
+        readAt: null,
+      }),
+    );
+    await this.clearUnreadCount(message.recipient.id);
+  }
+
+  /**
+   * The user's notifications, newest first.
+   */
+  async findAll(
+    userId: string,
+    options: PaginationOptions,
+    unreadOnly = false,
+  ): Promise<PaginatedResponse<Notification>> {
+    return paginate(options, (skip, take) =>
+      this.repository.findAndCount({
+        where: unreadOnly ? { userId, readAt: IsNull() } : { userId },
+        order: { createdAt: 'DESC' },
+        skip,
+        take,
+      }),
+    );
+  }
+
+  /**
+   * Unread count, cached in Redis until the next change.
+   */
+  async unreadCount(userId: string): Promise<number> {
+    const key = buildRedisKey(UNREAD_COUNT_PREFIX, userId);
+    const cached = await this.redis.get<number>(key);
+    if (cached !== undefined) return cached;
+
+    const count = await this.repository.countBy({ userId, readAt: IsNull() });
+    await this.redis.set(key, count, UNREAD_COUNT_TTL);
+    return count;
+  }
+
+  async markRead(userId: string, id: string): Promise<void> {
+    const result = await this.repository.update(
+      { id, userId, readAt: IsNull() },
+      { readAt: new Date() },
+    );
+    if (!result.affected && !(await this.repository.existsBy({ id, userId }))) {
+      throw new NotFoundException('Notification not found');
+    }
+    await this.clearUnreadCount(userId);
+  }
+
+  async markAllRead(userId: string): Promise<void> {
+    await this.repository.update(
+      { userId, readAt: IsNull() },
+      { readAt: new Date() },
+    );
+    await this.clearUnreadCount(userId);
+  }
+
+  private async clearUnreadCount(userId: string): Promise<void> {
+    await this.redis.del(buildRedisKey(UNREAD_COUNT_PREFIX, userId));
+  }
+}
@@ -0,0 +1,41 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../users/users.entity';
+import { NotificationChannelType } from './types/enums/notification-channel-type.enum';
+
+/**
+ * A user's choice for one notification type on one channel. Without a
+ * row the channel is on.
+ */
+@Entity('notification_preferences')
+@Index(['userId', 'type', 'channel'], { unique: true })
+export class NotificationPreference {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column()
+  type: string;
+
+  @Column({ type: 'enum', enum: NotificationChannelType })
+  channel: NotificationChannelType;
+
+  @Column()
+  enabled: boolean;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,48 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryColumn,
+} from 'typeorm';
+import { User } from '../users/users.entity';
+import { type NotificationPayload } from './types/interfaces/notification-definition.interface';
+
+/**
+ * An in-app notification. Its id is the `NotificationMessage` id shared
+ * with the other channels.
+ */
+@Entity('notifications')
+@Index(['userId', 'createdAt'])
+export class Notification {
+  @PrimaryColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column()
+  type: string;
+
+  @Column()
+  title: string;
+
+  @Column({ type: 'text', nullable: true })
+  body: string | null;
+
+  @Column({ type: 'simple-json' })
+  data: NotificationPayload;
+
+  @Index()
+  @Column({ type: 'timestamp', nullable: true })
+  readAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,171 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { generateUUID } from '../../common/utils/uuid.util';
+import { NotificationPreference } from './notification-preference.entity';
+import {
+  NOTIFICATION_DEFINITIONS,
+  type NotificationType,
+} from './notifications.definitions';
+import { NOTIFICATION_CHANNELS } from './notifications.constants';
+import { type NotificationPreferenceDto } from './dto';
+import { type NotificationChannelType } from './types/enums/notification-channel-type.enum';
+import type {
+  NotificationChannel,
+  NotificationMessage,
+  NotificationRecipient,
+  NotificationResult,
+  NotifyOptions,
+} from './types/interfaces/notification-channel.interface';
+import type {
+  NotificationDefinition,
+  NotificationPayload,
+} from './types/interfaces/notification-definition.interface';
+import { type NotificationPreferenceView } from './types/interfaces/notification-preference-view.interface';
+
+const DEFINITIONS: Record<string, NotificationDefinition> =
+  NOTIFICATION_DEFINITIONS;
+
+/**
+ * Single entry point for user notifications: renders a type from
+ * `NOTIFICATION_DEFINITIONS` and fans it out to every channel the user
+ * has not turned off.
+ */
+@Injectable()
+export class NotificationService {
+  private readonly logger = new Logger(NotificationService.name);
+
+  constructor(
+    @Inject(NOTIFICATION_CHANNELS)
+    private readonly channels: NotificationChannel[],
+    @InjectRepository(NotificationPreference)
+    private readonly preferences: Repository<NotificationPreference>,
+  ) {}
+
+  /**
+   * Send a notification. A failing channel is logged and reported in
+   * `failed`; it never stops the other channels.
+   */
+  async notify(
+    recipient: NotificationRecipient,
+    type: NotificationType,
+    payload: NotificationPayload = {},
+    options: NotifyOptions = {},
+  ): Promise<NotificationResult> {
+    const definition = DEFINITIONS[type];
+    const message: NotificationMessage = {
+      id: options.id ?? generateUUID(),
+      type,
+      recipient: { id: recipient.id, email: recipient.email },
+      title: definition.title(payload),
+      body: definition.body?.(payload) ?? null,
+      data: payload,
+      createdAt: new Date(),
+    };
+
+    const enabled = await this.enabledChannels(recipient.id, type, definition);
+    const channels = this.channels.filter((channel) =>
+      enabled.includes(channel.type),
+    );
+    const results = await Promise.allSettled(
+      channels.map((channel) => channel.send(message, definition)),
+    );
+
+    const result: NotificationResult = {
+      id: message.id,
+      delivered: [],
+      failed: [],
+    };
+    results.forEach((outcome, index) => {
+      const channel = channels[index].type;
+      if (outcome.status === 'fulfilled') {
+        result.delivered.push(channel);
+        return;
+      }
+      result.failed.push(channel);
+      this.logger.error(
+        `Notification ${message.id} (${type}) failed on ${channel}`,
+        outcome.reason instanceof Error
+          ? outcome.reason.stack
+          : String(outcome.reason),
+      );
+    });
+    return result;
+  }
+
+  /**
+   * Effective settings for every notification type and channel.
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferenceView[]> {
+    const saved = await this.preferences.findBy({ userId });
+    return Object.entries(DEFINITIONS).flatMap(([type, definition]) =>
+      definition.channels.map((channel) => {
+        const mandatory = definition.mandatory ?? false;
+        const row = saved.find(
+          (preference) =>
+            preference.type === type && preference.channel === channel,
+        );
+        return {
+          type,
+          channel,
+          enabled: mandatory || (row?.enabled ?? true),
+          mandatory,
+        };
+      }),
+    );
+  }
+
+  async updatePreferences(
+    userId: string,
+    changes: NotificationPreferenceDto[],
+  ): Promise<NotificationPreferenceView[]> {
+    for (const { type, channel, enabled } of changes) {
+      const definition = DEFINITIONS[type] as
+        | NotificationDefinition
+        | undefined;
+      if (!definition || !definition.channels.includes(channel)) {
+        throw new BadRequestException(
+          `Unknown notification preference: ${type} / ${channel}`,
+        );
+      }
+      if (definition.mandatory && !enabled) {
+        throw new BadRequestException(
+          `Notification "${type}" cannot be turned off`,
+        );
+      }
+    }
+
+    await this.preferences.upsert(
+      changes.map(({ type, channel, enabled }) => ({
+        userId,
+        type,
+        channel,
+        enabled,
+      })),
+      ['userId', 'type', 'channel'],
+    );
+    return this.getPreferences(userId);
+  }
+
+  private async enabledChannels(
+    userId: string,
+    type: string,
+    definition: NotificationDefinition,
+  ): Promise<NotificationChannelType[]> {
+    if (definition.mandatory) return definition.channels;
+
+    const disabled = await this.preferences.findBy({
+      userId,
+      type,
+      enabled: false,
+    });
+    return definition.channels.filter(
+      (channel) => !disabled.some((row) => row.channel === channel),
+    );
+  }
+}
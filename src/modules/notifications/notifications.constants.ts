@@ -0,0 +1,21 @@
+/** Injection token for the list of `NotificationChannel`s. */
+export const NOTIFICATION_CHANNELS = Symbol('NOTIFICATION_CHANNELS');
+
+/** Redis key prefix caching unread in-app notification counts, by user id */
+export const UNREAD_COUNT_PREFIX = 'notifications:unread';
+
+/** How long an unread count is cached, in seconds */
+export const UNREAD_COUNT_TTL = 300;
+
+/** Webhook endpoints a user may register */
+export const WEBHOOK_MAX_ENDPOINTS = 5;
+
+/** Give up on a webhook delivery after this many milliseconds */
+export const WEBHOOK_TIMEOUT = 5000;
+
+/** Bytes of randomness in a webhook signing secret */
+export const WEBHOOK_SECRET_BYTES = 32;
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const WEBHOOK_ID_HEADER = 'x-webhook-id';
@@ -0,0 +1,82 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseBoolPipe,
+  Patch,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { Pagination } from '../../common/decorators/pagination.decorator';
+import { ParseUUIDPipe } from '../../common/pipes/parse-uuid.pipe';
+import type { AuthUser } from '../../common/interfaces/auth.interface';
+import type { PaginationOptions } from '../../common/interfaces/pagination.interface';
+import { NotificationInboxService } from './notification-inbox.service';
+import { NotificationService } from './notification.service';
+import { UpdateNotificationPreferencesDto } from './dto';
+
+@ApiTags('Notifications')
+@ApiBearerAuth('session-auth')
+@Controller('notifications')
+export class NotificationsController {
+  constructor(
+    private readonly inbox: NotificationInboxService,
+    private readonly notifications: NotificationService,
+  ) {}
+
+  /**
+   * My in-app notifications, newest first.
+   */
+  @Get()
+  @ApiQuery({ name: 'unread', type: Boolean, required: false })
+  findAll(
+    @CurrentUser() user: AuthUser,
+    @Pagination() pagination: Required<PaginationOptions>,
+    @Query('unread', new ParseBoolPipe({ optional: true })) unread?: boolean,
+  ) {
+    return this.inbox.findAll(user.id, pagination, unread);
+  }
+
+  @Get('unread-count')
+  async unreadCount(@CurrentUser() user: AuthUser): Promise<{ count: number }> {
+    return { count: await this.inbox.unreadCount(user.id) };
+  }
+
+  @Post('read-all')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async markAllRead(@CurrentUser() user: AuthUser): Promise<void> {
+    await this.inbox.markAllRead(user.id);
+  }
+
+  @Patch(':id/read')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async markRead(
+    @CurrentUser() user: AuthUser,
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ): Promise<void> {
+    await this.inbox.markRead(user.id, id);
+  }
+
+  @Get('preferences')
+  getPreferences(@CurrentUser() user: AuthUser) {
+    return this.notifications.getPreferences(user.id);
+  }
+
+  /**
+   * Turn channels on or off per notification type. Mandatory types cannot
+   * be turned off.
+   */
+  @Put('preferences')
+  updatePreferences(
+    @CurrentUser() user: AuthUser,
+    @Body() dto: UpdateNotificationPreferencesDto,
+  ) {
+    return this.notifications.updatePreferences(user.id, dto.preferences);
+  }
+}
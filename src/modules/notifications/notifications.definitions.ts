@@ -0,0 +1,30 @@
+import { NotificationChannelType } from './types/enums/notification-channel-type.enum';
+import { type NotificationDefinition } from './types/interfaces/notification-definition.interface';
+
+/**
+ * Every notification type the app sends. The key is the type passed to
+ * `NotificationService.notify()` and the default email template name.
+ *
+ * Edit this map to declare your project's notifications.
+ */
+export const NOTIFICATION_DEFINITIONS = {
+  welcome: {
+    channels: [NotificationChannelType.EMAIL, NotificationChannelType.IN_APP],
+    title: () => 'Welcome!',
+    body: () => 'Your account is ready.',
+  },
+  'security.new-login': {
+    channels: [
+      NotificationChannelType.EMAIL,
+      NotificationChannelType.IN_APP,
+      NotificationChannelType.WEBHOOK,
+    ],
+    emailTemplate: 'security-new-login',
+    mandatory: true,
+    title: () => 'New sign-in to your account',
+    body: ({ device }) =>
+      `A new sign-in from ${typeof device === 'string' ? device : 'an unknown device'}.`,
+  },
+} satisfies Record<string, NotificationDefinition>;
+
+export type NotificationType = keyof typeof NOTIFICATION_DEFINITIONS;
@@ -0,0 +1,48 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Notification } from './notification.entity';
+import { NotificationPreference } from './notification-preference.entity';
+import { WebhookEndpoint } from './webhook-endpoint.entity';
+import { NotificationService } from './notification.service';
+import { NotificationInboxService } from './notification-inbox.service';
+import { WebhookEndpointsService } from './webhook-endpoints.service';
+import { NotificationsController } from './notifications.controller';
+import { WebhookEndpointsController } from './webhook-endpoints.controller';
+import {
+  EmailNotificationChannel,
+  InAppNotificationChannel,
+  WebhookNotificationChannel,
+} from './channels';
+import { NOTIFICATION_CHANNELS } from './notifications.constants';
+import { type NotificationChannel } from './types/interfaces/notification-channel.interface';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Notification,
+      NotificationPreference,
+      WebhookEndpoint,
+    ]),
+  ],
+  controllers: [NotificationsController, WebhookEndpointsController],
+  providers: [
+    NotificationService,
+    NotificationInboxService,
+    WebhookEndpointsService,
+    EmailNotificationChannel,
+    InAppNotificationChannel,
+    WebhookNotificationChannel,
+    // Add a channel: implement NotificationChannel, provide it, list it here
+    {
+      provide: NOTIFICATION_CHANNELS,
+      inject: [
+        EmailNotificationChannel,
+        InAppNotificationChannel,
+        WebhookNotificationChannel,
+      ],
+      useFactory: (...channels: NotificationChannel[]) => channels,
+    },
+  ],
+  exports: [NotificationService, NotificationInboxService],
+})
+export class NotificationsModule {}
@@ -0,0 +1,5 @@
+export enum NotificationChannelType {
+  EMAIL = 'email',
+  IN_APP = 'in_app',
+  WEBHOOK = 'webhook',
+}
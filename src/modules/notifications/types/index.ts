@@ -0,0 +1,5 @@
+export * from './enums/notification-channel-type.enum';
+export * from './interfaces/notification-definition.interface';
+export * from './interfaces/notification-channel.interface';
+export * from './interfaces/notification-preference-view.interface';
+export * from './interfaces/webhook-endpoint-secret.interface';
@@ -0,0 +1,50 @@
+import { type NotificationChannelType } from '../enums/notification-channel-type.enum';
+import type {
+  NotificationDefinition,
+  NotificationPayload,
+} from './notification-definition.interface';
+
+/** Who receives a notification. `User` and `AuthUser` both fit. */
+export interface NotificationRecipient {
+  id: string;
+  email: string;
+}
+
+/** A notification as handed to every channel. */
+export interface NotificationMessage {
+  /** Shared by every channel (in-app row id, outbox idempotency key, webhook id) */
+  id: string;
+  type: string;
+  recipient: NotificationRecipient;
+  title: string;
+  body: string | null;
+  data: NotificationPayload;
+  createdAt: Date;
+}
+
+/**
+ * A delivery channel. Implement it and register the class in
+ * `NotificationsModule` to add one (e.g. SMS).
+ */
+export interface NotificationChannel {
+  readonly type: NotificationChannelType;
+  send(
+    message: NotificationMessage,
+    definition: NotificationDefinition,
+  ): Promise<void>;
+}
+
+export interface NotifyOptions {
+  /**
+   * Notification id (a UUID). Pass the same id when retrying a `notify()`
+   * call so the email is not queued twice and the inbox entry is kept as is;
+   * webhooks are posted again. A new id is generated otherwise.
+   */
+  id?: string;
+}
+
+export interface NotificationResult {
+  id: string;
+  delivered: NotificationChannelType[];
+  failed: NotificationChannelType[];
+}
@@ -0,0 +1,15 @@
+import { type NotificationChannelType } from '../enums/notification-channel-type.enum';
+
+export type NotificationPayload = Record<string, unknown>;
+
+/** How one notification type is rendered and delivered. */
+export interface NotificationDefinition {
+  /** Channels this type is sent on; each is on unless the user opts out */
+  channels: NotificationChannelType[];
+  title: (payload: NotificationPayload) => string;
+  body?: (payload: NotificationPayload) => string;
+  /** Mail template for the email channel; defaults to the type name */
+  emailTemplate?: string;
+  /** Users cannot opt out (security alerts, legal notices) */
+  mandatory?: boolean;
+}
@@ -0,0 +1,10 @@
+import { type NotificationChannelType } from '../enums/notification-channel-type.enum';
+
+/** Effective setting for one notification type on one channel. */
+export interface NotificationPreferenceView {
+  type: string;
+  channel: NotificationChannelType;
+  enabled: boolean;
+  /** `true` when the user cannot turn it off */
+  mandatory: boolean;
+}
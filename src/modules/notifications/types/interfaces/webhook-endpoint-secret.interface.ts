@@ -0,0 +1,8 @@
+import { type WebhookEndpoint } from '../../webhook-endpoint.entity';
+
+/** Returned once when a webhook endpoint is created. */
+export interface CreatedWebhookEndpoint {
+  endpoint: WebhookEndpoint;
+  /** Signing secret — store it, it is never shown again */
+  secret: string;
+}
@@ -0,0 +1,49 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Exclude } from 'class-transformer';
+import { User } from '../users/users.entity';
+
+/**
+ * A URL receiving a user's notifications as signed JSON `POST`s.
+ * The secret is kept in clear because it signs every delivery.
+ */
+@Entity('webhook_endpoints')
+export class WebhookEndpoint {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ length: 2048 })
+  url: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  description: string | null;
+
+  @Exclude()
+  @Column({ select: false })
+  secret: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastDeliveryAt: Date | null;
+
+  /** HTTP status or network error of the last delivery */
+  @Column({ type: 'varchar', nullable: true })
+  lastDeliveryStatus: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,50 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { DenyImpersonation } from '../../common/decorators/deny-impersonation.decorator';
+import { Serialize } from '../../common/decorators/serialize.decorator';
+import { ParseUUIDPipe } from '../../common/pipes/parse-uuid.pipe';
+import type { AuthUser } from '../../common/interfaces/auth.interface';
+import { WebhookEndpointsService } from './webhook-endpoints.service';
+import { CreateWebhookEndpointDto } from './dto';
+
+@ApiTags('Notifications')
+@ApiBearerAuth('session-auth')
+@Serialize()
+@Controller('notifications/webhooks')
+export class WebhookEndpointsController {
+  constructor(private readonly webhooks: WebhookEndpointsService) {}
+
+  @Get()
+  findAll(@CurrentUser() user: AuthUser) {
+    return this.webhooks.findAll(user.id);
+  }
+
+  /**
+   * Register an HTTPS endpoint. The signing secret is returned once.
+   */
+  @DenyImpersonation()
+  @Post()
+  create(@CurrentUser() user: AuthUser, @Body() dto: CreateWebhookEndpointDto) {
+    return this.webhooks.create(user.id, dto);
+  }
+
+  @DenyImpersonation()
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @CurrentUser() user: AuthUser,
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ): Promise<void> {
+    await this.webhooks.remove(user.id, id);
+  }
+}
@@ -0,0 +1,175 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomBytes } from 'crypto';
+import { Repository } from 'typeorm';
+import { Agent, fetch } from 'undici';
+import { hmacSha256 } from '../../common/utils/hashing.util';
+import {
+  assertPublicHost,
+  publicLookup,
+} from '../../common/utils/network.util';
+import { WebhookEndpoint } from './webhook-endpoint.entity';
+import {
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_MAX_ENDPOINTS,
+  WEBHOOK_SECRET_BYTES,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WEBHOOK_TIMEOUT,
+} from './notifications.constants';
+import { type CreateWebhookEndpointDto } from './dto';
+import { type NotificationMessage } from './types/interfaces/notification-channel.interface';
+import { type CreatedWebhookEndpoint } from './types/interfaces/webhook-endpoint-secret.interface';
+
+/**
+ * Users' webhook endpoints and signed delivery to them.
+ */
+@Injectable()
+export class WebhookEndpointsService implements OnModuleDestroy {
+  private readonly logger = new Logger(WebhookEndpointsService.name);
+  /** Connects only to the public addresses `publicLookup` resolved */
+  private readonly agent = new Agent({ connect: { lookup: publicLookup } });
+
+  constructor(
+    @InjectRepository(WebhookEndpoint)
+    private readonly repository: Repository<WebhookEndpoint>,
+  ) {}
+
+  async onModuleDestroy(): Promise<void> {
+    await this.agent.close();
+  }
+
+  findAll(userId: string): Promise<WebhookEndpoint[]> {
+    return this.repository.find({
+      where: { userId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async create(
+    userId: string,
+    dto: CreateWebhookEndpointDto,
+  ): Promise<CreatedWebhookEndpoint> {
+    const count = await this.repository.countBy({ userId });
+    if (count >= WEBHOOK_MAX_ENDPOINTS) {
+      throw new BadRequestException(
+        `At most ${WEBHOOK_MAX_ENDPOINTS} webhook endpoints are allowed`,
+      );
+    }
+
+    try {
+      await assertPublicHost(new URL(dto.url).hostname);
+    } catch (error) {
+      throw new BadRequestException(
+        `Webhook URL is not allowed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const secret = randomBytes(WEBHOOK_SECRET_BYTES).toString('base64url');
+    const endpoint = await this.repository.save(
+      this.repository.create({
+        userId,
+        url: dto.url,
+        description: dto.description ?? null,
+        secret,
+        lastDeliveryAt: null,
+        lastDeliveryStatus: null,
+      }),
+    );
+    // `secret` is @Exclude()d from the serialized endpoint
+    return { endpoint, secret };
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    const result = await this.repository.delete({ id, userId });
+    if (!result.affected) {
+      throw new NotFoundException('Webhook endpoint not found');
+    }
+  }
+
+  /**
+   * POST the notification to every endpoint of its recipient. Rejects if
+   * any endpoint fails, after trying all of them.
+   */
+  async deliver(message: NotificationMessage): Promise<void> {
+    const endpoints = await this.repository
+      .createQueryBuilder('endpoint')
+      .addSelect('endpoint.secret')
+      .where('endpoint.userId = :userId', { userId: message.recipient.id })
+      .getMany();
+
+    const body = JSON.stringify({
+      id: message.id,
+      type: message.type,
+      title: message.title,
+      body: message.body,
+      data: message.data,
+      createdAt: message.createdAt.toISOString(),
+    });
+
+    const results = await Promise.allSettled(
+      endpoints.map((endpoint) => this.post(endpoint, message.id, body)),
+    );
+    const failures = results.filter((result) => result.status === 'rejected');
+    if (failures.length > 0) {
+      throw new Error(
+        `${failures.length} of ${endpoints.length} webhook deliveries failed`,
+      );
+    }
+  }
+
+  /**
+   * Receivers verify `x-webhook-signature` as
+   * `sha256=HMAC-SHA256("<timestamp>.<body>", secret)`.
+   *
+   * The host is resolved again before every delivery, and the request goes
+   * to an address from that same lookup, so an endpoint whose DNS now points
+   * (or rebinds) to a private address is refused.
+   */
+  private async post(
+    endpoint: WebhookEndpoint,
+    id: string,
+    body: string,
+  ): Promise<void> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    let status: string | undefined;
+
+    try {
+      await assertPublicHost(new URL(endpoint.url).hostname);
+      const response = await fetch(endpoint.url, {
+        dispatcher: this.agent,
+        method: 'POST',
+        redirect: 'error',
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+        headers: {
+          'content-type': 'application/json',
+          [WEBHOOK_ID_HEADER]: id,
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+          [WEBHOOK_SIGNATURE_HEADER]: `sha256=${hmacSha256(`${timestamp}.${body}`, endpoint.secret)}`,
+        },
+        body,
+      });
+      status = String(response.status);
+      if (!response.ok) {
+        throw new Error(`HTTP ${status}`);
+      }
+    } catch (error) {
+      status ??= error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `Webhook ${endpoint.id} delivery of ${id} failed: ${status}`,
+      );
+      throw error;
+    } finally {
+      await this.repository.update(endpoint.id, {
+        lastDeliveryAt: new Date(),
+        lastDeliveryStatus: status ?? null,
+      });
+    }
+  }
+}
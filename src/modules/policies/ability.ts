@@ -0,0 +1,122 @@
+import { ForbiddenException } from '@nestjs/common';
+import { FindOptionsWhere, In, IsNull } from 'typeorm';
+import { PolicyAction } from './types/enums/policy-action.enum';
+import type {
+  PolicyConditions,
+  PolicyRule,
+} from './types/interfaces/policy-rule.interface';
+import { ALL_SUBJECTS } from './policies.constants';
+
+/**
+ * The set of rules that apply to one user.
+ *
+ * Rules are evaluated last-to-first: a later rule overrides an earlier one,
+ * so a role's own rules win over the rules it inherits.
+ */
+export class Ability {
+  constructor(private readonly rules: PolicyRule[]) {}
+
+  /**
+   * Check an action on a subject. Without a resource, returns `true` if the
+   * action is allowed on at least some resources of that subject.
+   */
+  can(
+    action: PolicyAction,
+    subject: string,
+    resource?: Record<string, unknown>,
+  ): boolean {
+    for (const rule of this.relevantRules(action, subject)) {
+      if (rule.conditions) {
+        if (!resource) {
+          if (!rule.inverted) return true;
+          continue;
+        }
+        if (!matchesConditions(resource, rule.conditions)) continue;
+      }
+      return !rule.inverted;
+    }
+    return false;
+  }
+
+  cannot(
+    action: PolicyAction,
+    subject: string,
+    resource?: Record<string, unknown>,
+  ): boolean {
+    return !this.can(action, subject, resource);
+  }
+
+  /**
+   * Throw `ForbiddenException` unless the action is allowed.
+   */
+  ensure(
+    action: PolicyAction,
+    subject: string,
+    resource?: Record<string, unknown>,
+  ): void {
+    if (!this.can(action, subject, resource)) {
+      throw new ForbiddenException(`Not allowed to ${action} ${subject}`);
+    }
+  }
+
+  /**
+   * Translate the rules for an action on a subject into TypeORM where
+   * conditions (OR-ed). Returns `[{}]` when access is unrestricted and throws
+   * `ForbiddenException` when nothing is accessible.
+   */
+  whereFor<T>(action: PolicyAction, subject: string): FindOptionsWhere<T>[] {
+    const conditions: FindOptionsWhere<T>[] = [];
+
+    for (const rule of this.relevantRules(action, subject)) {
+      // Inverted rules are unconditional: nothing declared before them applies
+      if (rule.inverted) break;
+      if (!rule.conditions) return [{}];
+      conditions.push(conditionsToWhere<T>(rule.conditions));
+    }
+
+    if (conditions.length === 0) {
+      throw new ForbiddenException(`Not allowed to ${action} ${subject}`);
+    }
+    return conditions;
+  }
+
+  private relevantRules(action: PolicyAction, subject: string): PolicyRule[] {
+    return this.rules
+      .filter(
+        (rule) =>
+          (rule.action === action || rule.action === PolicyAction.MANAGE) &&
+          (rule.subject === subject || rule.subject === ALL_SUBJECTS),
+      )
+      .reverse();
+  }
+}
+
+function matchesConditions(
+  resource: Record<string, unknown>,
+  conditions: PolicyConditions,
+): boolean {
+  return Object.entries(conditions).every(([field, expected]) => {
+    const actual = resource[field];
+    if (Array.isArray(expected)) {
+      return expected.includes(actual as string | number);
+    }
+    if (expected === null) return actual === null || actual === undefined;
+    return actual === expected;
+  });
+}
+
+function conditionsToWhere<T>(
+  conditions: PolicyConditions,
+): FindOptionsWhere<T> {
+  const where: Record<string, unknown> = {};
+  for (const [field, expected] of Object.entries(conditions)) {
+    if (Array.isArray(expected)) {
+      where[field] = In(expected);
+    } else if (expected === null) {
+      where[field] = IsNull();
+    } else {
+      where[field] = expected;
+    }
+  }
+  return where as FindOptionsWhere<T>;
+}
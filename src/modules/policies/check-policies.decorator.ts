@@ -0,0 +1,21 @@
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import { ApiForbiddenResponse } from '@nestjs/swagger';
+import { type Ability } from './ability';
+import { CHECK_POLICIES_KEY } from './policies.constants';
+
+export type PolicyHandler = (ability: Ability) => boolean;
+
+/**
+ * Require every handler to return `true` for the caller's ability.
+ * For checks on a loaded resource, call `ability.ensure()` in the handler instead.
+ *
+ * @example
+ * @CheckPolicies((ability) => ability.can(PolicyAction.READ, 'Session'))
+ * @Get()
+ * findAll() {}
+ */
+export const CheckPolicies = (...handlers: PolicyHandler[]) =>
+  applyDecorators(
+    SetMetadata(CHECK_POLICIES_KEY, handlers),
+    ApiForbiddenResponse({ description: 'Denied by policy' }),
+  );
@@ -0,0 +1,7 @@
+export * from './policies.module';
+export * from './policies.service';
+export * from './policies.guard';
+export * from './policies.constants';
+export * from './check-policies.decorator';
+export * from './ability';
+export * from './types';
@@ -0,0 +1,4 @@
+/** Wildcard subject matching every resource type */
+export const ALL_SUBJECTS = 'all';
+
+export const CHECK_POLICIES_KEY = 'checkPolicies';
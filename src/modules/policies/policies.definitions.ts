@@ -0,0 +1,24 @@
+import { Role } from '../../common/enums/role.enum';
+import { PolicyAction } from './types/enums/policy-action.enum';
+import { type RolePolicy } from './types/interfaces/policy-builder.interface';
+import { ALL_SUBJECTS } from './policies.constants';
+import { FileVisibility } from '../storage/types/enums/file-visibility.enum';
+
+/**
+ * Abilities granted to each role. A role also receives the abilities of the
+ * roles it inherits (see `ROLE_HIERARCHY`); its own rules are applied last.
+ *
+ * Edit this map to declare your project's policies.
+ */
+export const ROLE_POLICIES: Record<Role, RolePolicy> = {
+  [Role.ADMIN]: (_user, { can }) => {
+    can(PolicyAction.MANAGE, ALL_SUBJECTS);
+  },
+  [Role.EDITOR]: () => {},
+  [Role.VIEWER]: (user, { can }) => {
+    can(PolicyAction.READ, 'User', { id: user.id });
+    can(PolicyAction.MANAGE, 'Session', { userId: user.id });
+    can(PolicyAction.MANAGE, 'StoredFile', { ownerId: user.id });
+    can(PolicyAction.READ, 'StoredFile', { visibility: FileVisibility.PUBLIC });
+  },
+};
@@ -0,0 +1,55 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { IS_PUBLIC_KEY } from '../../common/decorators/public.decorator';
+import type { AuthenticatedRequest } from '../../common/interfaces/auth.interface';
+import { CHECK_POLICIES_KEY } from './policies.constants';
+import { type PolicyHandler } from './check-policies.decorator';
+import { PoliciesService } from './policies.service';
+
+/**
+ * Global guard for `@CheckPolicies()`. Runs after `JwtAuthGuard` and `RolesGuard`.
+ * Policies describe users; API key clients are authorized by their scopes.
+ */
+@Injectable()
+export class PoliciesGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly policies: PoliciesService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+
+    const isPublic = this.reflector.getAllAndOverride<boolean>(
+      IS_PUBLIC_KEY,
+      targets,
+    );
+    if (isPublic) return true;
+
+    const handlers = this.reflector.getAllAndMerge<PolicyHandler[]>(
+      CHECK_POLICIES_KEY,
+      targets,
+    );
+    if (handlers.length === 0) return true;
+
+    const { user, apiKey } = context
+      .switchToHttp()
+      .getRequest<AuthenticatedRequest>();
+    if (apiKey) return true;
+
+    if (!user) {
+      throw new ForbiddenException('Denied by policy');
+    }
+
+    const ability = this.policies.abilityFor(user);
+    if (!handlers.every((handler) => handler(ability))) {
+      throw new ForbiddenException('Denied by policy');
+    }
+    return true;
+  }
+}
@@ -0,0 +1,65 @@
+import { Injectable } from '@nestjs/common';
+import { FindOptionsWhere } from 'typeorm';
+import { expandRole } from '../../common/utils/role.util';
+import { intersectConditions } from '../../common/utils/orm-filter.util';
+import type { AuthUser } from '../../common/interfaces/auth.interface';
+import { Ability } from './ability';
+import { ROLE_POLICIES } from './policies.definitions';
+import { type PolicyAction } from './types/enums/policy-action.enum';
+import type { PolicyRule } from './types/interfaces/policy-rule.interface';
+import type { PolicyBuilder } from './types/interfaces/policy-builder.interface';
+
+/**
+ * Builds per-user `Ability` objects from `ROLE_POLICIES`.
+ */
+@Injectable()
+export class PoliciesService {
+  /**
+   * Build the ability of a user from their role and the roles it inherits.
+   */
+  abilityFor(user: AuthUser): Ability {
+    const rules: PolicyRule[] = [];
+    const builder: PolicyBuilder = {
+      can: (action, subject, conditions) =>
+        rules.push({ action, subject, conditions }),
+      cannot: (action, subject) =>
+        rules.push({ action, subject, inverted: true }),
+    };
+
+    // Least privileged first, so the user's own role rules override inherited ones
+    const roles = user.role ? expandRole(user.role).reverse() : [];
+    for (const role of roles) {
+      ROLE_POLICIES[role]?.(user, builder);
+    }
+
+    return new Ability(rules);
+  }
+
+  /**
+   * Restrict TypeORM where conditions to the resources the user may access.
+   *
+   * @example
+   * ```ts
+   * return paginate(pagination, (skip, take) =>
+   *   this.repo.findAndCount({
+   *     where: this.policies.scope(user, PolicyAction.READ, 'Session', {
+   *       browser: buildILikeFilter(filter.browser),
+   *     }),
+   *     skip,
+   *     take,
+   *   }),
+   * );
+   * ```
+   */
+  scope<T>(
+    user: AuthUser,
+    action: PolicyAction,
+    subject: string,
+    where: FindOptionsWhere<T> | FindOptionsWhere<T>[] = {},
+  ): FindOptionsWhere<T>[] {
+    return intersectConditions(
+      where,
+      this.abilityFor(user).whereFor<T>(action, subject),
+    );
+  }
+}
@@ -0,0 +1,8 @@
+export enum PolicyAction {
+  /** Wildcard matching every action */
+  MANAGE = 'manage',
+  CREATE = 'create',
+  READ = 'read',
+  UPDATE = 'update',
+  DELETE = 'delete',
+}
@@ -0,0 +1,3 @@
+export * from './enums/policy-action.enum';
+export * from './interfaces/policy-rule.interface';
+export * from './interfaces/policy-builder.interface';
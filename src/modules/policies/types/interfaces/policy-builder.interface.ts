@@ -0,0 +1,17 @@
+import type { AuthUser } from '../../../../common/interfaces/auth.interface';
+import { type PolicyAction } from '../enums/policy-action.enum';
+import { type PolicyConditions } from './policy-rule.interface';
+
+export interface PolicyBuilder {
+  /** Grant an action on a subject, optionally only for matching resources. */
+  can: (
+    action: PolicyAction,
+    subject: string,
+    conditions?: PolicyConditions,
+  ) => void;
+  /** Deny an action on a subject, overriding rules declared before it. */
+  cannot: (action: PolicyAction, subject: string) => void;
+}
+
+/** Declares the rules of one role for a given user. */
+export type RolePolicy = (user: AuthUser, builder: PolicyBuilder) => void;
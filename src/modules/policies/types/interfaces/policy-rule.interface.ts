@@ -0,0 +1,22 @@
+import { type PolicyAction } from '../enums/policy-action.enum';
+
+/** Scalar or list (matches any of) value a resource field must have. */
+export type PolicyConditionValue =
+  | string
+  | number
+  | boolean
+  | null
+  | (string | number)[];
+
+/** Field → expected value. All fields must match (AND). */
+export type PolicyConditions = Record<string, PolicyConditionValue>;
+
+export interface PolicyRule {
+  action: PolicyAction;
+  /** Resource type name (e.g. `'Session'`) or `'all'` */
+  subject: string;
+  /** Restrict the rule to resources whose fields match */
+  conditions?: PolicyConditions;
+  /** `true` for `cannot` rules */
+  inverted?: boolean;
+}
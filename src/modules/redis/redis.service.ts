@@ -64,6 +64,14 @@ export class RedisService implements OnModuleDestroy {
     return result === 1;
   }
 
+  /**
+   * Remaining TTL of a key in seconds. Returns -1 if the key has no TTL
+   * and -2 if it does not exist.
+   */
+  async ttl(key: string): Promise<number> {
+    return this.client.ttl(key);
+  }
+
   /**
    * Increment a key's integer value by 1 (or by `amount`).
    */
@@ -0,0 +1,3 @@
+export * from './sessions.module';
+export * from './sessions.service';
+export * from './sessions.entity';
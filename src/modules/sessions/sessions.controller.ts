@@ -0,0 +1,53 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { DenyImpersonation } from '../../common/decorators/deny-impersonation.decorator';
+import { ParseUUIDPipe } from '../../common/pipes/parse-uuid.pipe';
+import type { AuthUser } from '../../common/interfaces/auth.interface';
+import { SessionsService } from './sessions.service';
+
+@ApiTags('Sessions')
+@ApiBearerAuth('session-auth')
+@Controller('sessions')
+export class SessionsController {
+  constructor(private readonly sessionsService: SessionsService) {}
+
+  /**
+   * List the caller's active devices.
+   */
+  @Get()
+  async findAll(@CurrentUser() user: AuthUser) {
+    const sessions = await this.sessionsService.findActive(user.id);
+    return sessions.map((session) => ({
+      ...session,
+      current: session.id === user.sessionId,
+    }));
+  }
+
+  /**
+   * Log out everywhere, including the current device.
+   */
+  @DenyImpersonation()
+  @Delete()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeAll(@CurrentUser() user: AuthUser): Promise<void> {
+    await this.sessionsService.revokeAll(user.id);
+  }
+
+  @DenyImpersonation()
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revoke(
+    @CurrentUser() user: AuthUser,
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ): Promise<void> {
+    await this.sessionsService.revokeForUser(user.id, id);
+  }
+}
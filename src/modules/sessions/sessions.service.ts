@@ -0,0 +1,141 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { type ConfigType } from '@nestjs/config';
+import { In, IsNull, MoreThan, Repository } from 'typeorm';
+import { jwtConfig } from '../../config/jwt.config';
+import { RedisService } from '../redis/redis.service';
+import { buildRedisKey } from '../../common/utils/redis.util';
+import { SESSION_PREFIX } from '../../common/constants/auth.constant';
+import type { ClientInfo } from '../../common/interfaces/client-info.interface';
+import { Session } from './sessions.entity';
+
+/**
+ * Persists one `Session` per login with a `ClientInfo` snapshot.
+ *
+ * Active sessions are mirrored in Redis (`auth:session:<id>`) so that
+ * `JwtAuthGuard` can reject tokens of a revoked session without a DB query.
+ */
+@Injectable()
+export class SessionsService {
+  constructor(
+    @InjectRepository(Session)
+    private readonly repository: Repository<Session>,
+    private readonly redis: RedisService,
+    @Inject(jwtConfig.KEY)
+    private readonly jwt: ConfigType<typeof jwtConfig>,
+  ) {}
+
+  /**
+   * Record a new session for the user. Lives as long as a refresh token.
+   */
+  async create(userId: string, clientInfo: ClientInfo): Promise<Session> {
+    const now = new Date();
+    const session = await this.repository.save(
+      this.repository.create({
+        userId,
+        ...this.snapshot(clientInfo),
+        lastSeenAt: now,
+        expiresAt: this.expiresFrom(now),
+      }),
+    );
+
+    await this.redis.set(this.key(session.id), true, this.jwt.refreshExpiresIn);
+    return session;
+  }
+
+  /**
+   * Refresh a session's last-seen time, client snapshot and expiry.
+   */
+  async touch(id: string, clientInfo: ClientInfo): Promise<void> {
+    const now = new Date();
+    await this.repository.update(
+      { id },
+      {
+        ...this.snapshot(clientInfo),
+        lastSeenAt: now,
+        expiresAt: this.expiresFrom(now),
+      },
+    );
+    await this.redis.expire(this.key(id), this.jwt.refreshExpiresIn);
+  }
+
+  /**
+   * Whether the session has been neither revoked nor expired.
+   */
+  async isActive(id: string): Promise<boolean> {
+    return this.redis.exists(this.key(id));
+  }
+
+  /**
+   * List the user's active sessions, most recently used first.
+   */
+  async findActive(userId: string): Promise<Session[]> {
+    return this.repository.find({
+      where: {
+        userId,
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+      order: { lastSeenAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Revoke one of the user's sessions.
+   */
+  async revokeForUser(userId: string, id: string): Promise<void> {
+    const session = await this.repository.findOneBy({
+      id,
+      userId,
+      revokedAt: IsNull(),
+    });
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+    await this.revoke(session.id);
+  }
+
+  /**
+   * Revoke every active session of the user ("log out everywhere").
+   */
+  async revokeAll(userId: string): Promise<number> {
+    const sessions = await this.findActive(userId);
+    if (sessions.length === 0) return 0;
+
+    const ids = sessions.map((session) => session.id);
+    await this.repository.update({ id: In(ids) }, { revokedAt: new Date() });
+    await this.redis.del(...ids.map((id) => this.key(id)));
+    return ids.length;
+  }
+
+  /**
+   * Revoke a session by id. Tokens bound to it stop working immediately.
+   */
+  async revoke(id: string): Promise<void> {
+    await this.repository.update(
+      { id, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    await this.redis.del(this.key(id));
+  }
+
+  private snapshot(clientInfo: ClientInfo) {
+    return {
+      ip: clientInfo.ip,
+      browser: clientInfo.browser,
+      os: clientInfo.os,
+      agent: clientInfo.agent,
+      city: clientInfo.ipInfo?.city ?? null,
+      region: clientInfo.ipInfo?.region ?? null,
+      country: clientInfo.ipInfo?.country ?? null,
+    };
+  }
+
+  private expiresFrom(date: Date): Date {
+    return new Date(date.getTime() + this.jwt.refreshExpiresIn * 1000);
+  }
+
+  private key(id: string): string {
+    return buildRedisKey(SESSION_PREFIX, id);
+  }
+}
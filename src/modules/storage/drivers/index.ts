@@ -0,0 +1,3 @@
+export * from './s3.driver';
+export * from './local.driver';
+export * from './memory.driver';
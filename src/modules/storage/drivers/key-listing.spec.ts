@@ -0,0 +1,95 @@
+import { pageKeys } from './key-listing';
+import { type DriverListOptions } from '../types/interfaces/storage-driver.interface';
+
+const KEYS = [
+  'docs/b.txt',
+  'docs/a.txt',
+  'docs/2024/x.txt',
+  'docs/2024/y.txt',
+  'docs/2025/z.txt',
+  'docs/c.txt',
+];
+
+/** Follow `nextCursor` until the listing ends, returning every page */
+function allPages(
+  keys: string[],
+  prefix: string,
+  options: DriverListOptions,
+): ReturnType<typeof pageKeys>[] {
+  const pages = [pageKeys(keys, prefix, options)];
+  while (pages[pages.length - 1].nextCursor) {
+    const cursor = pages[pages.length - 1].nextCursor!;
+    pages.push(pageKeys(keys, prefix, { ...options, cursor }));
+  }
+  return pages;
+}
+
+describe('pageKeys', () => {
+  it('lists keys in order without a delimiter', () => {
+    expect(pageKeys(KEYS, 'docs/', { limit: 10 })).toEqual({
+      keys: [
+        'docs/2024/x.txt',
+        'docs/2024/y.txt',
+        'docs/2025/z.txt',
+        'docs/a.txt',
+        'docs/b.txt',
+        'docs/c.txt',
+      ],
+      folders: [],
+      nextCursor: null,
+    });
+  });
+
+  it('rolls keys up into folders with a delimiter', () => {
+    expect(pageKeys(KEYS, 'docs/', { limit: 10, delimiter: '/' })).toEqual({
+      keys: ['docs/a.txt', 'docs/b.txt', 'docs/c.txt'],
+      folders: ['docs/2024/', 'docs/2025/'],
+      nextCursor: null,
+    });
+  });
+
+  it('counts folders and keys against the limit', () => {
+    const pages = allPages(KEYS, 'docs/', { limit: 2, delimiter: '/' });
+
+    expect(pages.map(({ keys, folders }) => [...folders, ...keys])).toEqual([
+      ['docs/2024/', 'docs/2025/'],
+      ['docs/a.txt', 'docs/b.txt'],
+      ['docs/c.txt'],
+    ]);
+  });
+
+  it('never repeats a folder across pages', () => {
+    const keys = ['a/1', 'a/2', 'a/3', 'b/1', 'c'];
+    const pages = allPages(keys, '', { limit: 1, delimiter: '/' });
+
+    expect(pages.flatMap(({ keys, folders }) => [...folders, ...keys])).toEqual(
+      ['a/', 'b/', 'c'],
+    );
+  });
+
+  it('returns every key exactly once across pages', () => {
+    const pages = allPages(KEYS, 'docs/', { limit: 4 });
+
+    expect(pages).toHaveLength(2);
+    expect(pages.flatMap((page) => page.keys)).toEqual(
+      [...KEYS].sort((a, b) => (a < b ? -1 : 1)),
+    );
+  });
+
+  it('keeps its place when keys change between pages', () => {
+    const first = pageKeys(KEYS, 'docs/', { limit: 3 });
+    const changed = [
+      ...KEYS.filter((key) => key !== 'docs/2024/x.txt'),
+      'docs/0.txt',
+      'docs/d.txt',
+    ];
+
+    expect(
+      pageKeys(changed, 'docs/', { limit: 10, cursor: first.nextCursor! }).keys,
+    ).toEqual(['docs/a.txt', 'docs/b.txt', 'docs/c.txt', 'docs/d.txt']);
+  });
+
+  it('does not set a cursor when the last page is exactly full', () => {
+    expect(pageKeys(KEYS, 'docs/', { limit: 6 }).nextCursor).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+import type { DriverListOptions } from '../types/interfaces/storage-driver.interface';
+
+export interface KeyPage {
+  keys: string[];
+  folders: string[];
+  nextCursor: string | null;
+}
+
+/**
+ * ListObjectsV2 over an in-process list of keys, for the drivers that have
+ * no listing API of their own. `keys` must all start with `prefix`. The
+ * cursor is the last entry returned, so pages stay consistent while keys
+ * are added or deleted between requests.
+ */
+export function pageKeys(
+  keys: string[],
+  prefix: string,
+  options: DriverListOptions,
+): KeyPage {
+  const after = options.cursor
+    ? Buffer.from(options.cursor, 'base64url').toString()
+    : undefined;
+  const page: KeyPage = { keys: [], folders: [], nextCursor: null };
+  let last: string | undefined;
+
+  for (const key of [...keys].sort()) {
+    const folder = folderOf(key, prefix, options.delimiter);
+    const entry = folder ?? key;
+    // Keys under one folder are adjacent once sorted
+    if (entry === last || (after !== undefined && entry <= after)) continue;
+    if (page.keys.length + page.folders.length === options.limit) {
+      page.nextCursor = Buffer.from(last!).toString('base64url');
+      break;
+    }
+    (folder ? page.folders : page.keys).push(entry);
+    last = entry;
+  }
+  return page;
+}
+
+/** The folder (common prefix) `key` rolls up into, if any */
+function folderOf(
+  key: string,
+  prefix: string,
+  delimiter?: string,
+): string | undefined {
+  const end = delimiter ? key.indexOf(delimiter, prefix.length) : -1;
+  return end === -1 ? undefined : key.slice(0, end + delimiter!.length);
+}
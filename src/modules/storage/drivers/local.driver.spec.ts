@@ -0,0 +1,90 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { text } from 'stream/consumers';
+import { StorageUrlSigner } from '../storage-url.signer';
+import { LocalStorageDriver } from './local.driver';
+
+describe('LocalStorageDriver', () => {
+  let dir: string;
+  let root: string;
+  let driver: LocalStorageDriver;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'local-driver-'));
+    root = join(dir, 'root');
+    driver = new LocalStorageDriver(
+      root,
+      new StorageUrlSigner('http://localhost', 'secret'),
+    );
+  });
+
+  afterEach(() => rm(dir, { recursive: true, force: true }));
+
+  const put = (key: string, body = 'content') =>
+    driver.put(key, body, { contentType: 'text/plain' });
+
+  it('stores objects under their key', async () => {
+    await put('docs/a.txt', 'hello');
+
+    expect(await text(await driver.get('docs/a.txt'))).toBe('hello');
+    expect(await driver.head('docs/a.txt')).toMatchObject({
+      key: 'docs/a.txt',
+      size: 5,
+      contentType: 'text/plain',
+    });
+  });
+
+  it.each([
+    '',
+    '../outside.txt',
+    'docs/../../outside.txt',
+    'docs/..',
+    './docs/a.txt',
+    '/etc/passwd',
+    'docs//a.txt',
+    'docs/',
+    'docs\\..\\a.txt',
+    'docs/a\0.txt',
+  ])('rejects the unsafe key %j', async (key) => {
+    await expect(put(key)).rejects.toThrow(BadRequestException);
+    await expect(driver.get(key)).rejects.toThrow(BadRequestException);
+    await expect(driver.delete(key)).rejects.toThrow(BadRequestException);
+    await expect(driver.copy('docs/a.txt', key)).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(() =>
+      driver.getUploadUrl(key, 60, {
+        contentType: 'text/plain',
+        contentLength: 1,
+      }),
+    ).toThrow(BadRequestException);
+  });
+
+  it('never writes outside its root', async () => {
+    await put('../outside.txt').catch(() => undefined);
+    await put('a/../../outside.txt').catch(() => undefined);
+
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('lists nothing for a prefix naming an unsafe folder', async () => {
+    await put('docs/a.txt');
+
+    const page = await driver.listPage('../', { limit: 10 });
+    expect(page).toEqual({ objects: [], folders: [], nextCursor: null });
+    expect(
+      (await driver.listPage('docs/', { limit: 10 })).objects.map(
+        (object) => object.key,
+      ),
+    ).toEqual(['docs/a.txt']);
+  });
+
+  it('refuses a key that is also the folder of another key', async () => {
+    await put('docs/a');
+
+    await expect(put('docs/a/b')).rejects.toThrow(ConflictException);
+    await expect(put('docs')).rejects.toThrow(ConflictException);
+  });
+});
@@ -0,0 +1,304 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { createWriteStream } from 'fs';
+import {
+  access,
+  copyFile,
+  mkdir,
+  open,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { generateUUID } from '../../../common/utils/uuid.util';
+import { type StorageUrlSigner } from '../storage-url.signer';
+import { pageKeys } from './key-listing';
+import type { StorageObject } from '../types/interfaces/storage-object.interface';
+import type {
+  StorageDeleteError,
+  StorageListPage,
+} from '../types/interfaces/storage-list.interface';
+import type {
+  DriverDownloadUrlOptions,
+  DriverListOptions,
+  DriverPutOptions,
+  DriverUploadUrlOptions,
+  StorageDriver,
+} from '../types/interfaces/storage-driver.interface';
+
+interface ObjectMeta {
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Stores objects as files under `STORAGE_LOCAL_ROOT`:
+ *
+ * - `objects/<key>` — the object body
+ * - `meta/<key>.json` — Content-Type and user metadata
+ * - `tmp/` — partial writes, renamed into place once complete
+ *
+ * Key segments become directories, so a key can't also be the folder of
+ * another key (`a` and `a/b`) as it can on S3. Presigned URLs point at the
+ * signed `/storage/objects` route.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+  private readonly objectsDir: string;
+  private readonly metaDir: string;
+  private readonly tmpDir: string;
+
+  constructor(
+    root: string,
+    private readonly signer: StorageUrlSigner,
+  ) {
+    const base = resolve(root);
+    this.objectsDir = join(base, 'objects');
+    this.metaDir = join(base, 'meta');
+    this.tmpDir = join(base, 'tmp');
+  }
+
+  async put(
+    key: string,
+    body: Buffer | Readable | string,
+    options: DriverPutOptions,
+  ): Promise<void> {
+    assertSafeKey(key);
+    await mkdir(this.tmpDir, { recursive: true });
+    const tmp = join(this.tmpDir, generateUUID());
+
+    let loaded = 0;
+    const progress = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        loaded += chunk.length;
+        options.onProgress?.(loaded);
+        callback(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(
+        body instanceof Readable ? body : Readable.from([Buffer.from(body)]),
+        progress,
+        createWriteStream(tmp),
+      );
+      await this.commit(tmp, key, {
+        contentType: options.contentType,
+        metadata: options.metadata,
+      });
+    } catch (error) {
+      await rm(tmp, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Readable> {
+    try {
+      const handle = await open(this.objectPath(key), 'r');
+      return handle.createReadStream();
+    } catch (error) {
+      throw notFoundOr(error);
+    }
+  }
+
+  async head(key: string): Promise<StorageObject | null> {
+    const stats = await stat(this.objectPath(key)).catch(() => null);
+    if (!stats?.isFile()) return null;
+
+    const meta = await this.readMeta(key);
+    return {
+      key,
+      size: stats.size,
+      lastModified: stats.mtime,
+      contentType: meta.contentType,
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.objectPath(key), { force: true });
+    await rm(this.metaPath(key), { force: true });
+  }
+
+  async deleteMany(keys: string[]): Promise<StorageDeleteError[]> {
+    const errors: StorageDeleteError[] = [];
+    for (const key of keys) {
+      try {
+        await this.delete(key);
+      } catch (error) {
+        errors.push({
+          key,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Walks the folder the prefix names on every call, so pages cost
+   * O(objects under the prefix).
+   */
+  async listPage(
+    prefix: string,
+    options: DriverListOptions,
+  ): Promise<StorageListPage> {
+    // Only walk the deepest folder the prefix fully names
+    const folder = prefix.slice(0, prefix.lastIndexOf('/') + 1);
+    if (folder && !isSafeKey(folder.slice(0, -1))) {
+      return { objects: [], folders: [], nextCursor: null };
+    }
+
+    const matching: string[] = [];
+    for await (const key of this.walk(folder)) {
+      if (key.startsWith(prefix)) matching.push(key);
+    }
+    const { keys, folders, nextCursor } = pageKeys(matching, prefix, options);
+
+    const objects: StorageObject[] = [];
+    for (const key of keys) {
+      const stats = await stat(this.objectPath(key)).catch(() => null);
+      if (stats) {
+        objects.push({ key, size: stats.size, lastModified: stats.mtime });
+      }
+    }
+    return { objects, folders, nextCursor };
+  }
+
+  async copy(sourceKey: string, destinationKey: string): Promise<void> {
+    assertSafeKey(destinationKey);
+    await mkdir(this.tmpDir, { recursive: true });
+    const tmp = join(this.tmpDir, generateUUID());
+
+    try {
+      await copyFile(this.objectPath(sourceKey), tmp);
+      await this.commit(tmp, destinationKey, await this.readMeta(sourceKey));
+    } catch (error) {
+      await rm(tmp, { force: true });
+      throw notFoundOr(error);
+    }
+  }
+
+  getDownloadUrl(
+    key: string,
+    ttl: number,
+    options: DriverDownloadUrlOptions,
+  ): Promise<string> {
+    assertSafeKey(key);
+    return Promise.resolve(this.signer.downloadUrl(key, ttl, options));
+  }
+
+  getUploadUrl(
+    key: string,
+    ttl: number,
+    options: DriverUploadUrlOptions,
+  ): Promise<string> {
+    assertSafeKey(key);
+    return Promise.resolve(this.signer.uploadUrl(key, ttl, options));
+  }
+
+  async ping(): Promise<void> {
+    await mkdir(this.objectsDir, { recursive: true });
+    await access(this.objectsDir);
+  }
+
+  destroy(): void {}
+
+  private objectPath(key: string): string {
+    assertSafeKey(key);
+    return join(this.objectsDir, ...key.split('/'));
+  }
+
+  private metaPath(key: string): string {
+    return join(this.metaDir, ...`${key}.json`.split('/'));
+  }
+
+  /**
+   * Write the metadata, then rename the finished body into place so readers
+   * never see a partial object.
+   */
+  private async commit(
+    tmp: string,
+    key: string,
+    meta: ObjectMeta,
+  ): Promise<void> {
+    const target = this.objectPath(key);
+    try {
+      await mkdir(dirname(target), { recursive: true });
+      await this.writeMeta(key, meta);
+      await rename(tmp, target);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'EEXIST' || code === 'ENOTDIR' || code === 'EISDIR') {
+        await rm(this.metaPath(key), { force: true });
+        throw new ConflictException(
+          'Key collides with an existing object or folder',
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async readMeta(key: string): Promise<ObjectMeta> {
+    try {
+      return JSON.parse(
+        await readFile(this.metaPath(key), 'utf8'),
+      ) as ObjectMeta;
+    } catch {
+      return {};
+    }
+  }
+
+  private async writeMeta(key: string, meta: ObjectMeta): Promise<void> {
+    const path = this.metaPath(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(meta));
+  }
+
+  /** Yield the keys of all objects under `folder` (a key prefix ending in `/`) */
+  private async *walk(folder: string): AsyncGenerator<string> {
+    const dir = join(this.objectsDir, ...folder.split('/'));
+    const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        yield* this.walk(`${folder}${entry.name}/`);
+      } else if (entry.isFile()) {
+        yield `${folder}${entry.name}`;
+      }
+    }
+  }
+}
+
+/**
+ * Keys map to paths, so anything that could escape the root or alias
+ * another key (absolute paths, `.`/`..` or empty segments) is rejected.
+ */
+function isSafeKey(key: string): boolean {
+  return (
+    key.length > 0 &&
+    !/[\\\0]/.test(key) &&
+    key
+      .split('/')
+      .every((segment) => segment !== '' && segment !== '.' && segment !== '..')
+  );
+}
+
+function assertSafeKey(key: string): void {
+  if (!isSafeKey(key)) {
+    throw new BadRequestException(`Invalid object key "${key}"`);
+  }
+}
+
+function notFoundOr(error: unknown): unknown {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT'
+    ? new NotFoundException('Object not found')
+    : error;
+}
@@ -0,0 +1,154 @@
+import { NotFoundException } from '@nestjs/common';
+import { Readable } from 'stream';
+import { type StorageUrlSigner } from '../storage-url.signer';
+import { pageKeys } from './key-listing';
+import type { StorageObject } from '../types/interfaces/storage-object.interface';
+import type {
+  StorageDeleteError,
+  StorageListPage,
+} from '../types/interfaces/storage-list.interface';
+import type {
+  DriverDownloadUrlOptions,
+  DriverListOptions,
+  DriverPutOptions,
+  DriverUploadUrlOptions,
+  StorageDriver,
+} from '../types/interfaces/storage-driver.interface';
+
+interface MemoryObject {
+  body: Buffer;
+  contentType?: string;
+  metadata?: Record<string, string>;
+  lastModified: Date;
+}
+
+/**
+ * Keeps objects in process memory, for tests and throwaway environments.
+ * Lost on restart and not shared between instances. Presigned URLs point at
+ * the signed `/storage/objects` route.
+ */
+export class MemoryStorageDriver implements StorageDriver {
+  readonly name = 'memory';
+  private readonly objects = new Map<string, MemoryObject>();
+
+  constructor(private readonly signer: StorageUrlSigner) {}
+
+  async put(
+    key: string,
+    body: Buffer | Readable | string,
+    options: DriverPutOptions,
+  ): Promise<void> {
+    let buffer: Buffer;
+    if (body instanceof Readable) {
+      const chunks: Buffer[] = [];
+      let loaded = 0;
+      for await (const chunk of body) {
+        chunks.push(Buffer.from(chunk as Buffer));
+        loaded += (chunk as Buffer).length;
+        options.onProgress?.(loaded);
+      }
+      buffer = Buffer.concat(chunks);
+    } else {
+      buffer = Buffer.from(body);
+      options.onProgress?.(buffer.length);
+    }
+
+    this.objects.set(key, {
+      body: buffer,
+      contentType: options.contentType,
+      metadata: options.metadata,
+      lastModified: new Date(),
+    });
+  }
+
+  async get(key: string): Promise<Readable> {
+    const { body } = await this.find(key);
+    return Readable.from([body]);
+  }
+
+  head(key: string): Promise<StorageObject | null> {
+    const object = this.objects.get(key);
+    return Promise.resolve(
+      object
+        ? {
+            key,
+            size: object.body.length,
+            lastModified: object.lastModified,
+            contentType: object.contentType,
+          }
+        : null,
+    );
+  }
+
+  delete(key: string): Promise<void> {
+    this.objects.delete(key);
+    return Promise.resolve();
+  }
+
+  deleteMany(keys: string[]): Promise<StorageDeleteError[]> {
+    keys.forEach((key) => this.objects.delete(key));
+    return Promise.resolve([]);
+  }
+
+  listPage(
+    prefix: string,
+    options: DriverListOptions,
+  ): Promise<StorageListPage> {
+    const { keys, folders, nextCursor } = pageKeys(
+      [...this.objects.keys()].filter((key) => key.startsWith(prefix)),
+      prefix,
+      options,
+    );
+
+    return Promise.resolve({
+      objects: keys.map((key) => {
+        const object = this.objects.get(key)!;
+        return {
+          key,
+          size: object.body.length,
+          lastModified: object.lastModified,
+        };
+      }),
+      folders,
+      nextCursor,
+    });
+  }
+
+  async copy(sourceKey: string, destinationKey: string): Promise<void> {
+    this.objects.set(destinationKey, {
+      ...(await this.find(sourceKey)),
+      lastModified: new Date(),
+    });
+  }
+
+  getDownloadUrl(
+    key: string,
+    ttl: number,
+    options: DriverDownloadUrlOptions,
+  ): Promise<string> {
+    return Promise.resolve(this.signer.downloadUrl(key, ttl, options));
+  }
+
+  getUploadUrl(
+    key: string,
+    ttl: number,
+    options: DriverUploadUrlOptions,
+  ): Promise<string> {
+    return Promise.resolve(this.signer.uploadUrl(key, ttl, options));
+  }
+
+  ping(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  destroy(): void {
+    this.objects.clear();
+  }
+
+  private find(key: string): Promise<MemoryObject> {
+    const object = this.objects.get(key);
+    return object
+      ? Promise.resolve(object)
+      : Promise.reject(new NotFoundException('Object not found'));
+  }
+}
@@ -0,0 +1,437 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  HeadObjectCommand,
+  HeadBucketCommand,
+  ListObjectsV2Command,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  ListPartsCommand,
+  ListMultipartUploadsCommand,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { createPresignedPost } from '@aws-sdk/s3-presigned-post';
+import { Readable } from 'stream';
+import { type StorageDiskSettings } from '../../../config/storage.config';
+import type { StorageObject } from '../types/interfaces/storage-object.interface';
+import type {
+  StorageDeleteError,
+  StorageListPage,
+} from '../types/interfaces/storage-list.interface';
+import type {
+  DriverDownloadUrlOptions,
+  DriverListOptions,
+  DriverPutOptions,
+  DriverUploadUrlOptions,
+  StorageDriver,
+} from '../types/interfaces/storage-driver.interface';
+import type {
+  CompletedPart,
+  IncompleteUpload,
+  UploadedPart,
+} from '../types/interfaces/storage-multipart.interface';
+
+/**
+ * Stores objects in an S3 bucket. Works with S3, MinIO, and any
+ * S3-compatible provider. Also provides the S3-only features used by
+ * `StorageService`: presigned POST policies and client-driven multipart
+ * uploads.
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+  readonly client: S3Client;
+  readonly bucket: string;
+  private readonly presignClient: S3Client;
+  /** Endpoint and credentials, to tell buckets CopyObject can copy between */
+  private readonly account: string;
+
+  constructor(config: StorageDiskSettings) {
+    const options = {
+      region: config.region,
+      credentials: {
+        accessKeyId: config.accessKeyId!,
+        secretAccessKey: config.secretAccessKey!,
+      },
+      forcePathStyle: config.provider === 'minio',
+    };
+
+    this.bucket = config.bucket!;
+    this.account = [
+      config.endpoint,
+      config.region,
+      config.accessKeyId,
+      config.secretAccessKey,
+    ].join('\n');
+    this.client = new S3Client({ ...options, endpoint: config.endpoint });
+    // Presigned URLs embed the signed host, so they are generated against the
+    // endpoint browsers can reach. Checksums are only computed when required,
+    // otherwise a checksum of the empty presign body gets baked into PUT URLs.
+    this.presignClient = new S3Client({
+      ...options,
+      endpoint: config.publicEndpoint ?? config.endpoint,
+      requestChecksumCalculation: 'WHEN_REQUIRED',
+    });
+  }
+
+  /**
+   * Readable bodies have no known length, so they are streamed with a
+   * multipart upload; only `partSize * concurrency` bytes are buffered.
+   */
+  async put(
+    key: string,
+    body: Buffer | Readable | string,
+    options: DriverPutOptions,
+  ): Promise<void> {
+    if (!(body instanceof Readable)) {
+      await this.client.send(
+        new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+          Body: body,
+          ContentType: options.contentType,
+          Metadata: options.metadata,
+        }),
+      );
+      options.onProgress?.(Buffer.byteLength(body));
+      return;
+    }
+
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+        Metadata: options.metadata,
+      },
+      partSize: options.partSize,
+      queueSize: options.concurrency,
+      leavePartsOnError: false,
+    });
+
+    const { onProgress } = options;
+    if (onProgress) {
+      upload.on('httpUploadProgress', (progress) => {
+        if (progress.loaded !== undefined) onProgress(progress.loaded);
+      });
+    }
+
+    await upload.done();
+  }
+
+  async get(key: string): Promise<Readable> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      return response.Body as Readable;
+    } catch (error) {
+      throw notFoundOr(error);
+    }
+  }
+
+  async head(key: string): Promise<StorageObject | null> {
+    try {
+      const response = await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      return {
+        key,
+        size: response.ContentLength,
+        lastModified: response.LastModified,
+        contentType: response.ContentType,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+  }
+
+  async deleteMany(keys: string[]): Promise<StorageDeleteError[]> {
+    const response = await this.client.send(
+      new DeleteObjectsCommand({
+        Bucket: this.bucket,
+        Delete: { Objects: keys.map((key) => ({ Key: key })), Quiet: true },
+      }),
+    );
+
+    return (response.Errors ?? []).map((error) => ({
+      key: error.Key!,
+      message: error.Message ?? error.Code ?? 'Delete failed',
+    }));
+  }
+
+  /**
+   * The cursor is the S3 continuation token.
+   */
+  async listPage(
+    prefix: string,
+    options: DriverListOptions,
+  ): Promise<StorageListPage> {
+    try {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          Delimiter: options.delimiter,
+          MaxKeys: options.limit,
+          ContinuationToken: options.cursor,
+        }),
+      );
+
+      return {
+        objects: (response.Contents ?? []).map((item) => ({
+          key: item.Key!,
+          size: item.Size,
+          lastModified: item.LastModified,
+        })),
+        folders: (response.CommonPrefixes ?? []).map((item) => item.Prefix!),
+        nextCursor: response.IsTruncated
+          ? (response.NextContinuationToken ?? null)
+          : null,
+      };
+    } catch (error) {
+      if (error instanceof Error && error.name === 'InvalidArgument') {
+        throw new BadRequestException('Invalid list cursor');
+      }
+      throw error;
+    }
+  }
+
+  copy(sourceKey: string, destinationKey: string): Promise<void> {
+    return this.copyFrom(this, sourceKey, destinationKey);
+  }
+
+  /**
+   * Whether objects of `source` can be copied into this bucket server-side:
+   * both are reached with the same endpoint and credentials.
+   */
+  canCopyFrom(source: S3StorageDriver): boolean {
+    return source.account === this.account;
+  }
+
+  async copyFrom(
+    source: S3StorageDriver,
+    sourceKey: string,
+    destinationKey: string,
+  ): Promise<void> {
+    try {
+      await this.client.send(
+        new CopyObjectCommand({
+          Bucket: this.bucket,
+          CopySource: `${source.bucket}/${sourceKey}`,
+          Key: destinationKey,
+        }),
+      );
+    } catch (error) {
+      throw notFoundOr(error);
+    }
+  }
+
+  getDownloadUrl(
+    key: string,
+    ttl: number,
+    options: DriverDownloadUrlOptions,
+  ): Promise<string> {
+    return getSignedUrl(
+      this.presignClient,
+      new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        ResponseContentDisposition: options.contentDisposition,
+        ResponseContentType: options.contentType,
+      }),
+      { expiresIn: ttl },
+    );
+  }
+
+  getUploadUrl(
+    key: string,
+    ttl: number,
+    options: DriverUploadUrlOptions,
+  ): Promise<string> {
+    return getSignedUrl(
+      this.presignClient,
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        ContentType: options.contentType,
+        ContentLength: options.contentLength,
+      }),
+      {
+        expiresIn: ttl,
+        signableHeaders: new Set(['content-type', 'content-length']),
+      },
+    );
+  }
+
+  async ping(): Promise<void> {
+    await this.client.send(new HeadBucketCommand({ Bucket: this.bucket }));
+  }
+
+  destroy(): void {
+    this.client.destroy();
+    this.presignClient.destroy();
+  }
+
+  /**
+   * Presigned POST policy pinning the key and Content-Type and capping the
+   * body at `maxSize` bytes.
+   */
+  createPresignedPost(
+    key: string,
+    ttl: number,
+    contentType: string,
+    maxSize: number,
+  ): Promise<{ url: string; fields: Record<string, string> }> {
+    return createPresignedPost(this.presignClient, {
+      Bucket: this.bucket,
+      Key: key,
+      Fields: { 'Content-Type': contentType },
+      Conditions: [
+        ['content-length-range', 1, maxSize],
+        ['eq', '$Content-Type', contentType],
+      ],
+      Expires: ttl,
+    });
+  }
+
+  async initiateMultipart(
+    key: string,
+    contentType: string,
+    metadata?: Record<string, string>,
+  ): Promise<string> {
+    const response = await this.client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: key,
+        ContentType: contentType,
+        Metadata: metadata,
+      }),
+    );
+    return response.UploadId!;
+  }
+
+  getPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    ttl: number,
+  ): Promise<string> {
+    return getSignedUrl(
+      this.presignClient,
+      new UploadPartCommand({
+        Bucket: this.bucket,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+      }),
+      { expiresIn: ttl },
+    );
+  }
+
+  async listParts(key: string, uploadId: string): Promise<UploadedPart[]> {
+    const parts: UploadedPart[] = [];
+    let marker: string | undefined;
+
+    do {
+      const response = await this.client.send(
+        new ListPartsCommand({
+          Bucket: this.bucket,
+          Key: key,
+          UploadId: uploadId,
+          PartNumberMarker: marker,
+        }),
+      );
+      for (const part of response.Parts ?? []) {
+        parts.push({
+          partNumber: part.PartNumber!,
+          etag: part.ETag!,
+          size: part.Size,
+          lastModified: part.LastModified,
+        });
+      }
+      marker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+    } while (marker);
+
+    return parts;
+  }
+
+  async completeMultipart(
+    key: string,
+    uploadId: string,
+    parts: CompletedPart[],
+  ): Promise<void> {
+    await this.client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: [...parts]
+            .sort((a, b) => a.partNumber - b.partNumber)
+            .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+        },
+      }),
+    );
+  }
+
+  async abortMultipart(key: string, uploadId: string): Promise<void> {
+    await this.client.send(
+      new AbortMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: key,
+        UploadId: uploadId,
+      }),
+    );
+  }
+
+  async listMultipartUploads(prefix?: string): Promise<IncompleteUpload[]> {
+    const uploads: IncompleteUpload[] = [];
+    let keyMarker: string | undefined;
+    let uploadIdMarker: string | undefined;
+
+    do {
+      const response = await this.client.send(
+        new ListMultipartUploadsCommand({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          KeyMarker: keyMarker,
+          UploadIdMarker: uploadIdMarker,
+        }),
+      );
+      for (const upload of response.Uploads ?? []) {
+        uploads.push({
+          key: upload.Key!,
+          uploadId: upload.UploadId!,
+          initiated: upload.Initiated,
+        });
+      }
+      keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+      uploadIdMarker = response.NextUploadIdMarker;
+    } while (keyMarker);
+
+    return uploads;
+  }
+}
+
+function notFoundOr(error: unknown): unknown {
+  return error instanceof Error &&
+    (error.name === 'NoSuchKey' || error.name === 'NotFound')
+    ? new NotFoundException('Object not found')
+    : error;
+}
@@ -0,0 +1 @@
+export * from './update-stored-file.dto';
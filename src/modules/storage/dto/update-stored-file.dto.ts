@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum } from 'class-validator';
+import { FileVisibility } from '../types/enums/file-visibility.enum';
+
+export class UpdateStoredFileDto {
+  @ApiProperty({ enum: FileVisibility, example: FileVisibility.PUBLIC })
+  @IsEnum(FileVisibility)
+  visibility: FileVisibility;
+}
@@ -0,0 +1,214 @@
+import { type ConfigType } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { text } from 'stream/consumers';
+import { type Repository } from 'typeorm';
+import { memoryRepository } from '../../../test/utils/memory-repository';
+import { storageConfig } from '../../config/storage.config';
+import { FileScanService } from './file-scan.service';
+import { ImagePipelineService } from './image-pipeline.service';
+import { StorageService } from './storage.service';
+import { StorageUrlSigner } from './storage-url.signer';
+import { StoredFile } from './stored-file.entity';
+import { MemoryStorageDriver } from './drivers';
+import { EICAR_TEST_SIGNATURE, FakeFileScanner } from './scanners';
+import { FILE_SCANNER, SCAN_MAX_ATTEMPTS } from './storage.constants';
+import { FileScanStatus } from './types/enums/file-scan-status.enum';
+
+describe('FileScanService', () => {
+  let service: FileScanService;
+  let storage: StorageService;
+  let scanner: FakeFileScanner;
+  let files: ReturnType<typeof memoryRepository<StoredFile>>;
+  let images: {
+    accepts: jest.Mock;
+    process: jest.Mock;
+    deleteVariants: jest.Mock;
+  };
+
+  const config = {
+    scanner: 'fake',
+    quarantinePrefix: 'quarantine',
+  } as ConfigType<typeof storageConfig>;
+
+  beforeEach(async () => {
+    files = memoryRepository<StoredFile>([]);
+    scanner = new FakeFileScanner();
+    images = {
+      accepts: jest.fn((type: string) => type.startsWith('image/')),
+      process: jest.fn((file: StoredFile) => Promise.resolve(file)),
+      deleteVariants: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        FileScanService,
+        {
+          provide: StorageService,
+          inject: [getRepositoryToken(StoredFile)],
+          useFactory: (storedFiles: Repository<StoredFile>) =>
+            new StorageService(
+              'default',
+              new MemoryStorageDriver(
+                new StorageUrlSigner('http://localhost', 's'),
+              ),
+              config,
+              storedFiles,
+            ),
+        },
+        { provide: ImagePipelineService, useValue: images },
+        { provide: getRepositoryToken(StoredFile), useValue: files },
+        { provide: FILE_SCANNER, useValue: scanner },
+        { provide: storageConfig.KEY, useValue: config },
+      ],
+    }).compile();
+    service = moduleRef.get(FileScanService);
+    storage = moduleRef.get(StorageService);
+  });
+
+  /** Store an upload in quarantine as `StoredFilesService.upload` does */
+  async function quarantine(
+    key: string,
+    content: string,
+    contentType = 'text/plain',
+  ): Promise<StoredFile> {
+    const file = {
+      id: `file-${files.rows.length + 1}`,
+      key: service.quarantineKey(key),
+      contentType,
+      scanStatus: FileScanStatus.PENDING,
+      scanAttempts: 0,
+      nextScanAt: new Date(0),
+      threat: null,
+      scannedAt: null,
+      variants: null,
+    } as StoredFile;
+    await storage.upload({
+      key: file.key,
+      body: content,
+      contentType,
+    });
+    files.rows.push(file);
+    return file;
+  }
+
+  /** Let the leases of files whose scan failed run out */
+  function expireLeases(): void {
+    for (const file of files.rows) {
+      if (file.nextScanAt) file.nextScanAt = new Date(0);
+    }
+  }
+
+  it('stores uploads under the pending folder of the quarantine prefix', () => {
+    expect(service.enabled).toBe(true);
+    expect(service.quarantineKey('docs/a.txt')).toBe(
+      'quarantine/pending/docs/a.txt',
+    );
+  });
+
+  it('moves clean files to their key', async () => {
+    const file = await quarantine('docs/a.txt', 'hello');
+
+    expect(await service.scanDue()).toBe(1);
+    expect(file).toMatchObject({
+      key: 'docs/a.txt',
+      scanStatus: FileScanStatus.CLEAN,
+      nextScanAt: null,
+    });
+    expect(file.scannedAt).toBeInstanceOf(Date);
+    expect(await text(await storage.download('docs/a.txt'))).toBe('hello');
+    expect(
+      await storage.exists(service.quarantineKey('docs/a.txt')),
+    ).toBeNull();
+  });
+
+  it('generates image variants only once the file is scanned clean', async () => {
+    const file = await quarantine('images/a.png', 'png', 'image/png');
+    const clean = await quarantine('docs/a.txt', 'hello');
+
+    expect(await service.scanDue()).toBe(2);
+    expect(images.process).toHaveBeenCalledTimes(1);
+    expect(images.process).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: file.id,
+        key: 'images/a.png',
+        scanStatus: FileScanStatus.CLEAN,
+      }),
+    );
+    expect(clean.scanStatus).toBe(FileScanStatus.CLEAN);
+  });
+
+  it('keeps a clean file clean when its variants fail', async () => {
+    const file = await quarantine('images/a.png', 'png', 'image/png');
+    images.process.mockRejectedValueOnce(new Error('bad image'));
+
+    expect(await service.scanDue()).toBe(1);
+    expect(file).toMatchObject({
+      key: 'images/a.png',
+      scanStatus: FileScanStatus.CLEAN,
+    });
+  });
+
+  it('moves infected files to the infected folder', async () => {
+    const file = await quarantine('docs/eicar.txt', EICAR_TEST_SIGNATURE);
+
+    expect(await service.scanDue()).toBe(1);
+    expect(file).toMatchObject({
+      key: 'quarantine/infected/docs/eicar.txt',
+      scanStatus: FileScanStatus.INFECTED,
+      threat: 'Eicar-Test-Signature',
+      nextScanAt: null,
+    });
+    expect(images.deleteVariants).toHaveBeenCalledWith(file);
+    expect(images.process).not.toHaveBeenCalled();
+    expect(await storage.exists('docs/eicar.txt')).toBeNull();
+    expect(await storage.exists(file.key)).not.toBeNull();
+  });
+
+  it('only scans files whose lease has run out', async () => {
+    const file = await quarantine('docs/a.txt', 'hello');
+    file.nextScanAt = new Date(Date.now() + 60_000);
+
+    expect(await service.scanDue()).toBe(0);
+    expect(file.scanStatus).toBe(FileScanStatus.PENDING);
+  });
+
+  it('retries failed scans after the lease', async () => {
+    const file = await quarantine('docs/a.txt', 'hello');
+    jest
+      .spyOn(scanner, 'scan')
+      .mockRejectedValueOnce(new Error('clamd unavailable'));
+
+    expect(await service.scanDue()).toBe(1);
+    expect(file.scanStatus).toBe(FileScanStatus.PENDING);
+    expect(file.nextScanAt!.getTime()).toBeGreaterThan(Date.now());
+    expect(await service.scanDue()).toBe(0);
+
+    expireLeases();
+    expect(await service.scanDue()).toBe(1);
+    expect(file).toMatchObject({
+      key: 'docs/a.txt',
+      scanStatus: FileScanStatus.CLEAN,
+      scanAttempts: 2,
+    });
+  });
+
+  it(`marks a file failed after ${SCAN_MAX_ATTEMPTS} failed scans`, async () => {
+    const file = await quarantine('docs/a.txt', 'hello');
+    jest.spyOn(scanner, 'scan').mockRejectedValue(new Error('timeout'));
+
+    for (let attempt = 1; attempt <= SCAN_MAX_ATTEMPTS; attempt++) {
+      expireLeases();
+      expect(await service.scanDue()).toBe(1);
+    }
+    expect(file).toMatchObject({
+      key: 'quarantine/pending/docs/a.txt',
+      scanStatus: FileScanStatus.FAILED,
+      scanAttempts: SCAN_MAX_ATTEMPTS,
+      nextScanAt: null,
+    });
+
+    expireLeases();
+    expect(await service.scanDue()).toBe(0);
+  });
+});
@@ -0,0 +1,184 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { type ConfigType } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { storageConfig } from '../../config/storage.config';
+import { addSeconds } from '../../common/utils/date.util';
+import { StorageService } from './storage.service';
+import { ImagePipelineService } from './image-pipeline.service';
+import { StoredFile } from './stored-file.entity';
+import {
+  FILE_SCANNER,
+  SCAN_BATCH_SIZE,
+  SCAN_INFECTED_FOLDER,
+  SCAN_LEASE,
+  SCAN_MAX_ATTEMPTS,
+  SCAN_PENDING_FOLDER,
+} from './storage.constants';
+import { FileScanStatus } from './types/enums/file-scan-status.enum';
+import { type FileScanner } from './types/interfaces/file-scanner.interface';
+
+/**
+ * Malware scanning of tracked uploads. Uploads are stored under
+ * `<quarantine>/pending/` and scanned by `FileScanWorker`: clean files are
+ * moved to their key (images then get their variants), infected ones to
+ * `<quarantine>/infected/` and flagged. Files that still fail to scan after
+ * `SCAN_MAX_ATTEMPTS` tries are flagged `failed` and left in quarantine.
+ */
+@Injectable()
+export class FileScanService {
+  private readonly logger = new Logger(FileScanService.name);
+
+  constructor(
+    private readonly storage: StorageService,
+    private readonly images: ImagePipelineService,
+    @InjectRepository(StoredFile)
+    private readonly files: Repository<StoredFile>,
+    @Inject(FILE_SCANNER)
+    private readonly scanner: FileScanner | null,
+    @Inject(storageConfig.KEY)
+    private readonly config: ConfigType<typeof storageConfig>,
+  ) {}
+
+  /**
+   * Whether a scanner is configured (`STORAGE_SCANNER`).
+   */
+  get enabled(): boolean {
+    return this.scanner !== null;
+  }
+
+  /**
+   * Key an upload is stored under until it is scanned clean.
+   */
+  quarantineKey(key: string): string {
+    return `${this.config.quarantinePrefix}/${SCAN_PENDING_FOLDER}/${key}`;
+  }
+
+  /**
+   * Scan up to `SCAN_BATCH_SIZE` pending files. Returns how many were
+   * attempted.
+   */
+  async scanDue(): Promise<number> {
+    if (!this.scanner) return 0;
+
+    const now = new Date();
+    const due = await this.files.find({
+      select: { id: true, scanAttempts: true },
+      where: {
+        scanStatus: FileScanStatus.PENDING,
+        nextScanAt: LessThanOrEqual(now),
+      },
+      order: { nextScanAt: 'ASC' },
+      take: SCAN_BATCH_SIZE,
+    });
+
+    let attempted = 0;
+    for (const { id, scanAttempts } of due) {
+      const file = await this.claim(id, scanAttempts, now);
+      if (!file) continue;
+      await this.scan(file, this.scanner);
+      attempted++;
+    }
+    return attempted;
+  }
+
+  /**
+   * Take a lease on a pending file and count the attempt, so several app
+   * instances can share the queue. A file whose scan fails is retried once
+   * the lease expires.
+   */
+  private async claim(
+    id: string,
+    scanAttempts: number,
+    now: Date,
+  ): Promise<StoredFile | null> {
+    const result = await this.files.update(
+      {
+        id,
+        scanStatus: FileScanStatus.PENDING,
+        nextScanAt: LessThanOrEqual(now),
+        scanAttempts,
+      },
+      {
+        nextScanAt: addSeconds(now, SCAN_LEASE),
+        scanAttempts: scanAttempts + 1,
+      },
+    );
+    if (!result.affected) return null;
+    return this.files.findOneBy({ id });
+  }
+
+  private async scan(file: StoredFile, scanner: FileScanner): Promise<void> {
+    const pending = this.quarantineKey('');
+    const key = file.key.slice(pending.length);
+
+    try {
+      if (!file.key.startsWith(pending)) {
+        throw new Error(`${file.key} is not under ${pending}`);
+      }
+      const result = await scanner.scan(await this.storage.download(file.key));
+      if (result.clean) {
+        await this.storage.move(file.key, key);
+        const patch = {
+          key,
+          scanStatus: FileScanStatus.CLEAN,
+          scannedAt: new Date(),
+          nextScanAt: null,
+        };
+        await this.files.update({ id: file.id }, patch);
+        await this.processImage(Object.assign(file, patch));
+        return;
+      }
+
+      await this.storage.move(
+        file.key,
+        `${this.config.quarantinePrefix}/${SCAN_INFECTED_FOLDER}/${key}`,
+      );
+      await this.images.deleteVariants(file);
+      await this.files.update(
+        { id: file.id },
+        {
+          scanStatus: FileScanStatus.INFECTED,
+          threat: result.threat ?? null,
+          variants: null,
+          scannedAt: new Date(),
+          nextScanAt: null,
+        },
+      );
+      this.logger.warn(
+        `Quarantined infected file ${key} (${file.id}): ${result.threat ?? 'unknown threat'}`,
+      );
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      if (file.scanAttempts < SCAN_MAX_ATTEMPTS) {
+        this.logger.warn(
+          `Failed to scan ${file.key}, retrying in ${SCAN_LEASE}s: ${reason}`,
+        );
+        return;
+      }
+
+      await this.files.update(
+        { id: file.id },
+        { scanStatus: FileScanStatus.FAILED, nextScanAt: null },
+      );
+      this.logger.error(
+        `Gave up scanning ${file.key} (${file.id}) after ${file.scanAttempts} attempts: ${reason}`,
+      );
+    }
+  }
+
+  /**
+   * Generate the variants of an image once it has left quarantine. Variants
+   * that fail here are generated on first request instead.
+   */
+  private async processImage(file: StoredFile): Promise<void> {
+    if (!this.images.accepts(file.contentType)) return;
+    try {
+      await this.images.process(file);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to process image ${file.key}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
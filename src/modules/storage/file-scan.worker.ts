@@ -0,0 +1,59 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { type ConfigType } from '@nestjs/config';
+import { storageConfig } from '../../config/storage.config';
+import { FileScanService } from './file-scan.service';
+import { SCAN_BATCH_SIZE } from './storage.constants';
+
+/**
+ * Every `STORAGE_SCAN_INTERVAL` seconds, scans the uploads waiting in
+ * quarantine. Only runs when `STORAGE_SCANNER` is set.
+ */
+@Injectable()
+export class FileScanWorker implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(FileScanWorker.name);
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+
+  constructor(
+    private readonly scans: FileScanService,
+    @Inject(storageConfig.KEY)
+    private readonly config: ConfigType<typeof storageConfig>,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    if (!this.scans.enabled) return;
+
+    this.timer = setInterval(() => {
+      this.running ??= this.scan().finally(() => {
+        this.running = undefined;
+      });
+    }, this.config.scanInterval * 1000);
+    this.timer.unref();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    await this.running;
+  }
+
+  private async scan(): Promise<void> {
+    try {
+      let attempted: number;
+      do {
+        attempted = await this.scans.scanDue();
+      } while (attempted >= SCAN_BATCH_SIZE && this.timer);
+    } catch (error) {
+      this.logger.error(
+        'File scan failed',
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  applyDecorators,
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBody,
+  ApiConsumes,
+  ApiPayloadTooLargeResponse,
+  ApiUnsupportedMediaTypeResponse,
+} from '@nestjs/swagger';
+import { FileUploadInterceptor } from './file-upload.interceptor';
+import {
+  FILE_UPLOAD_DEFAULT_FIELD,
+  FILE_UPLOAD_OPTIONS_KEY,
+} from './storage.constants';
+import {
+  type FileUploadOptions,
+  type FileUploadRequest,
+} from './types/interfaces/file-upload.interface';
+
+/**
+ * Accept a single streamed file upload on this route and store it.
+ * Read the result with `@UploadResult()`; other form fields arrive in `@Body()`.
+ *
+ * @example
+ * @FileUpload({ folder: 'documents', allowedTypes: ['application/pdf'] })
+ * @Post('documents')
+ * upload(@UploadResult() file: FileUploadResult) {}
+ */
+export const FileUpload = (options: FileUploadOptions = {}) =>
+  applyDecorators(
+    SetMetadata(FILE_UPLOAD_OPTIONS_KEY, options),
+    UseInterceptors(FileUploadInterceptor),
+    ApiConsumes('multipart/form-data'),
+    ApiBody({
+      schema: {
+        type: 'object',
+        required: [options.field ?? FILE_UPLOAD_DEFAULT_FIELD],
+        properties: {
+          [options.field ?? FILE_UPLOAD_DEFAULT_FIELD]: {
+            type: 'string',
+            format: 'binary',
+          },
+        },
+      },
+    }),
+    ApiBadRequestResponse({ description: 'Missing or malformed file upload' }),
+    ApiPayloadTooLargeResponse({ description: 'File exceeds the size limit' }),
+    ApiUnsupportedMediaTypeResponse({ description: 'File type not allowed' }),
+  );
+
+/**
+ * Inject the stored file of a `@FileUpload()` route into a handler.
+ */
+export const UploadResult = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext) =>
+    ctx.switchToHttp().getRequest<FileUploadRequest>().uploadedFile,
+);
@@ -0,0 +1,144 @@
+import {
+  type CallHandler,
+  type ExecutionContext,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { of } from 'rxjs';
+import { Readable } from 'stream';
+import { FileUploadInterceptor } from './file-upload.interceptor';
+import { type StoredFilesService } from './stored-files.service';
+import { FILE_UPLOAD_OPTIONS_KEY } from './storage.constants';
+import {
+  type FileUploadOptions,
+  type FileUploadRequest,
+} from './types/interfaces/file-upload.interface';
+
+// Jest can't run native `import()`, so load the ESM-only `file-type` through
+// its own (transformed) module registry instead
+jest.mock('../../common/helper/dynamic-import.helper', () => ({
+  dynamicImport: (packageName: string): Promise<unknown> =>
+    Promise.resolve(jest.requireActual(packageName)),
+}));
+
+const BOUNDARY = 'spec-boundary';
+const PDF = Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n1 0 obj\n<<>>\nendobj\n');
+
+/** A `multipart/form-data` request carrying one file */
+function multipartRequest(
+  content: Buffer,
+  contentType: string,
+  filename = 'upload.bin',
+): FileUploadRequest {
+  const body = Buffer.concat([
+    Buffer.from(
+      `--${BOUNDARY}\r\n` +
+        `Content-Disposition: form-data; name="file"; filename="${filename}"\r\n` +
+        `Content-Type: ${contentType}\r\n\r\n`,
+    ),
+    content,
+    Buffer.from(`\r\n--${BOUNDARY}--\r\n`),
+  ]);
+  return Object.assign(Readable.from([body]), {
+    headers: {
+      'content-type': `multipart/form-data; boundary=${BOUNDARY}`,
+      'content-length': String(body.length),
+    },
+    is: (type: string) => type === 'multipart/form-data',
+  }) as unknown as FileUploadRequest;
+}
+
+describe('FileUploadInterceptor', () => {
+  let upload: jest.Mock;
+  let next: CallHandler;
+
+  beforeEach(() => {
+    upload = jest.fn(async ({ body }: { body: Readable }) => {
+      let size = 0;
+      for await (const chunk of body) size += (chunk as Buffer).length;
+      return { id: 'file-1', size, checksum: 'abc' };
+    });
+    next = { handle: () => of(null) };
+  });
+
+  function intercept(
+    request: FileUploadRequest,
+    options: FileUploadOptions = {},
+  ): Promise<unknown> {
+    const handler = () => undefined;
+    Reflect.defineMetadata(FILE_UPLOAD_OPTIONS_KEY, options, handler);
+    const context = {
+      getHandler: () => handler,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+
+    return new FileUploadInterceptor(new Reflector(), {
+      upload,
+    } as unknown as StoredFilesService).intercept(context, next);
+  }
+
+  it('stores the file under its sniffed type, not the declared one', async () => {
+    const request = multipartRequest(PDF, 'application/octet-stream', 'a.pdf');
+
+    await intercept(request);
+
+    expect(upload).toHaveBeenCalledWith(
+      expect.objectContaining({ contentType: 'application/pdf' }),
+    );
+    expect(request.uploadedFile).toMatchObject({
+      mimeType: 'application/pdf',
+      originalName: 'a.pdf',
+      size: PDF.length,
+    });
+  });
+
+  it('names the key after the sniffed type, not the client extension', async () => {
+    const request = multipartRequest(PDF, 'text/html', 'x.html');
+
+    await intercept(request);
+
+    expect(request.uploadedFile?.key).toMatch(
+      /^uploads\/x_\d+_[0-9a-f]{8}\.pdf$/,
+    );
+    expect(request.uploadedFile?.originalName).toBe('x.html');
+  });
+
+  it('rejects a file whose declared type is spoofed with 415', async () => {
+    const request = multipartRequest(PDF, 'image/png', 'a.png');
+
+    await expect(
+      intercept(request, { allowedTypes: ['image/png'] }),
+    ).rejects.toThrow(
+      new UnsupportedMediaTypeException(
+        'File type "application/pdf" is not allowed',
+      ),
+    );
+    expect(upload).not.toHaveBeenCalled();
+  });
+
+  it('rejects a file with an unknown signature with 415', async () => {
+    const request = multipartRequest(
+      Buffer.from('just some plain text'),
+      'application/pdf',
+      'a.pdf',
+    );
+
+    await expect(intercept(request)).rejects.toThrow(
+      new UnsupportedMediaTypeException('File type "unknown" is not allowed'),
+    );
+    expect(upload).not.toHaveBeenCalled();
+  });
+
+  it('rejects a file over the size limit with 413', async () => {
+    const request = multipartRequest(
+      Buffer.concat([PDF, Buffer.alloc(256)]),
+      'application/pdf',
+    );
+
+    await expect(intercept(request, { maxSize: PDF.length })).rejects.toThrow(
+      PayloadTooLargeException,
+    );
+    expect(request.uploadedFile).toBeUndefined();
+  });
+});
@@ -0,0 +1,266 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import busboy from 'busboy';
+import { Readable } from 'stream';
+import { type Observable } from 'rxjs';
+import {
+  ALLOWED_FILE_TYPES,
+  MAX_FILE_SIZE,
+  MIME_SNIFF_BYTES,
+} from '../../common/constants/storage.constant';
+import {
+  buildS3Key,
+  detectFileType,
+  generateUniqueFilename,
+} from '../../common/utils/storage.util';
+import { StoredFilesService } from './stored-files.service';
+import {
+  FILE_UPLOAD_DEFAULT_FIELD,
+  FILE_UPLOAD_DEFAULT_FOLDER,
+  FILE_UPLOAD_MAX_FIELDS,
+  FILE_UPLOAD_MAX_FIELD_SIZE,
+  FILE_UPLOAD_OPTIONS_KEY,
+} from './storage.constants';
+import {
+  type FileUploadOptions,
+  type FileUploadRequest,
+  type FileUploadResult,
+} from './types/interfaces/file-upload.interface';
+
+type FileStream = Readable & { truncated?: boolean };
+
+/**
+ * Streams a single-file `multipart/form-data` body straight to storage.
+ * The file type is sniffed from its first bytes rather than trusted from the
+ * client, and the size limit is enforced while streaming. The upload is
+ * recorded as a pending `StoredFile` owned by the caller. Other form fields
+ * become `request.body`. Apply it with `@FileUpload()`.
+ */
+@Injectable()
+export class FileUploadInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly storedFiles: StoredFilesService,
+  ) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const options =
+      this.reflector.get<FileUploadOptions>(
+        FILE_UPLOAD_OPTIONS_KEY,
+        context.getHandler(),
+      ) ?? {};
+    const request = context.switchToHttp().getRequest<FileUploadRequest>();
+
+    if (!request.is('multipart/form-data')) {
+      throw new UnsupportedMediaTypeException(
+        'Request must be multipart/form-data',
+      );
+    }
+
+    const { file, fields } = await this.receive(request, options);
+    request.body = fields;
+    request.uploadedFile = file;
+
+    return next.handle();
+  }
+
+  private receive(
+    request: FileUploadRequest,
+    options: FileUploadOptions,
+  ): Promise<{ file: FileUploadResult; fields: Record<string, string> }> {
+    const field = options.field ?? FILE_UPLOAD_DEFAULT_FIELD;
+    const maxSize = options.maxSize ?? MAX_FILE_SIZE;
+
+    return new Promise((resolve, reject) => {
+      let parser: busboy.Busboy;
+      try {
+        parser = busboy({
+          headers: request.headers,
+          limits: {
+            files: 1,
+            fileSize: maxSize,
+            fields: FILE_UPLOAD_MAX_FIELDS,
+            fieldSize: FILE_UPLOAD_MAX_FIELD_SIZE,
+          },
+        });
+      } catch {
+        reject(new BadRequestException('Malformed multipart body'));
+        return;
+      }
+
+      const fields: Record<string, string> = {};
+      let upload: Promise<FileUploadResult> | undefined;
+      let file: FileStream | undefined;
+      let settled = false;
+
+      const fail = (error: Error) => {
+        if (settled) return;
+        settled = true;
+        request.unpipe(parser);
+        // Abort a file still being stored so its upload rejects and cleans up
+        file?.destroy(error);
+        // Drain the rest of the body so the error response can be sent
+        request.resume();
+        reject(error);
+      };
+
+      parser.on('field', (name, value, info) => {
+        if (info.valueTruncated) {
+          fail(new BadRequestException(`Field "${name}" is too long`));
+          return;
+        }
+        fields[name] = value;
+      });
+
+      parser.on('file', (name, stream, info) => {
+        if (name !== field) {
+          stream.resume();
+          fail(new BadRequestException(`Unexpected file field "${name}"`));
+          return;
+        }
+        file = stream;
+        upload = this.store(request, stream, info.filename, options);
+        upload.catch(fail);
+      });
+
+      parser.on('filesLimit', () =>
+        fail(new BadRequestException('Only one file can be uploaded')),
+      );
+      parser.on('fieldsLimit', () =>
+        fail(new BadRequestException('Too many form fields')),
+      );
+      parser.on('error', () =>
+        fail(new BadRequestException('Malformed multipart body')),
+      );
+
+      parser.on('close', () => {
+        if (!upload) {
+          fail(new BadRequestException(`File field "${field}" is required`));
+          return;
+        }
+        upload
+          .then((file) => {
+            if (settled) return;
+            settled = true;
+            resolve({ file, fields });
+          })
+          .catch(fail);
+      });
+
+      request.pipe(parser);
+    });
+  }
+
+  private async store(
+    request: FileUploadRequest,
+    stream: FileStream,
+    filename: string,
+    options: FileUploadOptions,
+  ): Promise<FileUploadResult> {
+    const field = options.field ?? FILE_UPLOAD_DEFAULT_FIELD;
+    const allowedTypes = options.allowedTypes ?? ALLOWED_FILE_TYPES;
+    const maxSize = options.maxSize ?? MAX_FILE_SIZE;
+
+    const tooLarge = () =>
+      new PayloadTooLargeException(
+        `File exceeds max allowed size of ${maxSize} bytes`,
+      );
+
+    const { head, ended } = await readHead(stream, MIME_SNIFF_BYTES);
+    if (!head.length) {
+      throw new BadRequestException('Uploaded file is empty');
+    }
+
+    const type = await detectFileType(head);
+    if (!type || !allowedTypes.includes(type.mime)) {
+      stream.resume();
+      throw new UnsupportedMediaTypeException(
+        `File type "${type?.mime ?? 'unknown'}" is not allowed`,
+      );
+    }
+    const mimeType = type.mime;
+
+    async function* body(): AsyncGenerator<Buffer> {
+      yield head;
+      if (!ended) {
+        for await (const chunk of stream) {
+          yield chunk as Buffer;
+        }
+      }
+      // busboy stops at `fileSize` and flags the stream instead of erroring
+      if (stream.truncated) throw tooLarge();
+    }
+
+    const folder =
+      typeof options.folder === 'function'
+        ? options.folder(request)
+        : (options.folder ?? FILE_UPLOAD_DEFAULT_FOLDER);
+    // The extension follows the detected type, never the client's filename
+    const key = buildS3Key(folder, generateUniqueFilename(filename, type.ext));
+
+    try {
+      const file = await this.storedFiles.upload({
+        key,
+        body: Readable.from(body()),
+        contentType: mimeType,
+        originalName: filename,
+        ownerId: request.user?.id ?? null,
+        visibility: options.visibility,
+      });
+      return {
+        id: file.id,
+        key,
+        field,
+        originalName: filename,
+        mimeType,
+        size: file.size,
+        checksum: file.checksum!,
+      };
+    } catch (error) {
+      if (stream.truncated) throw tooLarge();
+      throw error;
+    }
+  }
+}
+
+/**
+ * Read at least `bytes` bytes (or the whole stream if shorter) and pause the
+ * stream so the remainder can still be consumed afterwards.
+ */
+const readHead = (
+  stream: Readable,
+  bytes: number,
+): Promise<{ head: Buffer; ended: boolean }> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let length = 0;
+
+    const done = (ended: boolean) => {
+      stream.off('data', onData);
+      stream.off('end', onEnd);
+      stream.off('error', reject);
+      stream.pause();
+      resolve({ head: Buffer.concat(chunks), ended });
+    };
+    const onData = (chunk: Buffer) => {
+      chunks.push(chunk);
+      length += chunk.length;
+      if (length >= bytes) done(false);
+    };
+    const onEnd = () => done(true);
+
+    stream.on('data', onData);
+    stream.once('end', onEnd);
+    stream.once('error', reject);
+  });
@@ -0,0 +1,169 @@
+import {
+  HttpException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { type ConfigType } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import sharp from 'sharp';
+import { Readable } from 'stream';
+import { Repository } from 'typeorm';
+import { storageConfig } from '../../config/storage.config';
+import { StorageService } from './storage.service';
+import { StoredFile } from './stored-file.entity';
+import {
+  IMAGE_VARIANTS,
+  buildImageVariantKey,
+  listImageVariantKeys,
+  type ImageVariantName,
+} from './image-variants.definitions';
+import {
+  IMAGE_ORIGINAL_JPEG_QUALITY,
+  IMAGE_PIPELINE_TYPES,
+} from './storage.constants';
+import { type ImageVariantDefinition } from './types/interfaces/image-variant.interface';
+
+/**
+ * Image processing for tracked uploads: strips metadata from originals,
+ * records their dimensions and derives the variants declared in
+ * `IMAGE_VARIANTS`.
+ */
+@Injectable()
+export class ImagePipelineService {
+  private readonly logger = new Logger(ImagePipelineService.name);
+
+  constructor(
+    private readonly storage: StorageService,
+    @InjectRepository(StoredFile)
+    private readonly files: Repository<StoredFile>,
+    @Inject(storageConfig.KEY)
+    private readonly config: ConfigType<typeof storageConfig>,
+  ) {}
+
+  /**
+   * Whether files of `contentType` go through the pipeline.
+   */
+  accepts(contentType: string): boolean {
+    return (
+      this.config.imagePipelineEnabled &&
+      IMAGE_PIPELINE_TYPES.includes(contentType)
+    );
+  }
+
+  /**
+   * Re-encode an image without its metadata (EXIF, GPS, XMP). The EXIF
+   * orientation is applied first so the image still displays upright; the
+   * format and colour profile are kept.
+   */
+  sanitize(source: Readable, contentType: string): Readable {
+    const transformer = sharp({ failOn: 'error' }).rotate().keepIccProfile();
+    if (contentType === 'image/jpeg') {
+      transformer.jpeg({ quality: IMAGE_ORIGINAL_JPEG_QUALITY });
+    }
+    source.once('error', (error) => transformer.destroy(error));
+    source.pipe(transformer);
+
+    return Readable.from(
+      (async function* () {
+        try {
+          for await (const chunk of transformer) {
+            yield chunk as Buffer;
+          }
+        } catch (error) {
+          // Keep upload errors (e.g. size limits) as they are
+          if (source.errored || error instanceof HttpException) throw error;
+          throw new UnprocessableEntityException('File is not a valid image');
+        }
+      })(),
+    );
+  }
+
+  /**
+   * Record the dimensions of an uploaded image and generate its variants.
+   * Variants that fail are logged and generated on first request instead.
+   */
+  async process(file: StoredFile): Promise<StoredFile> {
+    const original = await this.read(file.key);
+    const { width, height } = await sharp(original).metadata();
+    file.width = width ?? null;
+    file.height = height ?? null;
+    file.variants = [];
+
+    for (const variant of Object.keys(IMAGE_VARIANTS) as ImageVariantName[]) {
+      try {
+        await this.render(file.id, variant, original);
+        file.variants.push(variant);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to generate ${variant} of ${file.key}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    return this.files.save(file);
+  }
+
+  /**
+   * Key of a variant of `file`, generating the variant if it doesn't exist
+   * yet (e.g. it was declared after the upload).
+   */
+  async ensureVariant(file: StoredFile, variant: string): Promise<string> {
+    if (!this.accepts(file.contentType)) {
+      throw new NotFoundException('File has no image variants');
+    }
+    if (!Object.hasOwn(IMAGE_VARIANTS, variant)) {
+      throw new NotFoundException(`Unknown image variant "${variant}"`);
+    }
+
+    const name = variant as ImageVariantName;
+    if (!file.variants?.includes(name)) {
+      await this.render(file.id, name, await this.read(file.key));
+      file.variants = [...(file.variants ?? []), name];
+      await this.files.update({ id: file.id }, { variants: file.variants });
+    }
+    return buildImageVariantKey(file.id, name);
+  }
+
+  /**
+   * Delete the generated variants of a file.
+   */
+  async deleteVariants(file: StoredFile): Promise<void> {
+    for (const variantKey of listImageVariantKeys(file)) {
+      await this.storage.delete(variantKey);
+    }
+  }
+
+  private async render(
+    fileId: string,
+    variant: ImageVariantName,
+    original: Buffer,
+  ): Promise<void> {
+    const definition: ImageVariantDefinition = IMAGE_VARIANTS[variant];
+    const body = await sharp(original)
+      .rotate()
+      .resize({
+        width: definition.width,
+        height: definition.height,
+        fit: definition.fit,
+        withoutEnlargement: true,
+      })
+      .toFormat(definition.format, { quality: definition.quality })
+      .toBuffer();
+
+    await this.storage.upload({
+      key: buildImageVariantKey(fileId, variant),
+      body,
+      contentType: `image/${definition.format}`,
+    });
+  }
+
+  private async read(key: string): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.storage.download(key)) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+}
@@ -0,0 +1,49 @@
+import { buildS3Key } from '../../common/utils/storage.util';
+import { IMAGE_VARIANTS_FOLDER } from './storage.constants';
+import { type ImageVariantDefinition } from './types/interfaces/image-variant.interface';
+
+/**
+ * Variants generated for every image uploaded through `StoredFilesService`.
+ * The key is the name requested from `GET /files/:id/variants/:variant`.
+ * Images are never enlarged.
+ *
+ * Edit this map to declare your project's variants. Variants added later are
+ * generated on first request.
+ */
+export const IMAGE_VARIANTS = {
+  thumbnail: { width: 256, height: 256, fit: 'cover', format: 'webp' },
+  medium: { width: 1024, height: 1024, fit: 'inside', format: 'webp' },
+  webp: { width: 2048, height: 2048, fit: 'inside', format: 'webp' },
+  avif: { width: 2048, height: 2048, fit: 'inside', format: 'avif' },
+} satisfies Record<string, ImageVariantDefinition>;
+
+export type ImageVariantName = keyof typeof IMAGE_VARIANTS;
+
+/**
+ * Key of a variant: `variants/<fileId>/<variant>.<format>`. Derived from the
+ * file id, so variants stay put when the original is moved.
+ */
+export function buildImageVariantKey(
+  fileId: string,
+  variant: ImageVariantName,
+): string {
+  return buildS3Key(
+    `${IMAGE_VARIANTS_FOLDER}/${fileId}`,
+    `${variant}.${IMAGE_VARIANTS[variant].format}`,
+  );
+}
+
+/**
+ * Keys of the variants generated so far for a file. Names no longer in
+ * `IMAGE_VARIANTS` are skipped.
+ */
+export function listImageVariantKeys(file: {
+  id: string;
+  variants: string[] | null;
+}): string[] {
+  return (file.variants ?? [])
+    .filter((variant): variant is ImageVariantName =>
+      Object.hasOwn(IMAGE_VARIANTS, variant),
+    )
+    .map((variant) => buildImageVariantKey(file.id, variant));
+}
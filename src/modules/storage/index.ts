@@ -1,4 +1,20 @@
 export * from './storage.module';
+export * from './storage-workers.module';
 export * from './storage.service';
+export * from './storage.manager';
+export * from './inject-storage.decorator';
+export * from './storage-migration.service';
+export * from './storage-url.signer';
+export * from './drivers';
+export * from './stored-files.service';
+export * from './image-pipeline.service';
+export * from './image-variants.definitions';
+export * from './file-scan.service';
+export * from './scanners';
+export * from './stored-file.entity';
+export * from './stored-file-attachment.entity';
+export * from './dto';
 export * from './storage.constants';
 export * from './types';
+export * from './file-upload.interceptor';
+export * from './file-upload.decorator';
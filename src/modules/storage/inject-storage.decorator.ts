@@ -0,0 +1,31 @@
+import { Inject } from '@nestjs/common';
+import {
+  DEFAULT_STORAGE_DISK,
+  type StorageDiskName,
+} from '../../config/storage.config';
+import { StorageService } from './storage.service';
+
+/**
+ * Injection token of a disk's `StorageService`. The default disk is also
+ * injectable as plain `StorageService`.
+ */
+export function getStorageToken(
+  disk: StorageDiskName = DEFAULT_STORAGE_DISK,
+): string | typeof StorageService {
+  return disk === DEFAULT_STORAGE_DISK ? StorageService : `storage:${disk}`;
+}
+
+/**
+ * Inject the `StorageService` of a disk declared in `STORAGE_DISKS`. The
+ * module needs to import `StorageModule.forFeature(...disks)`.
+ *
+ * @example
+ * imports: [StorageModule.forFeature('private-documents', 'backups')]
+ *
+ * constructor(
+ *   @InjectStorage('private-documents') private readonly documents: StorageService,
+ *   @InjectStorage('backups') private readonly backups: StorageService,
+ * ) {}
+ */
+export const InjectStorage = (disk?: StorageDiskName) =>
+  Inject(getStorageToken(disk));
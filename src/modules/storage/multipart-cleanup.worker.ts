@@ -0,0 +1,75 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { type ConfigType } from '@nestjs/config';
+import { storageConfig } from '../../config/storage.config';
+import { StorageManager } from './storage.manager';
+
+/**
+ * Aborts multipart uploads that were never completed. Parts of abandoned
+ * uploads are invisible in normal listings but still billed, so every
+ * `STORAGE_MULTIPART_CLEANUP_INTERVAL` seconds uploads older than
+ * `STORAGE_MULTIPART_MAX_AGE` are aborted on every disk using the S3
+ * driver.
+ */
+@Injectable()
+export class MultipartCleanupWorker
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(MultipartCleanupWorker.name);
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+
+  constructor(
+    private readonly storage: StorageManager,
+    @Inject(storageConfig.KEY)
+    private readonly config: ConfigType<typeof storageConfig>,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    if (!this.config.multipartCleanupEnabled || !this.s3Disks().length) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.running ??= this.sweep().finally(() => {
+        this.running = undefined;
+      });
+    }, this.config.multipartCleanupInterval * 1000);
+    this.timer.unref();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    await this.running;
+  }
+
+  private async sweep(): Promise<void> {
+    for (const storage of this.s3Disks()) {
+      try {
+        const aborted = await storage.abortStaleMultipartUploads(
+          this.config.multipartMaxAge,
+        );
+        if (aborted) {
+          this.logger.log(
+            `Aborted ${aborted} abandoned multipart upload(s) on the ${storage.disk} disk`,
+          );
+        }
+      } catch (error) {
+        this.logger.error(
+          `Multipart cleanup of the ${storage.disk} disk failed`,
+          error instanceof Error ? error.stack : String(error),
+        );
+      }
+    }
+  }
+
+  private s3Disks() {
+    return this.storage.all().filter((storage) => storage.driverName === 's3');
+  }
+}
@@ -0,0 +1,87 @@
+import { createConnection } from 'net';
+import { type Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type {
+  FileScanner,
+  ScanResult,
+} from '../types/interfaces/file-scanner.interface';
+
+/**
+ * Scans files with a ClamAV daemon (`clamd`) over its local socket, using
+ * the `INSTREAM` command so the body is streamed and never written to disk.
+ * Bodies above clamd's `StreamMaxLength` fail to scan and are retried, so
+ * keep it above the upload size limit.
+ */
+export class ClamAvScanner implements FileScanner {
+  readonly name = 'clamav';
+
+  constructor(
+    private readonly socketPath: string,
+    private readonly timeout: number,
+  ) {}
+
+  async scan(body: Readable): Promise<ScanResult> {
+    // e.g. "stream: OK", "stream: Win.Test.EICAR_HDB-1 FOUND"
+    const reply = await this.command('zINSTREAM\0', body);
+    const found = /^stream: (.+) FOUND$/.exec(reply);
+    if (found) return { clean: false, threat: found[1] };
+    if (reply === 'stream: OK') return { clean: true };
+    throw new Error(`ClamAV could not scan the file: ${reply}`);
+  }
+
+  async ping(): Promise<void> {
+    const reply = await this.command('zPING\0');
+    if (reply !== 'PONG') {
+      throw new Error(`Unexpected ClamAV reply: ${reply}`);
+    }
+  }
+
+  /**
+   * Send a command, followed by `body` in length-prefixed chunks, and return
+   * clamd's reply. clamd may reply early (e.g. size limit exceeded) and close
+   * the socket; the reply wins over the resulting write error.
+   */
+  private command(command: string, body?: Readable): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let failure: Error | undefined;
+
+      const socket = createConnection(this.socketPath, () => {
+        socket.write(command);
+        if (!body) return;
+        pipeline(body, frameChunks, socket).catch((error: Error) => {
+          failure ??= error;
+          socket.destroy();
+        });
+      });
+      socket.setTimeout(this.timeout, () =>
+        socket.destroy(new Error('ClamAV did not reply in time')),
+      );
+      socket.on('data', (chunk: Buffer) => chunks.push(chunk));
+      socket.on('error', (error) => {
+        failure ??= error;
+      });
+      socket.on('close', () => {
+        const reply = Buffer.concat(chunks).toString().replace(/\0/g, '');
+        if (reply) {
+          resolve(reply.trim());
+        } else {
+          reject(failure ?? new Error('ClamAV closed the connection'));
+        }
+      });
+    });
+  }
+}
+
+/** INSTREAM framing: 4-byte big-endian length before each chunk, 0 at the end */
+async function* frameChunks(source: AsyncIterable<Buffer>) {
+  for await (const chunk of source) {
+    // A zero-length chunk would end the stream early
+    if (!chunk.length) continue;
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(chunk.length);
+    yield length;
+    yield chunk;
+  }
+  yield Buffer.alloc(4);
+}
@@ -0,0 +1,33 @@
+import { type Readable } from 'stream';
+import type {
+  FileScanner,
+  ScanResult,
+} from '../types/interfaces/file-scanner.interface';
+
+/** Standard antivirus test file, detected by every scanner */
+export const EICAR_TEST_SIGNATURE =
+  'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+/**
+ * Stand-in scanner for tests and development without ClamAV. Reports files
+ * containing the EICAR test signature as infected and everything else as
+ * clean. Buffers the whole body.
+ */
+export class FakeFileScanner implements FileScanner {
+  readonly name = 'fake';
+
+  async scan(body: Readable): Promise<ScanResult> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) {
+      chunks.push(Buffer.from(chunk as Buffer));
+    }
+
+    return Buffer.concat(chunks).includes(EICAR_TEST_SIGNATURE)
+      ? { clean: false, threat: 'Eicar-Test-Signature' }
+      : { clean: true };
+  }
+
+  ping(): Promise<void> {
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,2 @@
+export * from './clamav.scanner';
+export * from './fake.scanner';
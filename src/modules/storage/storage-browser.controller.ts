@@ -0,0 +1,35 @@
+import { Controller, Get, ParseIntPipe, Query } from '@nestjs/common';
+import { ApiBearerAuth, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Role } from '../../common/enums/role.enum';
+import { StorageService } from './storage.service';
+import { STORAGE_BROWSE_PAGE_SIZE } from './storage.constants';
+
+@ApiTags('Storage')
+@ApiBearerAuth('session-auth')
+@Roles(Role.ADMIN)
+@Controller('storage/browse')
+export class StorageBrowserController {
+  constructor(private readonly storage: StorageService) {}
+
+  /**
+   * Browse the bucket one folder at a time. Returns the objects and
+   * sub-folders directly under `prefix` (e.g. `files/`), and a cursor for
+   * the next page.
+   */
+  @Get()
+  @ApiQuery({ name: 'prefix', required: false, example: 'files/' })
+  @ApiQuery({ name: 'cursor', required: false })
+  @ApiQuery({ name: 'limit', type: Number, required: false })
+  browse(
+    @Query('prefix') prefix: string | undefined,
+    @Query('cursor') cursor: string | undefined,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number,
+  ) {
+    return this.storage.listPage(prefix ?? '', {
+      cursor,
+      limit: limit ?? STORAGE_BROWSE_PAGE_SIZE,
+      delimiter: '/',
+    });
+  }
+}
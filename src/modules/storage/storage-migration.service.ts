@@ -0,0 +1,279 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { mkdir, open, readFile, type FileHandle } from 'fs/promises';
+import { dirname } from 'path';
+import { Readable } from 'stream';
+import { type StorageDiskName } from '../../config/storage.config';
+import { StorageManager } from './storage.manager';
+import { type StorageService } from './storage.service';
+import {
+  STORAGE_MIGRATION_CONCURRENCY,
+  STORAGE_MIGRATION_LOG_INTERVAL,
+  STORAGE_MIGRATION_MAX_CONCURRENCY,
+} from './storage.constants';
+import type {
+  StorageMigrationOptions,
+  StorageMigrationReport,
+} from './types/interfaces/storage-migration.interface';
+
+/** First line of a state file */
+interface MigrationHeader {
+  from: StorageDiskName;
+  to: StorageDiskName;
+  prefix: string;
+}
+
+/** Following lines, one per verified copy */
+interface MigratedObject {
+  key: string;
+  size: number;
+  sha256: string;
+}
+
+interface MigrationState {
+  copied: Set<string>;
+  /** `null` in dry runs, which don't write the state */
+  handle: FileHandle | null;
+}
+
+/**
+ * Copies every object under a prefix from one disk to another, e.g. when
+ * moving from MinIO to S3. Objects are streamed through the app and hashed
+ * on the way; with `verify` the copy is read back and compared. Backs the
+ * `storage:migrate` command.
+ */
+@Injectable()
+export class StorageMigrationService {
+  private readonly logger = new Logger(StorageMigrationService.name);
+
+  constructor(private readonly storage: StorageManager) {}
+
+  async migrate(
+    options: StorageMigrationOptions,
+  ): Promise<StorageMigrationReport> {
+    const startedAt = Date.now();
+    const concurrency = options.concurrency ?? STORAGE_MIGRATION_CONCURRENCY;
+    if (
+      !Number.isInteger(concurrency) ||
+      concurrency < 1 ||
+      concurrency > STORAGE_MIGRATION_MAX_CONCURRENCY
+    ) {
+      throw new BadRequestException(
+        `Concurrency must be between 1 and ${STORAGE_MIGRATION_MAX_CONCURRENCY}`,
+      );
+    }
+    if (options.from === options.to) {
+      throw new BadRequestException('Source and target disks must differ');
+    }
+    const source = this.disk(options.from);
+    const target = this.disk(options.to);
+
+    const report: StorageMigrationReport = {
+      from: options.from,
+      to: options.to,
+      prefix: options.prefix ?? '',
+      dryRun: options.dryRun ?? false,
+      listed: 0,
+      copied: 0,
+      skipped: 0,
+      bytes: 0,
+      mismatches: [],
+      durationMs: 0,
+    };
+    const state = options.statePath
+      ? await this.openState(
+          options.statePath,
+          { from: report.from, to: report.to, prefix: report.prefix },
+          report.dryRun,
+        )
+      : null;
+    const running = new Set<Promise<void>>();
+
+    try {
+      for await (const object of source.listAll(report.prefix)) {
+        report.listed++;
+        if (state?.copied.has(object.key)) {
+          report.skipped++;
+          continue;
+        }
+        if (report.dryRun) {
+          report.copied++;
+          report.bytes += object.size ?? 0;
+          continue;
+        }
+
+        const task = this.copy(source, target, object.key, options.verify)
+          .then(
+            async ({ copy, mismatch }) => {
+              if (mismatch) {
+                report.mismatches.push({ key: object.key, reason: mismatch });
+                return;
+              }
+              await state?.handle?.appendFile(`${JSON.stringify(copy)}\n`);
+              report.copied++;
+              report.bytes += copy.size;
+            },
+            (error) => {
+              report.mismatches.push({
+                key: object.key,
+                reason: error instanceof Error ? error.message : String(error),
+              });
+            },
+          )
+          .finally(() => {
+            running.delete(task);
+            this.logProgress(report);
+          });
+        running.add(task);
+        if (running.size >= concurrency) {
+          await Promise.race(running);
+        }
+      }
+      await Promise.all(running);
+    } finally {
+      await Promise.allSettled(running);
+      await state?.handle?.close();
+    }
+
+    report.durationMs = Date.now() - startedAt;
+    return report;
+  }
+
+  /**
+   * Stream one object to the target, hashing it on the way. Returns why the
+   * copy doesn't match the source, if it doesn't.
+   */
+  private async copy(
+    source: StorageService,
+    target: StorageService,
+    key: string,
+    verify = true,
+  ): Promise<{ copy: MigratedObject; mismatch?: string }> {
+    const object = await source.exists(key);
+    if (!object) {
+      throw new NotFoundException('Object not found');
+    }
+
+    const body = await source.download(key);
+    const hash = createHash('sha256');
+    let size = 0;
+    await target.upload({
+      key,
+      body: Readable.from(
+        (async function* () {
+          for await (const chunk of body) {
+            const buffer = Buffer.from(chunk as Buffer);
+            hash.update(buffer);
+            size += buffer.length;
+            yield buffer;
+          }
+        })(),
+      ),
+      contentType: object.contentType,
+    });
+    const copy = { key, size, sha256: hash.digest('hex') };
+
+    if (object.size !== undefined && size !== object.size) {
+      return {
+        copy,
+        mismatch: `Read ${size} of ${object.size} bytes from the source`,
+      };
+    }
+    if (!verify) return { copy };
+
+    const written = await this.checksum(target, key);
+    if (written.size !== size) {
+      return {
+        copy,
+        mismatch: `Size mismatch: ${size} bytes in the source, ${written.size} in the target`,
+      };
+    }
+    if (written.sha256 !== copy.sha256) {
+      return { copy, mismatch: 'Checksum mismatch' };
+    }
+    return { copy };
+  }
+
+  private async checksum(
+    storage: StorageService,
+    key: string,
+  ): Promise<{ size: number; sha256: string }> {
+    const hash = createHash('sha256');
+    let size = 0;
+    for await (const chunk of await storage.download(key)) {
+      hash.update(chunk as Buffer);
+      size += (chunk as Buffer).length;
+    }
+    return { size, sha256: hash.digest('hex') };
+  }
+
+  /**
+   * Read the keys copied by previous runs and open the state file for
+   * appending. A partial last line (interrupted write) is ignored.
+   */
+  private async openState(
+    path: string,
+    header: MigrationHeader,
+    dryRun: boolean,
+  ): Promise<MigrationState> {
+    const content = await readFile(path, 'utf8').catch(
+      (error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') return '';
+        throw error;
+      },
+    );
+    const [first, ...lines] = content.split('\n').filter(Boolean);
+
+    const copied = new Set<string>();
+    if (first) {
+      const saved = JSON.parse(first) as MigrationHeader;
+      if (
+        saved.from !== header.from ||
+        saved.to !== header.to ||
+        saved.prefix !== header.prefix
+      ) {
+        throw new BadRequestException(
+          `${path} belongs to another migration (${saved.from} → ${saved.to}, prefix "${saved.prefix}")`,
+        );
+      }
+      for (const line of lines) {
+        try {
+          copied.add((JSON.parse(line) as MigratedObject).key);
+        } catch {
+          // Partial line of an interrupted run
+        }
+      }
+    }
+    if (dryRun) return { copied, handle: null };
+
+    await mkdir(dirname(path), { recursive: true });
+    const handle = await open(path, 'a');
+    if (!first) {
+      await handle.appendFile(`${JSON.stringify(header)}\n`);
+    } else if (!content.endsWith('\n')) {
+      await handle.appendFile('\n');
+    }
+    return { copied, handle };
+  }
+
+  private logProgress(report: StorageMigrationReport): void {
+    const done = report.copied + report.mismatches.length;
+    if (done % STORAGE_MIGRATION_LOG_INTERVAL === 0) {
+      this.logger.log(
+        `${report.from} → ${report.to}: ${report.copied} copied (${report.bytes} bytes), ${report.mismatches.length} mismatched`,
+      );
+    }
+  }
+
+  private disk(name: string): StorageService {
+    if (!this.storage.has(name)) {
+      throw new BadRequestException(`Unknown storage disk "${name}"`);
+    }
+    return this.storage.disk(name);
+  }
+}
@@ -0,0 +1,172 @@
+import {
+  BadRequestException,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpStatus,
+  Inject,
+  NotFoundException,
+  PayloadTooLargeException,
+  Put,
+  Query,
+  Req,
+  Res,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { type Request, type Response } from 'express';
+import { pipeline as pipe, Transform, type Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Public } from '../../common/decorators/public.decorator';
+import { SkipCsrf } from '../../common/decorators/skip-csrf.decorator';
+import { StorageService } from './storage.service';
+import { StorageManager } from './storage.manager';
+import { StorageUrlSigner } from './storage-url.signer';
+import { STORAGE_OBJECTS_ROUTE, STORAGE_URL_SIGNER } from './storage.constants';
+import { type SignedUrlParams } from './types/interfaces/storage-driver.interface';
+
+/**
+ * Serves the presigned URLs of the local and memory drivers, mirroring the
+ * S3 endpoints they stand in for. Public and exempt from CSRF: the signature
+ * in the query string is the only credential, as with S3.
+ */
+@ApiTags('Storage')
+@Public()
+@SkipCsrf()
+@Controller(STORAGE_OBJECTS_ROUTE)
+export class StorageObjectsController {
+  constructor(
+    private readonly storage: StorageManager,
+    @Inject(STORAGE_URL_SIGNER)
+    private readonly signer: StorageUrlSigner | null,
+  ) {}
+
+  /**
+   * Download an object through a URL from `getPresignedDownloadUrl`.
+   */
+  @Get()
+  async download(
+    @Query() params: SignedUrlParams,
+    @Res() res: Response,
+  ): Promise<void> {
+    const { disk, key } = this.urlSigner().verify('GET', params);
+    const storage = this.disk(disk);
+    const object = await storage.exists(key);
+    if (!object) {
+      throw new NotFoundException('Object not found');
+    }
+    const body = await storage.download(key);
+
+    // Signed URLs are meant to be embedded by other origins (img, video, ...)
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.setHeader(
+      'Content-Type',
+      params.type ?? object.contentType ?? 'application/octet-stream',
+    );
+    if (object.size !== undefined) {
+      res.setHeader('Content-Length', object.size);
+    }
+    if (object.lastModified) {
+      res.setHeader('Last-Modified', object.lastModified.toUTCString());
+    }
+    if (params.disposition) {
+      res.setHeader('Content-Disposition', params.disposition);
+    }
+    await pipeline(body, res);
+  }
+
+  /**
+   * Upload an object through a URL from `getPresignedUploadUrl`. The signed
+   * Content-Type and Content-Length must be sent unchanged, and the body is
+   * cut off as soon as it exceeds the signed length.
+   */
+  @Put()
+  async upload(
+    @Query() params: SignedUrlParams,
+    @Req() req: Request & { rawBody?: Buffer },
+    @Res() res: Response,
+  ): Promise<void> {
+    const { disk, key } = this.urlSigner().verify('PUT', params);
+    const storage = this.disk(disk);
+    // URLs signed before a scanner was configured must not skip quarantine
+    storage.assertClientUploadsEnabled();
+    if (req.headers['content-type'] !== params.type) {
+      throw new ForbiddenException('Content-Type does not match the signature');
+    }
+    if (
+      params.length === undefined ||
+      req.headers['content-length'] !== params.length
+    ) {
+      throw new ForbiddenException(
+        'Content-Length does not match the signature',
+      );
+    }
+    const length = Number(params.length);
+
+    // JSON bodies have already been consumed by the body parser
+    if (req.readableEnded && req.rawBody) {
+      if (req.rawBody.length !== length) {
+        throw new BadRequestException('Body does not match Content-Length');
+      }
+      await storage.upload({
+        key,
+        body: req.rawBody,
+        contentType: params.type,
+      });
+    } else {
+      await storage.upload({
+        key,
+        body: exactLength(req, length),
+        contentType: params.type,
+      });
+    }
+    res.status(HttpStatus.OK).end();
+  }
+
+  /** Disks are only signed by the app, but may have been removed since */
+  private disk(name: string): StorageService {
+    if (!this.storage.has(name)) {
+      throw new NotFoundException('Object not found');
+    }
+    return this.storage.disk(name);
+  }
+
+  private urlSigner(): StorageUrlSigner {
+    if (!this.signer) {
+      throw new NotFoundException(
+        'Signed object URLs are only served by the local and memory drivers',
+      );
+    }
+    return this.signer;
+  }
+}
+
+/**
+ * Pass the stream through, failing with 413 as soon as it exceeds `length`
+ * bytes and with 400 if it ends short of it. The source is destroyed on
+ * failure.
+ */
+function exactLength(source: Readable, length: number): Readable {
+  let received = 0;
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (received > length) {
+        callback(
+          new PayloadTooLargeException(
+            'Body exceeds the signed Content-Length',
+          ),
+        );
+        return;
+      }
+      callback(null, chunk);
+    },
+    flush(callback) {
+      callback(
+        received === length
+          ? null
+          : new BadRequestException('Body does not match Content-Length'),
+      );
+    },
+  });
+  return pipe(source, counter, () => {});
+}
@@ -0,0 +1,98 @@
+import { ForbiddenException } from '@nestjs/common';
+import { StorageUrlSigner } from './storage-url.signer';
+import { type SignedUrlParams } from './types/interfaces/storage-driver.interface';
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+/** The query string of a signed URL as the objects route receives it */
+function paramsOf(url: string): SignedUrlParams {
+  return Object.fromEntries(new URL(url).searchParams) as SignedUrlParams;
+}
+
+describe('StorageUrlSigner', () => {
+  const signer = new StorageUrlSigner('http://localhost:3000/', 'url-secret');
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const upload = () =>
+    paramsOf(
+      signer.uploadUrl('docs/a.pdf', 60, {
+        contentType: 'application/pdf',
+        contentLength: 42,
+      }),
+    );
+
+  it('signs URLs to the objects route', () => {
+    const url = signer.downloadUrl('docs/a.pdf', 60, {
+      contentDisposition: 'attachment; filename="a.pdf"',
+    });
+
+    expect(url).toMatch(/^http:\/\/localhost:3000\/storage\/objects\?/);
+    expect(signer.verify('GET', paramsOf(url))).toEqual({
+      disk: 'default',
+      key: 'docs/a.pdf',
+    });
+    expect(upload()).toMatchObject({
+      type: 'application/pdf',
+      length: '42',
+    });
+    expect(signer.verify('PUT', upload()).key).toBe('docs/a.pdf');
+  });
+
+  it.each<[string, Partial<SignedUrlParams>]>([
+    ['key', { key: 'docs/b.pdf' }],
+    ['content type', { type: 'text/html' }],
+    ['content length', { length: '43' }],
+    ['disk', { disk: 'backups' }],
+    ['expiry', { expires: String(NOW.getTime() / 1000 + 3600) }],
+    ['signature', { signature: 'a'.repeat(64) }],
+  ])('rejects a tampered %s', (_field, change) => {
+    expect(() => signer.verify('PUT', { ...upload(), ...change })).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('rejects missing parameters', () => {
+    expect(() =>
+      signer.verify('PUT', { ...upload(), signature: undefined }),
+    ).toThrow(ForbiddenException);
+    expect(() => signer.verify('PUT', { ...upload(), key: '' })).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('does not accept a download URL for uploads', () => {
+    const params = paramsOf(signer.downloadUrl('docs/a.pdf', 60, {}));
+    expect(() => signer.verify('PUT', params)).toThrow(ForbiddenException);
+  });
+
+  it('rejects expired URLs', () => {
+    const params = upload();
+    jest.setSystemTime(NOW.getTime() + 59_000);
+    expect(signer.verify('PUT', params).key).toBe('docs/a.pdf');
+
+    jest.setSystemTime(NOW.getTime() + 61_000);
+    expect(() => signer.verify('PUT', params)).toThrow(
+      'Invalid or expired signature',
+    );
+  });
+
+  it('verifies URLs of other disks and rejects other secrets', () => {
+    const params = paramsOf(
+      signer.forDisk('backups').downloadUrl('db.dump', 60, {}),
+    );
+    expect(signer.verify('GET', params)).toEqual({
+      disk: 'backups',
+      key: 'db.dump',
+    });
+
+    const other = new StorageUrlSigner('http://localhost:3000', 'other');
+    expect(() => other.verify('GET', params)).toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,116 @@
+import { ForbiddenException } from '@nestjs/common';
+import {
+  DEFAULT_STORAGE_DISK,
+  type StorageDiskName,
+} from '../../config/storage.config';
+import { safeEqual } from '../../common/utils/csrf.util';
+import { hmacSha256 } from '../../common/utils/hashing.util';
+import { STORAGE_OBJECTS_ROUTE } from './storage.constants';
+import type {
+  DriverDownloadUrlOptions,
+  DriverUploadUrlOptions,
+  SignedUrlParams,
+} from './types/interfaces/storage-driver.interface';
+
+type SignedMethod = 'GET' | 'PUT';
+
+/**
+ * Issues and verifies the presigned-style URLs of the local and memory
+ * drivers. Like SigV4, the signature covers the method, disk, key, expiry
+ * and the headers the request must carry, so none of them can be changed.
+ */
+export class StorageUrlSigner {
+  private readonly endpoint: string;
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly secret: string,
+    private readonly disk: StorageDiskName = DEFAULT_STORAGE_DISK,
+  ) {
+    this.endpoint = `${baseUrl.replace(/\/+$/, '')}/${STORAGE_OBJECTS_ROUTE}`;
+  }
+
+  /**
+   * Signer issuing URLs to objects of another disk.
+   */
+  forDisk(disk: StorageDiskName): StorageUrlSigner {
+    return new StorageUrlSigner(this.baseUrl, this.secret, disk);
+  }
+
+  downloadUrl(
+    key: string,
+    ttl: number,
+    options: DriverDownloadUrlOptions,
+  ): string {
+    return this.sign('GET', key, ttl, {
+      type: options.contentType,
+      disposition: options.contentDisposition,
+    });
+  }
+
+  uploadUrl(key: string, ttl: number, options: DriverUploadUrlOptions): string {
+    return this.sign('PUT', key, ttl, {
+      type: options.contentType,
+      length: String(options.contentLength),
+    });
+  }
+
+  /**
+   * Check the signature and expiry of a request to the objects route.
+   * Returns the signed disk and key. Works for URLs of every disk.
+   */
+  verify(
+    method: SignedMethod,
+    params: SignedUrlParams,
+  ): { disk: string; key: string } {
+    const expires = Number(params.expires);
+    if (
+      !params.key ||
+      !params.signature ||
+      !Number.isInteger(expires) ||
+      expires * 1000 < Date.now() ||
+      !safeEqual(params.signature, this.signature(method, params))
+    ) {
+      throw new ForbiddenException('Invalid or expired signature');
+    }
+    return { disk: params.disk ?? DEFAULT_STORAGE_DISK, key: params.key };
+  }
+
+  private sign(
+    method: SignedMethod,
+    key: string,
+    ttl: number,
+    headers: Pick<SignedUrlParams, 'type' | 'disposition' | 'length'>,
+  ): string {
+    const params: SignedUrlParams = {
+      disk: this.disk === DEFAULT_STORAGE_DISK ? undefined : this.disk,
+      key,
+      expires: String(Math.floor(Date.now() / 1000) + ttl),
+      ...headers,
+    };
+    const query = new URLSearchParams();
+    for (const [name, value] of Object.entries(params) as [
+      string,
+      string | undefined,
+    ][]) {
+      if (value !== undefined) query.set(name, value);
+    }
+    query.set('signature', this.signature(method, params));
+    return `${this.endpoint}?${query.toString()}`;
+  }
+
+  private signature(method: SignedMethod, params: SignedUrlParams): string {
+    return hmacSha256(
+      [
+        method,
+        params.disk ?? '',
+        params.key,
+        params.expires,
+        params.type ?? '',
+        params.disposition ?? '',
+        params.length ?? '',
+      ].join('\n'),
+      this.secret,
+    );
+  }
+}
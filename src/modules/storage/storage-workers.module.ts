@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { MultipartCleanupWorker } from './multipart-cleanup.worker';
+import { FileScanWorker } from './file-scan.worker';
+import { StoredFileSweepWorker } from './stored-file-sweep.worker';
+
+/**
+ * Interval workers of the storage module, kept apart from `StorageModule` so
+ * scripts like `storage:migrate` can use storage without starting them.
+ */
+@Module({
+  providers: [MultipartCleanupWorker, FileScanWorker, StoredFileSweepWorker],
+})
+export class StorageWorkersModule {}
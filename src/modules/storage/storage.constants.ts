@@ -1 +1,68 @@
-export const S3_CLIENT = Symbol('S3_CLIENT');
+/** Injection token for the active `StorageDriver` */
+export const STORAGE_DRIVER = Symbol('STORAGE_DRIVER');
+
+/** Injection token for the `StorageUrlSigner` (`null` with the S3 driver) */
+export const STORAGE_URL_SIGNER = Symbol('STORAGE_URL_SIGNER');
+
+/** Injection token for the `FileScanner` (`null` when scanning is disabled) */
+export const FILE_SCANNER = Symbol('FILE_SCANNER');
+
+/** Default lifetime of presigned URLs and POST policies, in seconds (15 minutes) */
+export const PRESIGNED_URL_TTL = 15 * 60;
+
+/** SigV4 caps presigned URL lifetime at 7 days */
+export const PRESIGNED_URL_MAX_TTL = 7 * 24 * 60 * 60;
+
+/** S3 multipart limits: part numbers 1..10000, parts of at least 5 MiB except the last */
+export const MULTIPART_MAX_PARTS = 10_000;
+export const MULTIPART_MIN_PART_SIZE = 5 * 1024 * 1024;
+
+export const FILE_UPLOAD_OPTIONS_KEY = 'storage:file-upload';
+export const FILE_UPLOAD_DEFAULT_FIELD = 'file';
+export const FILE_UPLOAD_DEFAULT_FOLDER = 'uploads';
+
+/** Limits for the non-file form fields sent alongside an upload */
+export const FILE_UPLOAD_MAX_FIELDS = 20;
+export const FILE_UPLOAD_MAX_FIELD_SIZE = 64 * 1024;
+
+/** S3 limits: ListObjectsV2 returns at most 1000 entries, DeleteObjects takes at most 1000 keys */
+export const STORAGE_LIST_MAX_KEYS = 1000;
+export const STORAGE_DELETE_BATCH_SIZE = 1000;
+
+/** Default page size of the admin storage browser */
+export const STORAGE_BROWSE_PAGE_SIZE = 100;
+
+/** Orphaned files removed per sweep query */
+export const ORPHAN_SWEEP_BATCH_SIZE = 100;
+
+/** Route serving signed URLs of the local and memory drivers */
+export const STORAGE_OBJECTS_ROUTE = 'storage/objects';
+
+/** Uploaded types that go through the image pipeline */
+export const IMAGE_PIPELINE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+/** Folder holding the variants of every image, by file id */
+export const IMAGE_VARIANTS_FOLDER = 'variants';
+
+/** JPEG quality used when re-encoding originals without their metadata */
+export const IMAGE_ORIGINAL_JPEG_QUALITY = 90;
+
+/** Folders of the quarantine prefix: uploads waiting for a scan, infected files */
+export const SCAN_PENDING_FOLDER = 'pending';
+export const SCAN_INFECTED_FOLDER = 'infected';
+
+/** Files scanned per worker query */
+export const SCAN_BATCH_SIZE = 20;
+
+/** Seconds a worker holds a file while scanning it; failed scans are retried after it */
+export const SCAN_LEASE = 5 * 60;
+
+/** Scans tried before a file that keeps failing to scan is marked `failed` */
+export const SCAN_MAX_ATTEMPTS = 5;
+
+/** Objects copied in parallel by the storage migration command */
+export const STORAGE_MIGRATION_CONCURRENCY = 4;
+export const STORAGE_MIGRATION_MAX_CONCURRENCY = 64;
+
+/** Objects between progress logs of a storage migration */
+export const STORAGE_MIGRATION_LOG_INTERVAL = 100;
@@ -0,0 +1,48 @@
+import { type ConfigType } from '@nestjs/config';
+import { type storageConfig } from '../../config/storage.config';
+import { StorageManager } from './storage.manager';
+import { StorageService } from './storage.service';
+import { StorageUrlSigner } from './storage-url.signer';
+import { MemoryStorageDriver } from './drivers';
+
+const signer = new StorageUrlSigner('http://localhost', 's');
+
+function createStorage(disk: string): StorageService {
+  return new StorageService(
+    disk,
+    new MemoryStorageDriver(signer.forDisk(disk)),
+    { scanner: 'none' } as ConfigType<typeof storageConfig>,
+    null,
+  );
+}
+
+describe('StorageManager', () => {
+  const disks = ['default', 'acme-files'].map(createStorage);
+  const manager = new StorageManager(
+    new Map(disks.map((storage) => [storage.disk, storage])),
+    { acme: 'acme-files' },
+  );
+
+  it('returns configured disks by name', () => {
+    expect(manager.disk()).toBe(disks[0]);
+    expect(manager.disk('acme-files')).toBe(disks[1]);
+    expect(manager.has('acme-files')).toBe(true);
+    expect(manager.has('backups')).toBe(false);
+  });
+
+  it('returns the disk of a tenant, the default disk otherwise', () => {
+    expect(manager.forTenant('acme').disk).toBe('acme-files');
+    expect(manager.forTenant('globex').disk).toBe('default');
+    expect(manager.forTenant('constructor').disk).toBe('default');
+  });
+
+  it('destroys the drivers of named disks only', () => {
+    const destroyed = disks.map((storage) =>
+      jest.spyOn(storage, 'onModuleDestroy').mockImplementation(),
+    );
+
+    manager.onModuleDestroy();
+    expect(destroyed[0]).not.toHaveBeenCalled();
+    expect(destroyed[1]).toHaveBeenCalledTimes(1);
+  });
+});
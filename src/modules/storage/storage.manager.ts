@@ -0,0 +1,58 @@
+import { type OnModuleDestroy } from '@nestjs/common';
+import {
+  DEFAULT_STORAGE_DISK,
+  type StorageDiskName,
+} from '../../config/storage.config';
+import { type StorageService } from './storage.service';
+
+/**
+ * Registry of the `StorageService` of every disk, for code that works
+ * across disks or picks one at runtime.
+ */
+export class StorageManager implements OnModuleDestroy {
+  constructor(
+    private readonly disks: Map<StorageDiskName, StorageService>,
+    /** Tenant ID → disk, from `STORAGE_TENANT_DISKS` */
+    private readonly tenantDisks: Record<string, StorageDiskName> = {},
+  ) {}
+
+  /**
+   * Whether `name` is a configured disk.
+   */
+  has(name: string): boolean {
+    return this.disks.has(name);
+  }
+
+  disk(name: StorageDiskName = DEFAULT_STORAGE_DISK): StorageService {
+    return this.disks.get(name)!;
+  }
+
+  /**
+   * Disk holding the objects of a tenant: the one mapped to it in
+   * `STORAGE_TENANT_DISKS`, the default disk otherwise.
+   */
+  forTenant(tenantId: string): StorageService {
+    return this.disk(
+      Object.hasOwn(this.tenantDisks, tenantId)
+        ? this.tenantDisks[tenantId]
+        : DEFAULT_STORAGE_DISK,
+    );
+  }
+
+  /**
+   * Every disk, the default one first.
+   */
+  all(): StorageService[] {
+    return [...this.disks.values()];
+  }
+
+  /**
+   * Named disks are built at runtime, so Nest doesn't destroy their drivers;
+   * the default disk's `StorageService` is a provider and destroys its own.
+   */
+  onModuleDestroy(): void {
+    for (const [name, storage] of this.disks) {
+      if (name !== DEFAULT_STORAGE_DISK) storage.onModuleDestroy();
+    }
+  }
+}
@@ -1,30 +1,197 @@
-import { Module, Global } from '@nestjs/common';
+import { Module, Global, type DynamicModule } from '@nestjs/common';
 import { ConfigType } from '@nestjs/config';
-import { S3Client } from '@aws-sdk/client-s3';
-import { storageConfig } from '../../config/storage.config';
+import { getRepositoryToken, TypeOrmModule } from '@nestjs/typeorm';
+import { type Repository } from 'typeorm';
+import {
+  DEFAULT_STORAGE_DISK,
+  storageConfig,
+  type StorageDiskName,
+  type StorageDiskSettings,
+} from '../../config/storage.config';
+import { appConfig } from '../../config/app.config';
+import { platformConfig } from '../../config/platform.config';
 import { StorageService } from './storage.service';
-import { S3_CLIENT } from './storage.constants';
+import { StorageManager } from './storage.manager';
+import { StorageMigrationService } from './storage-migration.service';
+import { getStorageToken } from './inject-storage.decorator';
+import { StoredFile } from './stored-file.entity';
+import { StoredFileAttachment } from './stored-file-attachment.entity';
+import { StoredFilesService } from './stored-files.service';
+import { ImagePipelineService } from './image-pipeline.service';
+import { FileScanService } from './file-scan.service';
+import { StoredFilesController } from './stored-files.controller';
+import { StorageObjectsController } from './storage-objects.controller';
+import { StorageBrowserController } from './storage-browser.controller';
+import { StorageUrlSigner } from './storage-url.signer';
+import {
+  LocalStorageDriver,
+  MemoryStorageDriver,
+  S3StorageDriver,
+} from './drivers';
+import { ClamAvScanner, FakeFileScanner } from './scanners';
+import {
+  FILE_SCANNER,
+  STORAGE_DRIVER,
+  STORAGE_URL_SIGNER,
+} from './storage.constants';
+import { type StorageDriver } from './types/interfaces/storage-driver.interface';
+import { type FileScanner } from './types/interfaces/file-scanner.interface';
+
+/** Driver of a disk, built from its settings */
+const createDriver = (
+  disk: StorageDiskName,
+  settings: StorageDiskSettings,
+  signer: StorageUrlSigner | null,
+): StorageDriver => {
+  if (settings.driver === 'local') {
+    return new LocalStorageDriver(settings.localRoot, signer!.forDisk(disk));
+  }
+  if (settings.driver === 'memory') {
+    return new MemoryStorageDriver(signer!.forDisk(disk));
+  }
+  return new S3StorageDriver(settings);
+};
+
+/**
+ * Makes disks declared in `STORAGE_DISKS` injectable with `@InjectStorage(name)`
+ * in the modules importing `StorageModule.forFeature(name)`.
+ */
+@Module({})
+class StorageFeatureModule {}
 
 @Global()
 @Module({
+  imports: [TypeOrmModule.forFeature([StoredFile, StoredFileAttachment])],
+  controllers: [
+    StoredFilesController,
+    StorageObjectsController,
+    StorageBrowserController,
+  ],
   providers: [
     {
-      provide: S3_CLIENT,
+      // The local and memory drivers serve presigned URLs themselves
+      provide: STORAGE_URL_SIGNER,
+      inject: [storageConfig.KEY, appConfig.KEY, platformConfig.KEY],
+      useFactory: (
+        config: ConfigType<typeof storageConfig>,
+        app: ConfigType<typeof appConfig>,
+        platform: ConfigType<typeof platformConfig>,
+      ): StorageUrlSigner | null =>
+        Object.values(config.disks).every((disk) => disk.driver === 's3')
+          ? null
+          : new StorageUrlSigner(
+              config.localBaseUrl ?? `${platform.api}/api/${app.apiVersion}`,
+              config.urlSecret!,
+            ),
+    },
+    {
+      provide: STORAGE_DRIVER,
+      inject: [storageConfig.KEY, STORAGE_URL_SIGNER],
+      useFactory: (
+        config: ConfigType<typeof storageConfig>,
+        signer: StorageUrlSigner | null,
+      ): StorageDriver =>
+        createDriver(
+          DEFAULT_STORAGE_DISK,
+          config.disks[DEFAULT_STORAGE_DISK],
+          signer,
+        ),
+    },
+    {
+      // Only the default disk tracks `StoredFile` records
+      provide: StorageService,
+      inject: [
+        STORAGE_DRIVER,
+        storageConfig.KEY,
+        getRepositoryToken(StoredFile),
+      ],
+      useFactory: (
+        driver: StorageDriver,
+        config: ConfigType<typeof storageConfig>,
+        storedFiles: Repository<StoredFile>,
+      ) =>
+        new StorageService(DEFAULT_STORAGE_DISK, driver, config, storedFiles),
+    },
+    {
+      // `STORAGE_DISKS` is only known once the env is loaded, so the named
+      // disks are built here rather than registered as providers
+      provide: StorageManager,
+      inject: [StorageService, storageConfig.KEY, STORAGE_URL_SIGNER],
+      useFactory: (
+        storage: StorageService,
+        config: ConfigType<typeof storageConfig>,
+        signer: StorageUrlSigner | null,
+      ) =>
+        new StorageManager(
+          new Map(
+            Object.entries(config.disks).map(([disk, settings]) => [
+              disk,
+              disk === DEFAULT_STORAGE_DISK
+                ? storage
+                : new StorageService(
+                    disk,
+                    createDriver(disk, settings, signer),
+                    config,
+                    null,
+                  ),
+            ]),
+          ),
+          config.tenantDisks,
+        ),
+    },
+    {
+      provide: FILE_SCANNER,
       inject: [storageConfig.KEY],
-      useFactory: (config: ConfigType<typeof storageConfig>): S3Client => {
-        return new S3Client({
-          endpoint: config.endpoint,
-          region: config.region,
-          credentials: {
-            accessKeyId: config.accessKeyId!,
-            secretAccessKey: config.secretAccessKey!,
-          },
-          forcePathStyle: config.provider === 'minio', 
-        });
+      useFactory: (
+        config: ConfigType<typeof storageConfig>,
+      ): FileScanner | null => {
+        if (config.scanner === 'clamav') {
+          return new ClamAvScanner(
+            config.clamavSocket,
+            config.scanTimeout * 1000,
+          );
+        }
+        if (config.scanner === 'fake') {
+          return new FakeFileScanner();
+        }
+        return null;
       },
     },
+    StoredFilesService,
+    ImagePipelineService,
+    FileScanService,
+    StorageMigrationService,
+  ],
+  exports: [
     StorageService,
+    StorageManager,
+    StoredFilesService,
+    ImagePipelineService,
+    FileScanService,
+    StorageMigrationService,
+    STORAGE_DRIVER,
   ],
-  exports: [StorageService, S3_CLIENT],
 })
-export class StorageModule {}
+export class StorageModule {
+  /**
+   * Provide the `StorageService` of named disks to `@InjectStorage(name)`.
+   * Boot fails when a disk isn't declared in `STORAGE_DISKS`.
+   */
+  static forFeature(...disks: StorageDiskName[]): DynamicModule {
+    const providers = disks.map((disk) => ({
+      provide: getStorageToken(disk),
+      inject: [StorageManager],
+      useFactory: (manager: StorageManager) => {
+        if (!manager.has(disk)) {
+          throw new Error(`Storage disk "${disk}" is not configured`);
+        }
+        return manager.disk(disk);
+      },
+    }));
+    return {
+      module: StorageFeatureModule,
+      providers,
+      exports: providers.map((provider) => provider.provide),
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import { ForbiddenException, PayloadTooLargeException } from '@nestjs/common';
+import { type ConfigType } from '@nestjs/config';
+import { type storageConfig } from '../../config/storage.config';
+import { StorageService } from './storage.service';
+import { StorageUrlSigner } from './storage-url.signer';
+import { MemoryStorageDriver, S3StorageDriver } from './drivers';
+
+function createStorage(scanner: 'none' | 'fake'): StorageService {
+  return new StorageService(
+    'default',
+    new MemoryStorageDriver(new StorageUrlSigner('http://localhost', 's')),
+    { scanner } as ConfigType<typeof storageConfig>,
+    null,
+  );
+}
+
+const upload = {
+  key: 'docs/a.pdf',
+  contentType: 'application/pdf',
+  contentLength: 42,
+};
+
+describe('StorageService', () => {
+  describe('client uploads', () => {
+    it('presigns PUT uploads without a scanner', async () => {
+      const storage = createStorage('none');
+
+      expect(storage.clientUploadsEnabled).toBe(true);
+      expect(await storage.getPresignedUploadUrl(upload)).toMatchObject({
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Length': '42',
+        },
+      });
+    });
+
+    it('refuses them while a scanner is configured', async () => {
+      const storage = createStorage('fake');
+
+      expect(storage.clientUploadsEnabled).toBe(false);
+      await expect(storage.getPresignedUploadUrl(upload)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('still accepts server-side uploads while a scanner is configured', async () => {
+      const storage = createStorage('fake');
+
+      await storage.upload({
+        key: 'docs/a.txt',
+        body: 'hello',
+        contentType: 'text/plain',
+      });
+      expect(await storage.exists('docs/a.txt')).toMatchObject({ size: 5 });
+    });
+  });
+
+  describe('completeMultipart', () => {
+    let driver: S3StorageDriver;
+    let storage: StorageService;
+    let complete: jest.SpyInstance;
+    let abort: jest.SpyInstance;
+    let remove: jest.SpyInstance;
+    const parts = [{ partNumber: 1, etag: '"a"' }];
+
+    beforeEach(() => {
+      driver = new S3StorageDriver({
+        driver: 's3',
+        provider: 'aws',
+        bucket: 'uploads',
+        region: 'us-east-1',
+        accessKeyId: 'key',
+        secretAccessKey: 'secret',
+        localRoot: '',
+      });
+      storage = new StorageService(
+        'default',
+        driver,
+        { scanner: 'none' } as ConfigType<typeof storageConfig>,
+        null,
+      );
+      jest
+        .spyOn(driver, 'listParts')
+        .mockResolvedValue([{ partNumber: 1, etag: '"a"', size: 10 }]);
+      complete = jest
+        .spyOn(driver, 'completeMultipart')
+        .mockResolvedValue(undefined);
+      abort = jest.spyOn(driver, 'abortMultipart').mockResolvedValue(undefined);
+      remove = jest.spyOn(driver, 'delete').mockResolvedValue(undefined);
+    });
+
+    it('aborts before completing when the listed parts are too large', async () => {
+      await expect(
+        storage.completeMultipart('big.bin', 'u1', parts, { maxSize: 5 }),
+      ).rejects.toThrow(PayloadTooLargeException);
+      expect(abort).toHaveBeenCalledWith('big.bin', 'u1');
+      expect(complete).not.toHaveBeenCalled();
+    });
+
+    it('deletes the assembled object when a part was swapped for a larger one', async () => {
+      jest
+        .spyOn(driver, 'head')
+        .mockResolvedValue({ key: 'big.bin', size: 50 });
+
+      await expect(
+        storage.completeMultipart('big.bin', 'u1', parts, { maxSize: 20 }),
+      ).rejects.toThrow(PayloadTooLargeException);
+      expect(complete).toHaveBeenCalled();
+      expect(remove).toHaveBeenCalledWith('big.bin');
+    });
+
+    it('keeps objects within the limit', async () => {
+      jest
+        .spyOn(driver, 'head')
+        .mockResolvedValue({ key: 'big.bin', size: 10 });
+
+      await expect(
+        storage.completeMultipart('big.bin', 'u1', parts, { maxSize: 20 }),
+      ).resolves.toBe('big.bin');
+      expect(remove).not.toHaveBeenCalled();
+    });
+  });
+});
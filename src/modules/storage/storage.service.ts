@@ -1,124 +1,287 @@
-import { Injectable, OnModuleDestroy, Logger, Inject } from '@nestjs/common';
 import {
-    S3Client,
-    PutObjectCommand,
-    GetObjectCommand,
-    DeleteObjectCommand,
-    HeadObjectCommand,
-    ListObjectsV2Command,
-    CopyObjectCommand,
-} from '@aws-sdk/client-s3';
-import { type Readable } from 'stream';
-import { storageConfig } from '../../config/storage.config';
+  OnModuleDestroy,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  NotImplementedException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { type S3Client } from '@aws-sdk/client-s3';
+import { In, type Repository } from 'typeorm';
+import { Readable } from 'stream';
+import {
+  type storageConfig,
+  type StorageDiskName,
+} from '../../config/storage.config';
 import { type ConfigType } from '@nestjs/config';
-import { S3_CLIENT } from './storage.constants';
+import {
+  ALLOWED_FILE_TYPES,
+  MAX_FILE_SIZE,
+} from '../../common/constants/storage.constant';
+import { buildContentDisposition } from '../../common/utils/storage.util';
+import { addSeconds } from '../../common/utils/date.util';
+import {
+  PRESIGNED_URL_TTL,
+  PRESIGNED_URL_MAX_TTL,
+  MULTIPART_MAX_PARTS,
+  MULTIPART_MIN_PART_SIZE,
+  STORAGE_LIST_MAX_KEYS,
+  STORAGE_DELETE_BATCH_SIZE,
+} from './storage.constants';
+import { S3StorageDriver } from './drivers/s3.driver';
 import { type UploadOptions } from './types/interfaces/storage-upload-options.interface';
 import { type StorageObject } from './types/interfaces/storage-object.interface';
+import {
+  type ListPageOptions,
+  type StorageListPage,
+  type DeleteManyResult,
+} from './types/interfaces/storage-list.interface';
+import {
+  type StorageDriver,
+  type StorageDriverName,
+} from './types/interfaces/storage-driver.interface';
+import {
+  type PresignedDownloadOptions,
+  type PresignedUploadOptions,
+  type PresignedUpload,
+  type PresignedPostOptions,
+  type PresignedPost,
+} from './types/interfaces/storage-presign.interface';
+import {
+  type MultipartInitOptions,
+  type MultipartUpload,
+  type PresignedPart,
+  type CompletedPart,
+  type UploadedPart,
+  type IncompleteUpload,
+  type CompleteMultipartOptions,
+  type StreamUploadOptions,
+} from './types/interfaces/storage-multipart.interface';
+import { StoredFile } from './stored-file.entity';
+import { listImageVariantKeys } from './image-variants.definitions';
 
 /**
- * Injectable storage service wrapping @aws-sdk/client-s3.
- * Works with S3, MinIO, and any S3-compatible provider.
+ * Storage service of one disk, on top of its `StorageDriver` (S3/MinIO,
+ * local filesystem or memory). Inject the default disk as `StorageService`
+ * and named disks with `@InjectStorage(name)`.
+ * Presigned POST policies and client-driven multipart uploads need the
+ * S3 driver. On the default disk, `delete` and `move` keep the matching
+ * `StoredFile` record, if any, in sync.
+ * While a malware scanner is configured, uploads straight from clients
+ * (presigned PUT/POST, client-driven multipart) are refused: they would skip
+ * the quarantine of `StoredFilesService.upload`.
  */
-@Injectable()
 export class StorageService implements OnModuleDestroy {
-  private readonly logger = new Logger(StorageService.name);
-  private readonly bucket: string;
+  private readonly logger: Logger;
 
   constructor(
-    @Inject(S3_CLIENT) private readonly client: S3Client,
-    @Inject(storageConfig.KEY)
+    readonly disk: StorageDiskName,
+    private readonly driver: StorageDriver,
     private readonly config: ConfigType<typeof storageConfig>,
+    /** `null` on named disks, which don't track files */
+    private readonly storedFiles: Repository<StoredFile> | null,
   ) {
-    this.bucket = this.config.bucket!;
+    this.logger = new Logger(`${StorageService.name}:${disk}`);
+  }
+
+  /**
+   * Name of the active driver.
+   */
+  get driverName(): StorageDriverName {
+    return this.driver.name;
   }
 
   /**
-   * Upload a file to storage.
+   * Whether clients may upload straight to storage. False while
+   * `STORAGE_SCANNER` is set.
+   */
+  get clientUploadsEnabled(): boolean {
+    return this.config.scanner === 'none';
+  }
+
+  /**
+   * Throw `ForbiddenException` unless `clientUploadsEnabled`.
+   */
+  assertClientUploadsEnabled(): void {
+    if (!this.clientUploadsEnabled) {
+      throw new ForbiddenException(
+        'Direct uploads are disabled while malware scanning is enabled',
+      );
+    }
+  }
+
+  /**
+   * Upload a file to storage. Readable bodies have no known length, so they
+   * are streamed through `uploadStream` instead of a single PutObject.
    */
   async upload(options: UploadOptions): Promise<string> {
-    await this.client.send(
-      new PutObjectCommand({
-        Bucket: this.bucket,
-        Key: options.key,
-        Body: options.body,
-        ContentType: options.contentType,
-        Metadata: options.metadata,
-      }),
-    );
+    if (options.body instanceof Readable) {
+      return this.uploadStream({ ...options, body: options.body });
+    }
+
+    await this.driver.put(options.key, options.body, {
+      contentType: options.contentType,
+      metadata: options.metadata,
+    });
     return options.key;
   }
 
   /**
-   * Download a file as a readable stream.
+   * Download a file as a readable stream. Throws `NotFoundException` when
+   * the object doesn't exist.
    */
   async download(key: string): Promise<Readable> {
-    const response = await this.client.send(
-      new GetObjectCommand({ Bucket: this.bucket, Key: key }),
-    );
-    return response.Body as Readable;
+    return this.driver.get(key);
   }
 
   /**
-   * Delete a single object by key.
+   * Delete a single object by key, with the variants of its `StoredFile`.
    */
   async delete(key: string): Promise<void> {
-    await this.client.send(
-      new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
-    );
+    await this.deleteObject(key);
+
+    const file = await this.storedFiles?.findOneBy({ key });
+    if (!file) return;
+    for (const variantKey of listImageVariantKeys(file)) {
+      await this.deleteObject(variantKey);
+    }
+    await this.storedFiles!.delete({ id: file.id });
+  }
+
+  /**
+   * Delete many objects with batched DeleteObjects requests, with the
+   * variants and records of their `StoredFile`s. Keys that fail are
+   * reported in `errors` rather than thrown.
+   */
+  async deleteMany(keys: string[]): Promise<DeleteManyResult> {
+    const result: DeleteManyResult = { deleted: 0, errors: [] };
+    const unique = [...new Set(keys)];
+
+    for (let i = 0; i < unique.length; i += STORAGE_DELETE_BATCH_SIZE) {
+      const batch = unique.slice(i, i + STORAGE_DELETE_BATCH_SIZE);
+      const files = (await this.storedFiles?.findBy({ key: In(batch) })) ?? [];
+
+      const errors = await this.driver.deleteMany(batch);
+      result.deleted += batch.length - errors.length;
+      result.errors.push(...errors);
+
+      const failed = new Set(errors.map((error) => error.key));
+      const deletedFiles = files.filter((file) => !failed.has(file.key));
+      if (!deletedFiles.length) continue;
+
+      const variantKeys = deletedFiles.flatMap(listImageVariantKeys);
+      for (let j = 0; j < variantKeys.length; j += STORAGE_DELETE_BATCH_SIZE) {
+        const variantErrors = await this.driver.deleteMany(
+          variantKeys.slice(j, j + STORAGE_DELETE_BATCH_SIZE),
+        );
+        variantErrors.forEach((error) =>
+          this.logger.warn(
+            `Failed to delete image variant ${error.key}: ${error.message}`,
+          ),
+        );
+      }
+      await this.storedFiles!.delete({
+        id: In(deletedFiles.map((file) => file.id)),
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Delete every object whose key starts with `prefix`, as `deleteMany`.
+   * The prefix can't be empty, so the whole bucket is never wiped by mistake.
+   */
+  async deletePrefix(prefix: string): Promise<DeleteManyResult> {
+    if (!prefix) {
+      throw new BadRequestException('A prefix is required');
+    }
+
+    const result: DeleteManyResult = { deleted: 0, errors: [] };
+    let batch: string[] = [];
+    const flush = async () => {
+      const { deleted, errors } = await this.deleteMany(batch);
+      result.deleted += deleted;
+      result.errors.push(...errors);
+      batch = [];
+    };
+
+    for await (const object of this.listAll(prefix)) {
+      batch.push(object.key);
+      if (batch.length === STORAGE_DELETE_BATCH_SIZE) await flush();
+    }
+    if (batch.length) await flush();
+    return result;
   }
 
   /**
    * Check if an object exists. Returns metadata if found, null otherwise.
    */
   async exists(key: string): Promise<StorageObject | null> {
-    try {
-      const response = await this.client.send(
-        new HeadObjectCommand({ Bucket: this.bucket, Key: key }),
-      );
-      return {
-        key,
-        size: response.ContentLength,
-        lastModified: response.LastModified,
-        contentType: response.ContentType,
-      };
-    } catch {
-      return null;
+    return this.driver.head(key);
+  }
+
+  /**
+   * List up to `maxKeys` objects under a given prefix, following as many
+   * pages as needed. Use `listAll` to stream large prefixes instead.
+   */
+  async list(prefix: string, maxKeys: number = 1000): Promise<StorageObject[]> {
+    const objects: StorageObject[] = [];
+    if (maxKeys < 1) return objects;
+
+    for await (const object of this.listAll(prefix)) {
+      objects.push(object);
+      if (objects.length >= maxKeys) break;
     }
+    return objects;
   }
 
   /**
-   * List objects under a given prefix.
+   * List one page of objects under a prefix. With a `delimiter` (usually
+   * `/`), keys are grouped into `folders` one level below the prefix. Pass
+   * `nextCursor` back as `cursor` for the next page.
    */
-  async list(
+  async listPage(
     prefix: string,
-    maxKeys: number = 1000,
-  ): Promise<StorageObject[]> {
-    const response = await this.client.send(
-      new ListObjectsV2Command({
-        Bucket: this.bucket,
-        Prefix: prefix,
-        MaxKeys: maxKeys,
-      }),
-    );
+    options: ListPageOptions = {},
+  ): Promise<StorageListPage> {
+    const limit = options.limit ?? STORAGE_LIST_MAX_KEYS;
+    if (
+      !Number.isInteger(limit) ||
+      limit < 1 ||
+      limit > STORAGE_LIST_MAX_KEYS
+    ) {
+      throw new BadRequestException(
+        `List limit must be between 1 and ${STORAGE_LIST_MAX_KEYS}`,
+      );
+    }
+    return this.driver.listPage(prefix, { ...options, limit });
+  }
 
-    return (response.Contents ?? []).map((item) => ({
-      key: item.Key!,
-      size: item.Size,
-      lastModified: item.LastModified,
-    }));
+  /**
+   * Iterate over every object under a prefix, fetching pages as they are
+   * consumed.
+   *
+   * @example
+   * for await (const object of storage.listAll('exports/')) { ... }
+   */
+  async *listAll(prefix: string): AsyncGenerator<StorageObject> {
+    let cursor: string | undefined;
+    do {
+      const page = await this.driver.listPage(prefix, {
+        cursor,
+        limit: STORAGE_LIST_MAX_KEYS,
+      });
+      yield* page.objects;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
   }
 
   /**
    * Copy an object within the same bucket.
    */
   async copy(sourceKey: string, destinationKey: string): Promise<string> {
-    await this.client.send(
-      new CopyObjectCommand({
-        Bucket: this.bucket,
-        CopySource: `${this.bucket}/${sourceKey}`,
-        Key: destinationKey,
-      }),
-    );
+    await this.driver.copy(sourceKey, destinationKey);
     return destinationKey;
   }
 
@@ -127,19 +290,362 @@ export class StorageService implements OnModuleDestroy {
    */
   async move(sourceKey: string, destinationKey: string): Promise<string> {
     await this.copy(sourceKey, destinationKey);
+    await this.storedFiles?.update({ key: sourceKey }, { key: destinationKey });
+    await this.deleteObject(sourceKey);
+    return destinationKey;
+  }
+
+  /**
+   * Copy an object to another disk. Server-side when both disks are S3
+   * buckets behind the same endpoint and credentials, streamed through the
+   * app otherwise (keeping the Content-Type).
+   */
+  async copyTo(
+    target: StorageService,
+    sourceKey: string,
+    destinationKey: string = sourceKey,
+  ): Promise<string> {
+    if (target === this) return this.copy(sourceKey, destinationKey);
+
+    if (
+      this.driver instanceof S3StorageDriver &&
+      target.driver instanceof S3StorageDriver &&
+      target.driver.canCopyFrom(this.driver)
+    ) {
+      await target.driver.copyFrom(this.driver, sourceKey, destinationKey);
+      return destinationKey;
+    }
+
+    const object = await this.exists(sourceKey);
+    if (!object) {
+      throw new NotFoundException('Object not found');
+    }
+    return target.uploadStream({
+      key: destinationKey,
+      body: await this.download(sourceKey),
+      contentType: object.contentType,
+    });
+  }
+
+  /**
+   * Move an object to another disk (`copyTo` + `delete`). Files are only
+   * tracked on the default disk, so a `StoredFile` moved off it loses its
+   * record.
+   */
+  async moveTo(
+    target: StorageService,
+    sourceKey: string,
+    destinationKey: string = sourceKey,
+  ): Promise<string> {
+    if (target === this) return this.move(sourceKey, destinationKey);
+
+    await this.copyTo(target, sourceKey, destinationKey);
     await this.delete(sourceKey);
     return destinationKey;
   }
 
   /**
-   * Get the underlying S3Client for advanced operations.
+   * Generate a time-limited GET URL so clients download straight from the
+   * bucket (or from the signed objects route with the local and memory drivers).
+   */
+  async getPresignedDownloadUrl(
+    key: string,
+    ttl: number = PRESIGNED_URL_TTL,
+    options: PresignedDownloadOptions = {},
+  ): Promise<string> {
+    const disposition = options.filename
+      ? buildContentDisposition(options.filename, options.contentDisposition)
+      : options.contentDisposition;
+
+    return this.driver.getDownloadUrl(key, this.assertTtl(ttl), {
+      contentDisposition: disposition,
+      contentType: options.contentType,
+    });
+  }
+
+  /**
+   * Generate a time-limited PUT URL. Content-Type and Content-Length are
+   * signed, so the client must send exactly the returned headers.
+   */
+  async getPresignedUploadUrl(
+    options: PresignedUploadOptions,
+  ): Promise<PresignedUpload> {
+    this.assertClientUploadsEnabled();
+    const ttl = this.assertTtl(options.ttl ?? PRESIGNED_URL_TTL);
+    this.assertContentType(options.contentType, options.allowedTypes);
+    this.assertContentLength(options.contentLength, options.maxSize);
+
+    const headers: Record<string, string> = {
+      'Content-Type': options.contentType,
+      'Content-Length': String(options.contentLength),
+    };
+
+    const url = await this.driver.getUploadUrl(options.key, ttl, {
+      contentType: options.contentType,
+      contentLength: options.contentLength,
+    });
+
+    return {
+      url,
+      method: 'PUT',
+      headers,
+      expiresAt: addSeconds(new Date(), ttl),
+    };
+  }
+
+  /**
+   * Generate a presigned POST policy for browser form uploads. The policy pins
+   * the key and Content-Type and caps the body at `maxSize` bytes. S3 only.
+   */
+  async createPresignedPost(
+    options: PresignedPostOptions,
+  ): Promise<PresignedPost> {
+    const s3 = this.s3('Presigned POST');
+    this.assertClientUploadsEnabled();
+    const ttl = this.assertTtl(options.ttl ?? PRESIGNED_URL_TTL);
+    this.assertContentType(options.contentType, options.allowedTypes);
+
+    const { url, fields } = await s3.createPresignedPost(
+      options.key,
+      ttl,
+      options.contentType,
+      options.maxSize ?? MAX_FILE_SIZE,
+    );
+
+    return { url, fields, expiresAt: addSeconds(new Date(), ttl) };
+  }
+
+  /**
+   * Stream a body of unknown length to storage. On S3 it is sent as a
+   * multipart upload, buffering only `partSize * concurrency` bytes at a time.
+   */
+  async uploadStream(options: StreamUploadOptions): Promise<string> {
+    const partSize = options.partSize ?? this.config.multipartPartSize;
+    if (partSize < MULTIPART_MIN_PART_SIZE) {
+      throw new BadRequestException(
+        `Part size must be at least ${MULTIPART_MIN_PART_SIZE} bytes`,
+      );
+    }
+
+    await this.driver.put(options.key, options.body, {
+      contentType: options.contentType,
+      metadata: options.metadata,
+      partSize,
+      concurrency: options.concurrency ?? this.config.multipartConcurrency,
+      onProgress: options.onProgress,
+    });
+    return options.key;
+  }
+
+  /**
+   * Start a client-driven multipart upload. Pair with `getPresignedPartUrls`,
+   * then `completeMultipart` or `abortMultipart`. S3 only.
+   */
+  async initiateMultipart(
+    options: MultipartInitOptions,
+  ): Promise<MultipartUpload> {
+    const s3 = this.s3('Multipart uploads');
+    this.assertClientUploadsEnabled();
+    this.assertContentType(options.contentType, options.allowedTypes);
+
+    const uploadId = await s3.initiateMultipart(
+      options.key,
+      options.contentType,
+      options.metadata,
+    );
+    return { key: options.key, uploadId };
+  }
+
+  /**
+   * Presign PUT URLs for the given part numbers (1-10000). Clients must keep
+   * the `ETag` response header of each part for `completeMultipart`.
+   */
+  async getPresignedPartUrls(
+    key: string,
+    uploadId: string,
+    partNumbers: number[],
+    ttl: number = PRESIGNED_URL_TTL,
+  ): Promise<PresignedPart[]> {
+    const s3 = this.s3('Multipart uploads');
+    this.assertClientUploadsEnabled();
+    const expiresIn = this.assertTtl(ttl);
+    partNumbers.forEach((partNumber) => this.assertPartNumber(partNumber));
+
+    return Promise.all(
+      partNumbers.map(async (partNumber) => ({
+        partNumber,
+        url: await s3.getPartUrl(key, uploadId, partNumber, expiresIn),
+      })),
+    );
+  }
+
+  /**
+   * List the parts already stored for an upload, so interrupted uploads can
+   * resume with the missing part numbers only.
+   */
+  async listParts(key: string, uploadId: string): Promise<UploadedPart[]> {
+    return this.s3('Multipart uploads').listParts(key, uploadId);
+  }
+
+  /**
+   * Assemble the uploaded parts into the final object.
+   */
+  async completeMultipart(
+    key: string,
+    uploadId: string,
+    parts: CompletedPart[],
+    options: CompleteMultipartOptions = {},
+  ): Promise<string> {
+    const s3 = this.s3('Multipart uploads');
+    this.assertClientUploadsEnabled();
+    if (!parts.length) {
+      throw new BadRequestException('At least one part is required');
+    }
+    parts.forEach((part) => this.assertPartNumber(part.partNumber));
+
+    // Fast path only: a part can still be replaced before completion
+    if (options.maxSize !== undefined) {
+      const uploaded = await this.listParts(key, uploadId);
+      const size = uploaded.reduce((sum, part) => sum + (part.size ?? 0), 0);
+      if (size > options.maxSize) {
+        await this.abortMultipart(key, uploadId);
+        throw this.tooLarge(size, options.maxSize);
+      }
+    }
+
+    await s3.completeMultipart(key, uploadId, parts);
+
+    if (options.maxSize !== undefined) {
+      const size = (await this.exists(key))?.size ?? 0;
+      if (size > options.maxSize) {
+        await this.delete(key);
+        throw this.tooLarge(size, options.maxSize);
+      }
+    }
+    return key;
+  }
+
+  /**
+   * Abort a multipart upload and free the storage held by its parts.
+   */
+  async abortMultipart(key: string, uploadId: string): Promise<void> {
+    await this.s3('Multipart uploads').abortMultipart(key, uploadId);
+  }
+
+  /**
+   * List multipart uploads that were started but never completed or aborted.
+   * Always empty with drivers other than S3, which can't start them.
+   */
+  async listMultipartUploads(prefix?: string): Promise<IncompleteUpload[]> {
+    if (!(this.driver instanceof S3StorageDriver)) return [];
+    return this.driver.listMultipartUploads(prefix);
+  }
+
+  /**
+   * Abort incomplete multipart uploads initiated more than `maxAge` seconds
+   * ago. Returns the number of uploads aborted.
+   */
+  async abortStaleMultipartUploads(
+    maxAge: number,
+    prefix?: string,
+  ): Promise<number> {
+    const cutoff = Date.now() - maxAge * 1000;
+    const stale = (await this.listMultipartUploads(prefix)).filter(
+      (upload) => upload.initiated && upload.initiated.getTime() < cutoff,
+    );
+
+    let aborted = 0;
+    for (const upload of stale) {
+      try {
+        await this.abortMultipart(upload.key, upload.uploadId);
+        aborted++;
+      } catch (error) {
+        this.logger.warn(
+          `Failed to abort multipart upload ${upload.uploadId} for ${upload.key}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    return aborted;
+  }
+
+  /**
+   * Check that the storage backend is reachable. Throws otherwise.
+   */
+  async ping(): Promise<void> {
+    await this.driver.ping();
+  }
+
+  /**
+   * Get the underlying S3Client for advanced operations. S3 only.
    */
   getClient(): S3Client {
-    return this.client;
+    return this.s3('getClient()').client;
+  }
+
+  onModuleDestroy(): void {
+    this.logger.log(`Destroying ${this.driver.name} storage driver`);
+    this.driver.destroy();
+  }
+
+  private async deleteObject(key: string): Promise<void> {
+    await this.driver.delete(key);
   }
 
-  async onModuleDestroy(): Promise<void> {
-    this.logger.log('Destroying S3 client');
-    this.client.destroy();
+  private s3(feature: string): S3StorageDriver {
+    if (!(this.driver instanceof S3StorageDriver)) {
+      throw new NotImplementedException(
+        `${feature} requires the s3 storage driver`,
+      );
+    }
+    return this.driver;
+  }
+
+  private assertTtl(ttl: number): number {
+    if (!Number.isInteger(ttl) || ttl < 1 || ttl > PRESIGNED_URL_MAX_TTL) {
+      throw new BadRequestException(
+        `Presigned URL lifetime must be between 1 and ${PRESIGNED_URL_MAX_TTL} seconds`,
+      );
+    }
+    return ttl;
+  }
+
+  private assertPartNumber(partNumber: number): void {
+    if (
+      !Number.isInteger(partNumber) ||
+      partNumber < 1 ||
+      partNumber > MULTIPART_MAX_PARTS
+    ) {
+      throw new BadRequestException(
+        `Part number must be between 1 and ${MULTIPART_MAX_PARTS}`,
+      );
+    }
+  }
+
+  private assertContentType(
+    contentType: string,
+    allowedTypes: string[] = ALLOWED_FILE_TYPES,
+  ): void {
+    if (!allowedTypes.includes(contentType)) {
+      throw new BadRequestException(
+        `File type "${contentType}" is not allowed`,
+      );
+    }
+  }
+
+  private assertContentLength(
+    size: number,
+    maxSize: number = MAX_FILE_SIZE,
+  ): void {
+    if (!Number.isInteger(size) || size < 1 || size > maxSize) {
+      throw new BadRequestException(
+        `File size must be between 1 and ${maxSize} bytes`,
+      );
+    }
+  }
+
+  private tooLarge(size: number, maxSize: number): PayloadTooLargeException {
+    return new PayloadTooLargeException(
+      `File size ${size} exceeds max allowed ${maxSize} bytes`,
+    );
   }
 }
@@ -0,0 +1,39 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { StoredFile } from './stored-file.entity';
+
+/**
+ * Reference from any entity (`entityType` + `entityId`) to a stored file.
+ * A file stays committed for as long as it has at least one attachment.
+ */
+@Entity('stored_file_attachments')
+@Index(['fileId', 'entityType', 'entityId'], { unique: true })
+@Index(['entityType', 'entityId'])
+export class StoredFileAttachment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  fileId: string;
+
+  @ManyToOne(() => StoredFile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'fileId' })
+  file: StoredFile;
+
+  /** e.g. `User`, `Product` */
+  @Column({ length: 64 })
+  entityType: string;
+
+  @Column({ length: 64 })
+  entityId: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,70 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { type ConfigType } from '@nestjs/config';
+import { storageConfig } from '../../config/storage.config';
+import { StoredFilesService } from './stored-files.service';
+import { ORPHAN_SWEEP_BATCH_SIZE } from './storage.constants';
+
+/**
+ * Every `STORAGE_ORPHAN_SWEEP_INTERVAL` seconds, deletes stored files that
+ * were never attached, or lost their last attachment, more than
+ * `STORAGE_ORPHAN_GRACE_PERIOD` seconds ago.
+ */
+@Injectable()
+export class StoredFileSweepWorker
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(StoredFileSweepWorker.name);
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+
+  constructor(
+    private readonly storedFiles: StoredFilesService,
+    @Inject(storageConfig.KEY)
+    private readonly config: ConfigType<typeof storageConfig>,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    if (!this.config.orphanSweepEnabled) return;
+
+    this.timer = setInterval(() => {
+      this.running ??= this.sweep().finally(() => {
+        this.running = undefined;
+      });
+    }, this.config.orphanSweepInterval * 1000);
+    this.timer.unref();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    await this.running;
+  }
+
+  private async sweep(): Promise<void> {
+    try {
+      let total = 0;
+      let removed: number;
+      do {
+        removed = await this.storedFiles.sweepOrphans(
+          this.config.orphanGracePeriod,
+        );
+        total += removed;
+      } while (removed >= ORPHAN_SWEEP_BATCH_SIZE && this.timer);
+
+      if (total) {
+        this.logger.log(`Removed ${total} orphaned file(s)`);
+      }
+    } catch (error) {
+      this.logger.error(
+        'Orphaned file sweep failed',
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../users/users.entity';
+import { StoredFileStatus } from './types/enums/stored-file-status.enum';
+import { FileVisibility } from './types/enums/file-visibility.enum';
+import { FileScanStatus } from './types/enums/file-scan-status.enum';
+
+/**
+ * Database record of an object in the bucket. Created as `pending` by
+ * `StoredFilesService.upload`, committed when attached to an entity, and
+ * kept in sync by `StorageService.delete` / `move`. Files left without
+ * attachments past the grace period are removed by `StoredFileSweepWorker`.
+ * With a scanner configured, files sit under the quarantine prefix until
+ * `FileScanWorker` scans them.
+ */
+@Entity('stored_files')
+@Index(['orphanedAt'])
+@Index(['scanStatus', 'nextScanAt'])
+export class StoredFile {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ unique: true, length: 512 })
+  key: string;
+
+  /** Filename sent by the client — display only */
+  @Column({ type: 'varchar', nullable: true })
+  originalName: string | null;
+
+  @Column({
+    type: 'bigint',
+    default: 0,
+    transformer: { to: (value: number) => value, from: Number },
+  })
+  size: number;
+
+  @Column()
+  contentType: string;
+
+  /** Hex SHA-256 of the content */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  checksum: string | null;
+
+  /** Pixel dimensions, for images processed by `ImagePipelineService` */
+  @Column({ type: 'int', nullable: true })
+  width: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  height: number | null;
+
+  /** Names of the image variants generated so far */
+  @Column({ type: 'simple-array', nullable: true })
+  variants: string[] | null;
+
+  @Column({
+    type: 'enum',
+    enum: StoredFileStatus,
+    default: StoredFileStatus.PENDING,
+  })
+  status: StoredFileStatus;
+
+  @Column({
+    type: 'enum',
+    enum: FileVisibility,
+    default: FileVisibility.PRIVATE,
+  })
+  visibility: FileVisibility;
+
+  /** Only `clean` and `skipped` files can be downloaded */
+  @Column({
+    type: 'enum',
+    enum: FileScanStatus,
+    default: FileScanStatus.SKIPPED,
+  })
+  scanStatus: FileScanStatus;
+
+  /** Threat reported by the scanner for infected files */
+  @Column({ type: 'varchar', nullable: true })
+  threat: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  scannedAt: Date | null;
+
+  /** When a pending file is next due for a scan (also the worker lease) */
+  @Column({ type: 'timestamp', nullable: true })
+  nextScanAt: Date | null;
+
+  /** Scans started so far, capped by `SCAN_MAX_ATTEMPTS` */
+  @Column({ type: 'int', default: 0 })
+  scanAttempts: number;
+
+  @Column({ type: 'varchar', nullable: true })
+  ownerId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'ownerId' })
+  owner: User | null;
+
+  /** When the file last lost (or never had) an attachment; null while attached */
+  @Column({ type: 'timestamp', nullable: true })
+  orphanedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,99 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { Pagination } from '../../common/decorators/pagination.decorator';
+import { ParseUUIDPipe } from '../../common/pipes/parse-uuid.pipe';
+import type { AuthUser } from '../../common/interfaces/auth.interface';
+import type { PaginationOptions } from '../../common/interfaces/pagination.interface';
+import { FileUpload, UploadResult } from './file-upload.decorator';
+import { StoredFilesService } from './stored-files.service';
+import { UpdateStoredFileDto } from './dto/update-stored-file.dto';
+import { type FileUploadResult } from './types/interfaces/file-upload.interface';
+
+@ApiTags('Files')
+@ApiBearerAuth('session-auth')
+@Controller('files')
+export class StoredFilesController {
+  constructor(private readonly storedFiles: StoredFilesService) {}
+
+  /**
+   * Upload a file. It stays pending until attached to an entity and is
+   * deleted if that doesn't happen within the grace period.
+   */
+  @FileUpload({ folder: (request) => `files/${request.user!.id}` })
+  @Post()
+  upload(@UploadResult() file: FileUploadResult) {
+    return this.storedFiles.findOne(file.id);
+  }
+
+  /**
+   * List the caller's files.
+   */
+  @Get()
+  findAll(
+    @CurrentUser() user: AuthUser,
+    @Pagination() pagination: Required<PaginationOptions>,
+  ) {
+    return this.storedFiles.findAllByOwner(user.id, pagination);
+  }
+
+  @Get(':id')
+  findOne(
+    @CurrentUser() user: AuthUser,
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ) {
+    return this.storedFiles.findOneFor(user, id);
+  }
+
+  /**
+   * Get a short-lived URL to download the file directly from storage.
+   */
+  @Get(':id/download')
+  download(
+    @CurrentUser() user: AuthUser,
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ) {
+    return this.storedFiles.getDownloadUrl(user, id);
+  }
+
+  /**
+   * Get a short-lived URL to an image variant (see `IMAGE_VARIANTS`), e.g.
+   * `thumbnail`. Only for images.
+   */
+  @Get(':id/variants/:variant')
+  variant(
+    @CurrentUser() user: AuthUser,
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Param('variant') variant: string,
+  ) {
+    return this.storedFiles.getVariantUrl(user, id, variant);
+  }
+
+  @Patch(':id')
+  update(
+    @CurrentUser() user: AuthUser,
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Body() dto: UpdateStoredFileDto,
+  ) {
+    return this.storedFiles.update(user, id, dto.visibility);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @CurrentUser() user: AuthUser,
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ): Promise<void> {
+    await this.storedFiles.remove(user, id);
+  }
+}
@@ -0,0 +1,369 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { IsNull, LessThan, Repository } from 'typeorm';
+import { paginate } from '../../common/utils/pagination.util';
+import { addSeconds } from '../../common/utils/date.util';
+import type { AuthUser } from '../../common/interfaces/auth.interface';
+import type {
+  PaginatedResponse,
+  PaginationOptions,
+} from '../../common/interfaces/pagination.interface';
+import { PoliciesService } from '../policies/policies.service';
+import { PolicyAction } from '../policies/types/enums/policy-action.enum';
+import { StorageService } from './storage.service';
+import { ImagePipelineService } from './image-pipeline.service';
+import { FileScanService } from './file-scan.service';
+import { StoredFile } from './stored-file.entity';
+import { StoredFileAttachment } from './stored-file-attachment.entity';
+import {
+  ORPHAN_SWEEP_BATCH_SIZE,
+  PRESIGNED_URL_TTL,
+} from './storage.constants';
+import { StoredFileStatus } from './types/enums/stored-file-status.enum';
+import { FileVisibility } from './types/enums/file-visibility.enum';
+import { FileScanStatus } from './types/enums/file-scan-status.enum';
+import {
+  type AttachFileOptions,
+  type FileDownload,
+  type TrackedUploadOptions,
+} from './types/interfaces/stored-file.interface';
+
+const POLICY_SUBJECT = 'StoredFile';
+
+/**
+ * Tracks uploaded objects as `StoredFile` records and manages their
+ * attachments to other entities. Files are uploaded as `pending` and must be
+ * attached before the grace period ends, or the sweeper removes them.
+ * With a scanner configured, files can only be downloaded once scanned clean.
+ */
+@Injectable()
+export class StoredFilesService {
+  private readonly logger = new Logger(StoredFilesService.name);
+
+  constructor(
+    @InjectRepository(StoredFile)
+    private readonly files: Repository<StoredFile>,
+    @InjectRepository(StoredFileAttachment)
+    private readonly attachments: Repository<StoredFileAttachment>,
+    private readonly storage: StorageService,
+    private readonly images: ImagePipelineService,
+    private readonly scans: FileScanService,
+    private readonly policies: PoliciesService,
+  ) {}
+
+  /**
+   * Upload an object and record it, computing its size and SHA-256 while
+   * streaming. The record is created first so an interrupted upload still
+   * leaves something for the sweeper to clean up. Images are stripped of
+   * their metadata on the way and get their variants generated. With a
+   * scanner configured, the object is stored under the quarantine prefix
+   * and only moved to `options.key`, and its variants generated, once
+   * scanned clean.
+   */
+  async upload(options: TrackedUploadOptions): Promise<StoredFile> {
+    const scan = this.scans.enabled;
+    let file = await this.files.save(
+      this.files.create({
+        key: scan ? this.scans.quarantineKey(options.key) : options.key,
+        contentType: options.contentType,
+        originalName: options.originalName ?? null,
+        ownerId: options.ownerId ?? null,
+        visibility: options.visibility ?? FileVisibility.PRIVATE,
+        status: StoredFileStatus.PENDING,
+        scanStatus: scan ? FileScanStatus.PENDING : FileScanStatus.SKIPPED,
+        orphanedAt: new Date(),
+      }),
+    );
+
+    const image = this.images.accepts(options.contentType);
+    const hash = createHash('sha256');
+    let size = 0;
+    let body: Buffer | Readable | string = options.body;
+    if (image) {
+      body = this.images.sanitize(
+        body instanceof Readable ? body : Readable.from([Buffer.from(body)]),
+        options.contentType,
+      );
+    }
+
+    if (body instanceof Readable) {
+      const source = body;
+      body = Readable.from(
+        (async function* () {
+          for await (const chunk of source) {
+            const buffer = Buffer.from(chunk as Buffer);
+            hash.update(buffer);
+            size += buffer.length;
+            yield buffer;
+          }
+        })(),
+      );
+    } else {
+      hash.update(body);
+      size = Buffer.byteLength(body);
+    }
+
+    try {
+      await this.storage.upload({
+        key: file.key,
+        body,
+        contentType: options.contentType,
+        metadata: options.metadata,
+      });
+    } catch (error) {
+      await this.files.delete({ id: file.id });
+      throw error;
+    }
+
+    file.size = size;
+    file.checksum = hash.digest('hex');
+    await this.files.save(file);
+
+    // Variants of a quarantined image are generated once it is scanned clean
+    if (image && !scan) {
+      try {
+        file = await this.images.process(file);
+      } catch (error) {
+        // The upload itself succeeded; variants are generated on request
+        this.logger.warn(
+          `Failed to process image ${file.key}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    if (scan) {
+      // Only queued now, so the scanner never moves an object still in use
+      file.nextScanAt = new Date();
+      await this.files.update({ id: file.id }, { nextScanAt: file.nextScanAt });
+    }
+    return file;
+  }
+
+  async findOne(id: string): Promise<StoredFile> {
+    const file = await this.files.findOneBy({ id });
+    if (!file) {
+      throw new NotFoundException('File not found');
+    }
+    return file;
+  }
+
+  /**
+   * Load a file and check the caller's policy for `action` on it.
+   */
+  async findOneFor(
+    user: AuthUser,
+    id: string,
+    action: PolicyAction = PolicyAction.READ,
+  ): Promise<StoredFile> {
+    const file = await this.findOne(id);
+    this.policies.abilityFor(user).ensure(action, POLICY_SUBJECT, { ...file });
+    return file;
+  }
+
+  /**
+   * List the files uploaded by a user.
+   */
+  async findAllByOwner(
+    ownerId: string,
+    options: PaginationOptions,
+  ): Promise<PaginatedResponse<StoredFile>> {
+    return paginate(options, (skip, take) =>
+      this.files.findAndCount({
+        where: { ownerId },
+        order: { createdAt: 'DESC' },
+        skip,
+        take,
+      }),
+    );
+  }
+
+  async update(
+    user: AuthUser,
+    id: string,
+    visibility: FileVisibility,
+  ): Promise<StoredFile> {
+    const file = await this.findOneFor(user, id, PolicyAction.UPDATE);
+    file.visibility = visibility;
+    return this.files.save(file);
+  }
+
+  /**
+   * Delete a file the caller may delete. Attached files must be detached
+   * first so no entity is left pointing at a missing object.
+   */
+  async remove(user: AuthUser, id: string): Promise<void> {
+    const file = await this.findOneFor(user, id, PolicyAction.DELETE);
+    if (await this.attachments.existsBy({ fileId: file.id })) {
+      throw new ConflictException('File is still attached');
+    }
+    await this.storage.delete(file.key);
+  }
+
+  async getDownloadUrl(
+    user: AuthUser,
+    id: string,
+    ttl: number = PRESIGNED_URL_TTL,
+  ): Promise<FileDownload> {
+    const file = await this.findOneFor(user, id);
+    this.assertScanned(file);
+    const url = await this.storage.getPresignedDownloadUrl(file.key, ttl, {
+      filename: file.originalName ?? undefined,
+      contentType: file.contentType,
+    });
+    return { url, expiresAt: addSeconds(new Date(), ttl) };
+  }
+
+  /**
+   * Get a short-lived URL to an image variant, generating the variant first
+   * if needed.
+   */
+  async getVariantUrl(
+    user: AuthUser,
+    id: string,
+    variant: string,
+    ttl: number = PRESIGNED_URL_TTL,
+  ): Promise<FileDownload> {
+    const file = await this.findOneFor(user, id);
+    this.assertScanned(file);
+    const key = await this.images.ensureVariant(file, variant);
+    const url = await this.storage.getPresignedDownloadUrl(key, ttl);
+    return { url, expiresAt: addSeconds(new Date(), ttl) };
+  }
+
+  /**
+   * Reference a file from an entity and mark it committed. Attaching the
+   * same file to the same entity twice is a no-op.
+   */
+  async attach(
+    fileId: string,
+    entityType: string,
+    entityId: string,
+    options: AttachFileOptions = {},
+  ): Promise<StoredFile> {
+    const file = await this.findOne(fileId);
+    if (options.ownerId !== undefined && file.ownerId !== options.ownerId) {
+      throw new ForbiddenException('File belongs to another user');
+    }
+
+    await this.attachments
+      .createQueryBuilder()
+      .insert()
+      .values({ fileId, entityType, entityId })
+      .orIgnore()
+      .execute();
+    await this.files.update(
+      { id: fileId },
+      { status: StoredFileStatus.COMMITTED, orphanedAt: null },
+    );
+
+    return this.findOne(fileId);
+  }
+
+  async detach(
+    fileId: string,
+    entityType: string,
+    entityId: string,
+  ): Promise<void> {
+    await this.attachments.delete({ fileId, entityType, entityId });
+    await this.markOrphanedIfUnreferenced(fileId);
+  }
+
+  /**
+   * Detach every file of an entity, e.g. before deleting it.
+   */
+  async detachAll(entityType: string, entityId: string): Promise<void> {
+    const attached = await this.attachments.findBy({ entityType, entityId });
+    if (!attached.length) return;
+
+    await this.attachments.delete({ entityType, entityId });
+    for (const { fileId } of attached) {
+      await this.markOrphanedIfUnreferenced(fileId);
+    }
+  }
+
+  async findAttached(
+    entityType: string,
+    entityId: string,
+  ): Promise<StoredFile[]> {
+    const attached = await this.attachments.find({
+      where: { entityType, entityId },
+      relations: { file: true },
+      order: { createdAt: 'ASC' },
+    });
+    return attached.map((attachment) => attachment.file);
+  }
+
+  /**
+   * Delete files that have been pending or unreferenced for longer than
+   * `gracePeriod` seconds. Returns the number of files removed.
+   */
+  async sweepOrphans(gracePeriod: number): Promise<number> {
+    const cutoff = addSeconds(new Date(), -gracePeriod);
+    const candidates = await this.files.find({
+      where: { orphanedAt: LessThan(cutoff) },
+      order: { orphanedAt: 'ASC' },
+      take: ORPHAN_SWEEP_BATCH_SIZE,
+    });
+
+    let removed = 0;
+    for (const file of candidates) {
+      // Only delete the record if it is still orphaned, so a concurrent attach wins
+      const result = await this.files.delete({
+        id: file.id,
+        orphanedAt: LessThan(cutoff),
+      });
+      if (!result.affected) continue;
+
+      try {
+        await this.storage.delete(file.key);
+        await this.images.deleteVariants(file);
+        removed++;
+      } catch (error) {
+        this.logger.warn(
+          `Removed record of ${file.key} but failed to delete the object: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Block downloads of files that are waiting for a scan, infected or could
+   * not be scanned.
+   */
+  private assertScanned(file: StoredFile): void {
+    if (file.scanStatus === FileScanStatus.PENDING) {
+      throw new ConflictException('File is still being scanned');
+    }
+    if (file.scanStatus === FileScanStatus.INFECTED) {
+      throw new ForbiddenException('File failed the malware scan');
+    }
+    if (file.scanStatus === FileScanStatus.FAILED) {
+      throw new ForbiddenException('File could not be scanned');
+    }
+  }
+
+  private async markOrphanedIfUnreferenced(fileId: string): Promise<void> {
+    // Single statement, so an attach racing with this detach is not overwritten
+    const attached = this.attachments
+      .createQueryBuilder('attachment')
+      .select('1')
+      .where('attachment.fileId = :fileId')
+      .getQuery();
+
+    await this.files
+      .createQueryBuilder()
+      .update()
+      .set({ orphanedAt: new Date() })
+      .where({ id: fileId, orphanedAt: IsNull() })
+      .andWhere(`NOT EXISTS (${attached})`, { fileId })
+      .execute();
+  }
+}
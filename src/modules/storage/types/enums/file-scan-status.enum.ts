@@ -0,0 +1,12 @@
+export enum FileScanStatus {
+  /** Under the quarantine prefix waiting for the scanner — downloads blocked */
+  PENDING = 'pending',
+  /** Scanned clean and moved to its key */
+  CLEAN = 'clean',
+  /** Moved to the infected folder of the quarantine prefix — downloads blocked */
+  INFECTED = 'infected',
+  /** Uploaded while scanning was disabled */
+  SKIPPED = 'skipped',
+  /** Could not be scanned in `SCAN_MAX_ATTEMPTS` tries; left in quarantine — downloads blocked */
+  FAILED = 'failed',
+}
@@ -0,0 +1,6 @@
+export enum FileVisibility {
+  /** Only the owner (and admins) can read the file */
+  PRIVATE = 'private',
+  /** Any authenticated user can read the file */
+  PUBLIC = 'public',
+}
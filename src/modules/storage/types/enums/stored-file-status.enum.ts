@@ -0,0 +1,6 @@
+export enum StoredFileStatus {
+  /** Uploaded but not attached to anything yet — swept after the grace period */
+  PENDING = 'pending',
+  /** Attached to at least one entity */
+  COMMITTED = 'committed',
+}
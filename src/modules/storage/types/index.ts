@@ -1,2 +1,14 @@
+export * from './enums/stored-file-status.enum';
+export * from './enums/file-visibility.enum';
+export * from './enums/file-scan-status.enum';
 export * from './interfaces/storage-upload-options.interface';
 export * from './interfaces/storage-object.interface';
+export * from './interfaces/storage-list.interface';
+export * from './interfaces/storage-driver.interface';
+export * from './interfaces/storage-presign.interface';
+export * from './interfaces/storage-multipart.interface';
+export * from './interfaces/file-upload.interface';
+export * from './interfaces/stored-file.interface';
+export * from './interfaces/image-variant.interface';
+export * from './interfaces/file-scanner.interface';
+export * from './interfaces/storage-migration.interface';
@@ -0,0 +1,26 @@
+import { type Readable } from 'stream';
+import { type STORAGE_SCANNERS } from '../../../../config/storage.config';
+
+export type FileScannerName = Exclude<
+  (typeof STORAGE_SCANNERS)[number],
+  'none'
+>;
+
+export interface ScanResult {
+  clean: boolean;
+  /** Signature name reported for infected files, e.g. `Win.Test.EICAR_HDB-1` */
+  threat?: string;
+}
+
+/**
+ * Malware scanner behind `FileScanService`. `scan` consumes the whole body
+ * and throws when the file couldn't be scanned (scanner unreachable, size
+ * limit, ...), so it is retried rather than reported clean.
+ */
+export interface FileScanner {
+  readonly name: FileScannerName;
+
+  scan(body: Readable): Promise<ScanResult>;
+  /** Throws when the scanner is unreachable */
+  ping(): Promise<void>;
+}
@@ -0,0 +1,34 @@
+import type { AuthenticatedRequest } from '../../../../common/interfaces/auth.interface';
+import { type FileVisibility } from '../enums/file-visibility.enum';
+
+export interface FileUploadOptions {
+  /** Multipart field carrying the file (default: `file`) */
+  field?: string;
+  /** Key prefix, or a function deriving it from the request (default: `uploads`) */
+  folder?: string | ((request: AuthenticatedRequest) => string);
+  /** Allowed types, checked against the sniffed type (default: ALLOWED_FILE_TYPES) */
+  allowedTypes?: string[];
+  /** Maximum file size in bytes (default: MAX_FILE_SIZE) */
+  maxSize?: number;
+  /** Visibility of the created `StoredFile` (default: private) */
+  visibility?: FileVisibility;
+}
+
+export interface FileUploadResult {
+  /** Id of the pending `StoredFile` — attach it to keep the file */
+  id: string;
+  /** Key of the object once scanned clean (see `FileScanService`) */
+  key: string;
+  field: string;
+  /** Filename as sent by the client — display only, never used in the key */
+  originalName: string;
+  /** Type detected from the file signature, not the client-declared one */
+  mimeType: string;
+  size: number;
+  /** Hex SHA-256 of the content */
+  checksum: string;
+}
+
+export interface FileUploadRequest extends AuthenticatedRequest {
+  uploadedFile?: FileUploadResult;
+}
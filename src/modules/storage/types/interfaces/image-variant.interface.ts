@@ -0,0 +1,14 @@
+/** Output formats variants can be encoded to */
+export type ImageVariantFormat = 'webp' | 'avif' | 'jpeg' | 'png';
+
+/** How one image variant is derived from the original. */
+export interface ImageVariantDefinition {
+  /** Bounding box in pixels; omit one side to keep the aspect ratio */
+  width?: number;
+  height?: number;
+  /** `cover` crops to fill the box, `inside` fits the whole image in it */
+  fit: 'cover' | 'inside';
+  format: ImageVariantFormat;
+  /** Encoder quality 1-100 (format default when omitted) */
+  quality?: number;
+}
@@ -0,0 +1,92 @@
+import { type Readable } from 'stream';
+import { type STORAGE_DRIVERS } from '../../../../config/storage.config';
+import { type StorageObject } from './storage-object.interface';
+import type {
+  ListPageOptions,
+  StorageDeleteError,
+  StorageListPage,
+} from './storage-list.interface';
+
+export type StorageDriverName = (typeof STORAGE_DRIVERS)[number];
+export type { StorageDiskName } from '../../../../config/storage.config';
+
+export interface DriverPutOptions {
+  contentType?: string;
+  metadata?: Record<string, string>;
+  /** Multipart tuning for streamed bodies; ignored by drivers that don't need it */
+  partSize?: number;
+  concurrency?: number;
+  /** Called with the total bytes stored so far while streaming */
+  onProgress?: (loaded: number) => void;
+}
+
+export interface DriverListOptions extends ListPageOptions {
+  limit: number;
+}
+
+export interface DriverDownloadUrlOptions {
+  /** Full `Content-Disposition` header value */
+  contentDisposition?: string;
+  contentType?: string;
+}
+
+export interface DriverUploadUrlOptions {
+  contentType: string;
+  contentLength: number;
+}
+
+/**
+ * Object storage backend behind `StorageService`. Implementations share the
+ * S3 semantics: keys are flat strings, listings match a plain key prefix in
+ * key order, writes replace whole objects, deleting a missing key succeeds
+ * and reading or copying one throws `NotFoundException`.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+
+  put(
+    key: string,
+    body: Buffer | Readable | string,
+    options: DriverPutOptions,
+  ): Promise<void>;
+  get(key: string): Promise<Readable>;
+  head(key: string): Promise<StorageObject | null>;
+  delete(key: string): Promise<void>;
+  /** Delete up to 1000 keys at once; returns the keys that failed */
+  deleteMany(keys: string[]): Promise<StorageDeleteError[]>;
+  /** One page of the objects (and folders) whose key starts with `prefix` */
+  listPage(
+    prefix: string,
+    options: DriverListOptions,
+  ): Promise<StorageListPage>;
+  copy(sourceKey: string, destinationKey: string): Promise<void>;
+
+  /** Time-limited GET URL that needs no other credentials */
+  getDownloadUrl(
+    key: string,
+    ttl: number,
+    options: DriverDownloadUrlOptions,
+  ): Promise<string>;
+  /** Time-limited PUT URL; the signed headers must be sent unchanged */
+  getUploadUrl(
+    key: string,
+    ttl: number,
+    options: DriverUploadUrlOptions,
+  ): Promise<string>;
+
+  /** Throws when the backend is unreachable */
+  ping(): Promise<void>;
+  destroy(): void;
+}
+
+/** Query parameters of a URL issued by `StorageUrlSigner` */
+export interface SignedUrlParams {
+  /** Omitted for the default disk */
+  disk?: string;
+  key?: string;
+  expires?: string;
+  type?: string;
+  disposition?: string;
+  length?: string;
+  signature?: string;
+}
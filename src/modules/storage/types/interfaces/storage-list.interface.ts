@@ -0,0 +1,32 @@
+import { type StorageObject } from './storage-object.interface';
+
+export interface ListPageOptions {
+  /** `nextCursor` of the previous page */
+  cursor?: string;
+  /** Max entries (objects + folders) per page, 1-1000 (default 1000) */
+  limit?: number;
+  /**
+   * Roll keys up to the first occurrence of the delimiter after the prefix
+   * into `folders`, e.g. `/` to browse one level at a time.
+   */
+  delimiter?: string;
+}
+
+export interface StorageListPage {
+  objects: StorageObject[];
+  /** Common prefixes ending with the delimiter, when one was given */
+  folders: string[];
+  /** Opaque cursor of the next page, or null on the last one */
+  nextCursor: string | null;
+}
+
+export interface StorageDeleteError {
+  key: string;
+  message: string;
+}
+
+export interface DeleteManyResult {
+  /** Number of keys deleted (deleting a missing key counts as deleted) */
+  deleted: number;
+  errors: StorageDeleteError[];
+}
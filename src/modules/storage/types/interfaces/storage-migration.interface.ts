@@ -0,0 +1,44 @@
+import { type StorageDiskName } from '../../../../config/storage.config';
+
+export interface StorageMigrationOptions {
+  /** Disk to copy from */
+  from: StorageDiskName;
+  /** Disk to copy to */
+  to: StorageDiskName;
+  /** Only copy keys starting with this prefix (default: everything) */
+  prefix?: string;
+  /** Objects copied in parallel (default 4) */
+  concurrency?: number;
+  /** Read every copy back and compare its SHA-256 with the source (default true) */
+  verify?: boolean;
+  /** Only list what would be copied */
+  dryRun?: boolean;
+  /**
+   * JSON Lines file recording copied keys. Keys already in it are skipped,
+   * so an interrupted migration resumes where it stopped.
+   */
+  statePath?: string;
+}
+
+export interface StorageMigrationMismatch {
+  key: string;
+  reason: string;
+}
+
+export interface StorageMigrationReport {
+  from: StorageDiskName;
+  to: StorageDiskName;
+  prefix: string;
+  dryRun: boolean;
+  /** Objects found under the prefix */
+  listed: number;
+  /** Objects copied (or that would be, in a dry run) */
+  copied: number;
+  /** Objects already copied by a previous run */
+  skipped: number;
+  /** Bytes copied (or that would be, in a dry run) */
+  bytes: number;
+  /** Objects that failed to copy or whose copy doesn't match the source */
+  mismatches: StorageMigrationMismatch[];
+  durationMs: number;
+}
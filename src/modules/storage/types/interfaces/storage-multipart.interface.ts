@@ -0,0 +1,51 @@
+import { type Readable } from 'stream';
+
+export interface MultipartInitOptions {
+  key: string;
+  contentType: string;
+  metadata?: Record<string, string>;
+  /** Defaults to ALLOWED_FILE_TYPES */
+  allowedTypes?: string[];
+}
+
+export interface MultipartUpload {
+  key: string;
+  uploadId: string;
+}
+
+export interface PresignedPart {
+  partNumber: number;
+  url: string;
+}
+
+export interface CompletedPart {
+  partNumber: number;
+  etag: string;
+}
+
+export interface UploadedPart extends CompletedPart {
+  size?: number;
+  lastModified?: Date;
+}
+
+export interface IncompleteUpload extends MultipartUpload {
+  initiated?: Date;
+}
+
+export interface CompleteMultipartOptions {
+  /** Reject with 413 (and delete the object) when it exceeds this many bytes */
+  maxSize?: number;
+}
+
+export interface StreamUploadOptions {
+  key: string;
+  body: Readable | Buffer | string;
+  contentType?: string;
+  metadata?: Record<string, string>;
+  /** Bytes per part (default: STORAGE_MULTIPART_PART_SIZE) */
+  partSize?: number;
+  /** Parts uploaded in parallel (default: STORAGE_MULTIPART_CONCURRENCY) */
+  concurrency?: number;
+  /** Called with the number of bytes uploaded so far */
+  onProgress?: (loaded: number) => void;
+}
@@ -0,0 +1,41 @@
+export interface PresignedDownloadOptions {
+  /** Filename the browser should use when saving the object */
+  filename?: string;
+  /** Defaults to `attachment` when a filename is given */
+  contentDisposition?: 'inline' | 'attachment';
+  /** Overrides the stored Content-Type in the response */
+  contentType?: string;
+}
+
+export interface PresignedUploadOptions {
+  key: string;
+  contentType: string;
+  /** Exact size of the upload in bytes — signed so any other length is rejected */
+  contentLength: number;
+  /** Lifetime in seconds (default: PRESIGNED_URL_TTL) */
+  ttl?: number;
+  /** Defaults to ALLOWED_FILE_TYPES */
+  allowedTypes?: string[];
+  /** Defaults to MAX_FILE_SIZE */
+  maxSize?: number;
+}
+
+export interface PresignedUpload {
+  url: string;
+  method: 'PUT';
+  /** Headers the client must send with the PUT request */
+  headers: Record<string, string>;
+  expiresAt: Date;
+}
+
+export type PresignedPostOptions = Omit<
+  PresignedUploadOptions,
+  'contentLength'
+>;
+
+export interface PresignedPost {
+  url: string;
+  /** Form fields to send before the `file` field */
+  fields: Record<string, string>;
+  expiresAt: Date;
+}
@@ -0,0 +1,22 @@
+import { type Readable } from 'stream';
+import { type FileVisibility } from '../enums/file-visibility.enum';
+
+export interface TrackedUploadOptions {
+  key: string;
+  body: Buffer | Readable | string;
+  contentType: string;
+  originalName?: string;
+  ownerId?: string | null;
+  visibility?: FileVisibility;
+  metadata?: Record<string, string>;
+}
+
+export interface AttachFileOptions {
+  /** Reject with 403 unless the file belongs to this user */
+  ownerId?: string;
+}
+
+export interface FileDownload {
+  url: string;
+  expiresAt: Date;
+}
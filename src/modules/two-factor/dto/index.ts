@@ -0,0 +1 @@
+export * from './two-factor-code.dto';
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    example: '123456',
+    description: 'Code from the authenticator app, or a recovery code',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  code: string;
+}
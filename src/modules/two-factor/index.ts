@@ -0,0 +1,8 @@
+export * from './two-factor.module';
+export * from './two-factor.service';
+export * from './two-factor.entity';
+export * from './recovery-code.entity';
+export * from './two-factor.constants';
+export * from './totp';
+export * from './dto';
+export * from './types';
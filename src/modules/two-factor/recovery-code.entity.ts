@@ -0,0 +1,39 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Exclude } from 'class-transformer';
+import { User } from '../users/users.entity';
+
+/**
+ * One-time code that replaces a TOTP code when the authenticator is lost.
+ * Stored as a SHA-256 digest; each code has ~51 bits of entropy.
+ */
+@Entity('recovery_codes')
+@Index(['userId', 'codeHash'])
+export class RecoveryCode {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Exclude()
+  @Column({ length: 64 })
+  codeHash: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  usedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,80 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  timeStep,
+  verifyTotp,
+} from './totp';
+
+// RFC 6238 appendix B: the ASCII secret "12345678901234567890" (SHA-1)
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+// A fixed instant in the middle of a 30 s time step
+const NOW = new Date('2026-01-01T00:00:15Z');
+
+describe('totp', () => {
+  it('round-trips base32', () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it.each([
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [1234567890, '89005924'],
+    [2000000000, '69279037'],
+  ])('matches the RFC 6238 vector at %i s', (seconds, code) => {
+    const step = timeStep(new Date(seconds * 1000));
+    expect(generateTotp(RFC_SECRET, step, 8)).toBe(code);
+  });
+
+  describe('verifyTotp', () => {
+    const current = timeStep(NOW);
+    const codeAt = (step: number) => generateTotp(RFC_SECRET, step);
+
+    it('returns the time step of a current code', () => {
+      expect(verifyTotp(RFC_SECRET, codeAt(current), NOW)).toBe(current);
+    });
+
+    it('accepts one step of drift either way', () => {
+      expect(verifyTotp(RFC_SECRET, codeAt(current - 1), NOW)).toBe(
+        current - 1,
+      );
+      expect(verifyTotp(RFC_SECRET, codeAt(current + 1), NOW)).toBe(
+        current + 1,
+      );
+    });
+
+    it('rejects codes outside the window', () => {
+      expect(verifyTotp(RFC_SECRET, codeAt(current - 2), NOW)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, codeAt(current + 2), NOW)).toBeNull();
+    });
+
+    it('honours a custom window', () => {
+      expect(verifyTotp(RFC_SECRET, codeAt(current - 2), NOW, 2)).toBe(
+        current - 2,
+      );
+      expect(verifyTotp(RFC_SECRET, codeAt(current - 1), NOW, 0)).toBeNull();
+    });
+
+    it('rejects malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '12345', NOW)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '12345a', NOW)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, `${codeAt(current)}0`, NOW)).toBeNull();
+    });
+  });
+
+  it('builds an otpauth URI with an encoded label', () => {
+    expect(
+      buildOtpauthUri({
+        secret: 'ABC',
+        issuer: 'My App',
+        account: 'a@b.c',
+      }),
+    ).toBe(
+      'otpauth://totp/My%20App:a%40b.c?secret=ABC&issuer=My%20App&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+});
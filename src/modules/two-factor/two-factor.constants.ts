@@ -0,0 +1,25 @@
+import type { Clock } from './types/interfaces/clock.interface';
+
+/** Injection token for the clock used to compute TOTP time steps */
+export const TWO_FACTOR_CLOCK = Symbol('TWO_FACTOR_CLOCK');
+
+/** Default clock — override `TWO_FACTOR_CLOCK` with a fixed one in tests */
+export const SYSTEM_CLOCK: Clock = { now: () => new Date() };
+
+/** TOTP time step in seconds (RFC 6238 default) */
+export const TOTP_PERIOD = 30;
+
+/** Number of digits in a TOTP code */
+export const TOTP_DIGITS = 6;
+
+/** Accepted clock drift, in time steps before and after the current one */
+export const TOTP_WINDOW = 1;
+
+/** Secret size in bytes (160 bits, as recommended for HMAC-SHA1) */
+export const TOTP_SECRET_BYTES = 20;
+
+/** Number of recovery codes issued at once */
+export const RECOVERY_CODE_COUNT = 10;
+
+/** Characters per recovery code, excluding the display separator */
+export const RECOVERY_CODE_LENGTH = 10;
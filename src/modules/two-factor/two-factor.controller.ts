@@ -0,0 +1,64 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { DenyImpersonation } from '../../common/decorators/deny-impersonation.decorator';
+import type { AuthUser } from '../../common/interfaces/auth.interface';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorCodeDto } from './dto';
+import type { RecoveryCodes, TwoFactorSetup, TwoFactorStatus } from './types';
+
+@ApiTags('Two-Factor Auth')
+@ApiBearerAuth('session-auth')
+@DenyImpersonation()
+@Controller('auth/2fa')
+export class TwoFactorController {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  @Get()
+  status(@CurrentUser('id') userId: string): Promise<TwoFactorStatus> {
+    return this.twoFactorService.status(userId);
+  }
+
+  /**
+   * Generate a secret and otpauth URI. Confirm it with `POST /auth/2fa/enable`.
+   */
+  @Post('setup')
+  @HttpCode(HttpStatus.OK)
+  setup(@CurrentUser() user: AuthUser): Promise<TwoFactorSetup> {
+    return this.twoFactorService.setup(user.id, user.email);
+  }
+
+  @Post('enable')
+  @HttpCode(HttpStatus.OK)
+  enable(
+    @CurrentUser('id') userId: string,
+    @Body() dto: TwoFactorCodeDto,
+  ): Promise<RecoveryCodes> {
+    return this.twoFactorService.enable(userId, dto.code);
+  }
+
+  @Post('disable')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  disable(
+    @CurrentUser('id') userId: string,
+    @Body() dto: TwoFactorCodeDto,
+  ): Promise<void> {
+    return this.twoFactorService.disable(userId, dto.code);
+  }
+
+  @Post('recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  regenerateRecoveryCodes(
+    @CurrentUser('id') userId: string,
+    @Body() dto: TwoFactorCodeDto,
+  ): Promise<RecoveryCodes> {
+    return this.twoFactorService.regenerateRecoveryCodes(userId, dto.code);
+  }
+}
@@ -0,0 +1,43 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  OneToOne,
+  PrimaryColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Exclude } from 'class-transformer';
+import { User } from '../users/users.entity';
+
+/**
+ * TOTP enrollment of a user. The row exists from setup on; 2FA is only
+ * enforced once `enabledAt` is set by the confirmation step.
+ */
+@Entity('two_factor_settings')
+export class TwoFactor {
+  @PrimaryColumn('uuid')
+  userId: string;
+
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  /** Base32 TOTP secret */
+  @Exclude()
+  @Column({ select: false })
+  secret: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  enabledAt: Date | null;
+
+  /** Last accepted time step — codes from this step or earlier are rejected */
+  @Column({ type: 'int', nullable: true })
+  lastUsedStep: number | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TwoFactor } from './two-factor.entity';
+import { RecoveryCode } from './recovery-code.entity';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorController } from './two-factor.controller';
+import { SYSTEM_CLOCK, TWO_FACTOR_CLOCK } from './two-factor.constants';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([TwoFactor, RecoveryCode])],
+  controllers: [TwoFactorController],
+  providers: [
+    TwoFactorService,
+    { provide: TWO_FACTOR_CLOCK, useValue: SYSTEM_CLOCK },
+  ],
+  exports: [TwoFactorService],
+})
+export class TwoFactorModule {}
@@ -0,0 +1,173 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import {
+  matches,
+  memoryRepository,
+} from '../../../test/utils/memory-repository';
+import { appConfig } from '../../config/app.config';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactor } from './two-factor.entity';
+import { RecoveryCode } from './recovery-code.entity';
+import { generateTotp, timeStep } from './totp';
+import { RECOVERY_CODE_COUNT, TWO_FACTOR_CLOCK } from './two-factor.constants';
+import type { Clock } from './types';
+
+const USER_ID = 'user-1';
+
+/** Memory repository extended with the queries `TwoFactorService` runs */
+function twoFactorRepository<T extends object>(rows: T[]) {
+  const repository = memoryRepository(rows);
+  const manager = {
+    delete: (_entity: unknown, where: object) => repository.delete(where),
+    insert: (_entity: unknown, values: T[]) => {
+      rows.push(
+        ...values.map((value) => ({ usedAt: null, ...value }) as unknown as T),
+      );
+      return Promise.resolve();
+    },
+  };
+
+  return {
+    ...repository,
+    save: (value: T) => {
+      void repository.delete({ userId: (value as { userId: string }).userId });
+      rows.push(value);
+      return Promise.resolve(value);
+    },
+    createQueryBuilder: () => {
+      const query = {
+        addSelect: () => query,
+        where: (_sql: string, params: { userId: string }) => {
+          query.getOne = () =>
+            Promise.resolve(
+              rows.find((row) => matches(row, { userId: params.userId })) ??
+                null,
+            );
+          return query;
+        },
+        getOne: () => Promise.resolve(null as T | null),
+      };
+      return query;
+    },
+    manager: {
+      ...manager,
+      transaction: (work: (transactional: typeof manager) => Promise<void>) =>
+        work(manager),
+    },
+  };
+}
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+  let now: Date;
+  let secrets: ReturnType<typeof twoFactorRepository<TwoFactor>>;
+  let recoveryCodes: ReturnType<typeof twoFactorRepository<RecoveryCode>>;
+
+  const code = (offset = 0) =>
+    generateTotp(secrets.rows[0].secret, timeStep(now) + offset);
+
+  beforeEach(async () => {
+    now = new Date('2026-01-01T00:00:15Z');
+    secrets = twoFactorRepository<TwoFactor>([]);
+    recoveryCodes = twoFactorRepository<RecoveryCode>([]);
+    const clock: Clock = { now: () => now };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: getRepositoryToken(TwoFactor), useValue: secrets },
+        { provide: getRepositoryToken(RecoveryCode), useValue: recoveryCodes },
+        { provide: TWO_FACTOR_CLOCK, useValue: clock },
+        { provide: appConfig.KEY, useValue: { name: 'Test' } },
+      ],
+    }).compile();
+    service = moduleRef.get(TwoFactorService);
+  });
+
+  /** Set up and confirm 2FA, returning the recovery codes */
+  async function enable(): Promise<string[]> {
+    await service.setup(USER_ID, 'user@example.com');
+    const { recoveryCodes: codes } = await service.enable(USER_ID, code());
+    // Steps up to the enabling code's are used up; move past its window
+    now = new Date(now.getTime() + 90_000);
+    return codes;
+  }
+
+  it('only enables 2FA with a valid code', async () => {
+    await service.setup(USER_ID, 'user@example.com');
+    await expect(service.enable(USER_ID, '000000')).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(await service.isEnabled(USER_ID)).toBe(false);
+
+    const { recoveryCodes: codes } = await service.enable(USER_ID, code());
+    expect(await service.isEnabled(USER_ID)).toBe(true);
+    expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(codes[0]).toMatch(/^[A-Za-z0-9]{5}-[A-Za-z0-9]{5}$/);
+  });
+
+  describe('TOTP codes', () => {
+    beforeEach(() => enable());
+
+    it('accepts the current code and one step of drift', async () => {
+      expect(await service.verify(USER_ID, code(-1))).toBe(true);
+      expect(await service.verify(USER_ID, code(0))).toBe(true);
+      expect(await service.verify(USER_ID, code(1))).toBe(true);
+    });
+
+    it('rejects codes outside the window', async () => {
+      expect(await service.verify(USER_ID, code(-2))).toBe(false);
+      expect(await service.verify(USER_ID, code(2))).toBe(false);
+    });
+
+    it('rejects a replayed code', async () => {
+      const current = code();
+      expect(await service.verify(USER_ID, current)).toBe(true);
+      expect(await service.verify(USER_ID, current)).toBe(false);
+    });
+
+    it('rejects an older code once a newer one was used', async () => {
+      const previous = code(-1);
+      expect(await service.verify(USER_ID, code())).toBe(true);
+      expect(await service.verify(USER_ID, previous)).toBe(false);
+    });
+
+    it('accepts the next code after the clock moves on', async () => {
+      expect(await service.verify(USER_ID, code())).toBe(true);
+      now = new Date(now.getTime() + 30_000);
+      expect(await service.verify(USER_ID, code())).toBe(true);
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('consumes each code once, ignoring case and separators', async () => {
+      const [first, second] = await enable();
+
+      expect(
+        await service.verify(USER_ID, first.toLowerCase().replace('-', ' ')),
+      ).toBe(true);
+      expect(await service.verify(USER_ID, first)).toBe(false);
+      expect(await service.verify(USER_ID, second)).toBe(true);
+      expect((await service.status(USER_ID)).recoveryCodesRemaining).toBe(
+        RECOVERY_CODE_COUNT - 2,
+      );
+    });
+
+    it('rejects unknown codes', async () => {
+      await enable();
+      expect(await service.verify(USER_ID, 'AAAAA-AAAAA')).toBe(false);
+    });
+
+    it('invalidates old codes when regenerating', async () => {
+      const [old] = await enable();
+      const { recoveryCodes: fresh } = await service.regenerateRecoveryCodes(
+        USER_ID,
+        code(),
+      );
+
+      expect(await service.verify(USER_ID, old)).toBe(false);
+      expect(await service.verify(USER_ID, fresh[0])).toBe(true);
+    });
+  });
+});
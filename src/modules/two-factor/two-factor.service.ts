@@ -0,0 +1,218 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { type ConfigType } from '@nestjs/config';
+import { IsNull, LessThan, Not, Or, Repository } from 'typeorm';
+import { appConfig } from '../../config/app.config';
+import { sha256 } from '../../common/utils/hashing.util';
+import { randomCode } from '../../common/utils/string.util';
+import { ALPHABET_ALPHANUMERIC } from '../../common/constants/alphabet.constant';
+import { TwoFactor } from './two-factor.entity';
+import { RecoveryCode } from './recovery-code.entity';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp';
+import {
+  RECOVERY_CODE_COUNT,
+  RECOVERY_CODE_LENGTH,
+  TWO_FACTOR_CLOCK,
+} from './two-factor.constants';
+import type {
+  Clock,
+  RecoveryCodes,
+  TwoFactorSetup,
+  TwoFactorStatus,
+} from './types';
+
+/**
+ * TOTP two-factor authentication: enrollment, code verification and
+ * one-time recovery codes. Time comes from the injected `TWO_FACTOR_CLOCK`.
+ */
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    @InjectRepository(TwoFactor)
+    private readonly repository: Repository<TwoFactor>,
+    @InjectRepository(RecoveryCode)
+    private readonly recoveryCodes: Repository<RecoveryCode>,
+    @Inject(TWO_FACTOR_CLOCK)
+    private readonly clock: Clock,
+    @Inject(appConfig.KEY)
+    private readonly app: ConfigType<typeof appConfig>,
+  ) {}
+
+  async status(userId: string): Promise<TwoFactorStatus> {
+    const record = await this.repository.findOneBy({ userId });
+    const enabledAt = record?.enabledAt ?? null;
+    const recoveryCodesRemaining = enabledAt
+      ? await this.recoveryCodes.countBy({ userId, usedAt: IsNull() })
+      : 0;
+
+    return { enabled: !!enabledAt, enabledAt, recoveryCodesRemaining };
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    return this.repository.existsBy({ userId, enabledAt: Not(IsNull()) });
+  }
+
+  /**
+   * Start (or restart) enrollment with a new secret.
+   * 2FA is not enforced until the secret is confirmed with `enable()`.
+   */
+  async setup(userId: string, email: string): Promise<TwoFactorSetup> {
+    if (await this.isEnabled(userId)) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.repository.save(
+      this.repository.create({
+        userId,
+        secret,
+        enabledAt: null,
+        lastUsedStep: null,
+      }),
+    );
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri({
+        secret,
+        issuer: this.app.name ?? 'App',
+        account: email,
+      }),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a first TOTP code and issue recovery codes.
+   */
+  async enable(userId: string, code: string): Promise<RecoveryCodes> {
+    const record = await this.findWithSecret(userId);
+    if (!record) {
+      throw new BadRequestException('Two-factor setup has not been started');
+    }
+    if (record.enabledAt) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+    if (!(await this.consumeTotp(record, code))) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    await this.repository.update({ userId }, { enabledAt: this.clock.now() });
+    return { recoveryCodes: await this.replaceRecoveryCodes(userId) };
+  }
+
+  /**
+   * Turn 2FA off. Requires a current TOTP or recovery code.
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    await this.ensureValidCode(userId, code);
+    await this.repository.manager.transaction(async (manager) => {
+      await manager.delete(RecoveryCode, { userId });
+      await manager.delete(TwoFactor, { userId });
+    });
+  }
+
+  /**
+   * Invalidate all recovery codes and issue a new set.
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<RecoveryCodes> {
+    await this.ensureValidCode(userId, code);
+    return { recoveryCodes: await this.replaceRecoveryCodes(userId) };
+  }
+
+  /**
+   * Check a TOTP or recovery code for a user with 2FA enabled.
+   * A successful code is consumed and cannot be used again.
+   */
+  async verify(userId: string, code: string): Promise<boolean> {
+    const record = await this.findWithSecret(userId);
+    if (!record?.enabledAt) return false;
+
+    return (
+      (await this.consumeTotp(record, code)) ||
+      (await this.consumeRecoveryCode(userId, code))
+    );
+  }
+
+  private async ensureValidCode(userId: string, code: string): Promise<void> {
+    if (!(await this.isEnabled(userId))) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (!(await this.verify(userId, code))) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+  }
+
+  private findWithSecret(userId: string): Promise<TwoFactor | null> {
+    return this.repository
+      .createQueryBuilder('twoFactor')
+      .addSelect('twoFactor.secret')
+      .where('twoFactor.userId = :userId', { userId })
+      .getOne();
+  }
+
+  /**
+   * Accept a TOTP code at most once: the matched time step must be newer
+   * than the last accepted one, checked and stored in a single UPDATE.
+   */
+  private async consumeTotp(record: TwoFactor, code: string): Promise<boolean> {
+    const step = verifyTotp(
+      record.secret,
+      code.replace(/\s/g, ''),
+      this.clock.now(),
+    );
+    if (step === null) return false;
+
+    const result = await this.repository.update(
+      { userId: record.userId, lastUsedStep: Or(IsNull(), LessThan(step)) },
+      { lastUsedStep: step },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  private async consumeRecoveryCode(
+    userId: string,
+    code: string,
+  ): Promise<boolean> {
+    const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    if (normalized.length !== RECOVERY_CODE_LENGTH) return false;
+
+    const result = await this.recoveryCodes.update(
+      { userId, codeHash: sha256(normalized), usedAt: IsNull() },
+      { usedAt: this.clock.now() },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * Replace the user's recovery codes. Returns the plain codes, formatted
+   * as `XXXXX-XXXXX` for display.
+   */
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+      randomCode(RECOVERY_CODE_LENGTH, ALPHABET_ALPHANUMERIC),
+    );
+
+    await this.recoveryCodes.manager.transaction(async (manager) => {
+      await manager.delete(RecoveryCode, { userId });
+      await manager.insert(
+        RecoveryCode,
+        codes.map((code) => ({ userId, codeHash: sha256(code) })),
+      );
+    });
+
+    const half = RECOVERY_CODE_LENGTH / 2;
+    return codes.map((code) => `${code.slice(0, half)}-${code.slice(half)}`);
+  }
+}
@@ -0,0 +1,4 @@
+export * from './interfaces/clock.interface';
+export * from './interfaces/two-factor-setup.interface';
+export * from './interfaces/two-factor-status.interface';
+export * from './interfaces/recovery-codes.interface';
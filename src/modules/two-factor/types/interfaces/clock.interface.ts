@@ -0,0 +1,4 @@
+/** Source of the current time, injectable so TOTP can be tested offline. */
+export interface Clock {
+  now(): Date;
+}
@@ -0,0 +1,4 @@
+/** Freshly generated recovery codes. They are shown once and stored hashed. */
+export interface RecoveryCodes {
+  recoveryCodes: string[];
+}
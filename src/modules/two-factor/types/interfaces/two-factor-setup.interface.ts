@@ -0,0 +1,7 @@
+/** Returned when enrollment starts — render `otpauthUri` as a QR code. */
+export interface TwoFactorSetup {
+  /** Base32 secret, for manual entry in the authenticator app */
+  secret: string;
+  /** `otpauth://totp/...` URI */
+  otpauthUri: string;
+}
@@ -0,0 +1,6 @@
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  /** Unused recovery codes left */
+  recoveryCodesRemaining: number;
+}
@@ -0,0 +1,4 @@
+export * from './users.module';
+export * from './users.service';
+export * from './password.service';
+export * from './users.entity';
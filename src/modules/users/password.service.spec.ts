@@ -0,0 +1,52 @@
+import { hash } from '../../common/utils/hashing.util';
+import { BCRYPT_SALT_ROUNDS } from '../../common/constants/app.constant';
+import { PasswordService } from './password.service';
+
+describe('PasswordService', () => {
+  const service = new PasswordService();
+  let current: string;
+
+  beforeAll(async () => {
+    current = await service.hash('Correct7Horse9Battery');
+  });
+
+  describe('needsRehash', () => {
+    it('keeps hashes made with the current algorithm and cost', () => {
+      expect(service.needsRehash(current)).toBe(false);
+    });
+
+    it('flags hashes made with a lower cost', async () => {
+      const cheaper = await hash(
+        'Correct7Horse9Battery',
+        BCRYPT_SALT_ROUNDS - 8,
+      );
+
+      expect(service.needsRehash(cheaper)).toBe(true);
+    });
+
+    it('flags hashes with a foreign algorithm prefix', () => {
+      expect(service.needsRehash(current.replace(/^\$2b\$/, '$2a$'))).toBe(
+        true,
+      );
+      expect(
+        service.needsRehash('$argon2id$v=19$m=65536,t=3,p=4$c2FsdA$aGFzaA'),
+      ).toBe(true);
+    });
+  });
+
+  describe('verify', () => {
+    it('matches the password the hash was made from', async () => {
+      expect(await service.verify('Correct7Horse9Battery', current)).toBe(true);
+      expect(await service.verify('Wrong7Horse9Battery', current)).toBe(false);
+    });
+
+    it('never matches a hash in an unknown format', async () => {
+      expect(
+        await service.verify(
+          'Correct7Horse9Battery',
+          '$argon2id$v=19$m=65536,t=3,p=4$c2FsdA$aGFzaA',
+        ),
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common';
+import { getRounds } from 'bcrypt';
+import { compare, hash } from '../../common/utils/hashing.util';
+import { BCRYPT_SALT_ROUNDS } from '../../common/constants/app.constant';
+
+/** Algorithm prefix of hashes produced by `PasswordService.hash()` */
+const CURRENT_PREFIX = '$2b$';
+
+/** bcrypt variants `compare()` can still verify */
+const BCRYPT_PREFIXES = ['$2a$', '$2b$', '$2y$'];
+
+/**
+ * Password hashing with transparent upgrades.
+ *
+ * Raising `BCRYPT_SALT_ROUNDS` (or changing `CURRENT_PREFIX` when moving to
+ * another algorithm) makes `needsRehash()` flag existing hashes, which are
+ * then replaced on the user's next successful login.
+ */
+@Injectable()
+export class PasswordService {
+  private readonly rounds = BCRYPT_SALT_ROUNDS;
+
+  hash(password: string): Promise<string> {
+    return hash(password, this.rounds);
+  }
+
+  /**
+   * Check a password against a stored hash. Unknown formats never match.
+   */
+  async verify(password: string, hashed: string): Promise<boolean> {
+    if (!BCRYPT_PREFIXES.some((prefix) => hashed.startsWith(prefix))) {
+      return false;
+    }
+    return compare(password, hashed);
+  }
+
+  /**
+   * True if the hash uses another algorithm or cost factor than `hash()`.
+   */
+  needsRehash(hashed: string): boolean {
+    if (!hashed.startsWith(CURRENT_PREFIX)) return true;
+    return getRounds(hashed) !== this.rounds;
+  }
+}
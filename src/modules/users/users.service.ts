@@ -0,0 +1,69 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Role } from '../../common/enums/role.enum';
+import { User } from './users.entity';
+import { PasswordService } from './password.service';
+
+/**
+ * Minimal user store used by the auth layer.
+ * Extend it (or replace it) with your project's own user domain.
+ */
+@Injectable()
+export class UsersService {
+  constructor(
+    @InjectRepository(User) private readonly repository: Repository<User>,
+    private readonly passwords: PasswordService,
+  ) {}
+
+  /**
+   * Find a user by id. Returns null if not found.
+   */
+  async findById(id: string): Promise<User | null> {
+    return this.repository.findOneBy({ id });
+  }
+
+  /**
+   * Find a user by email, including the password hash for credential checks.
+   */
+  async findByEmailWithPassword(email: string): Promise<User | null> {
+    return this.repository
+      .createQueryBuilder('user')
+      .addSelect('user.password')
+      .where('LOWER(user.email) = LOWER(:email)', { email })
+      .getOne();
+  }
+
+  /**
+   * Create a user, hashing the plain text password.
+   */
+  async create(
+    email: string,
+    password: string,
+    role: Role = Role.VIEWER,
+  ): Promise<User> {
+    const user = this.repository.create({
+      email: email.toLowerCase(),
+      password: await this.passwords.hash(password),
+      role,
+    });
+    return this.repository.save(user);
+  }
+
+  /**
+   * Replace a user's password, hashing it with the current settings.
+   */
+  async updatePassword(id: string, password: string): Promise<void> {
+    await this.repository.update(
+      { id },
+      { password: await this.passwords.hash(password) },
+    );
+  }
+
+  /**
+   * Change a user's role. Takes effect on the user's next token refresh.
+   */
+  async updateRole(id: string, role: Role): Promise<void> {
+    await this.repository.update({ id }, { role });
+  }
+}
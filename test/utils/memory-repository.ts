@@ -0,0 +1,58 @@
+import { FindOperator } from 'typeorm';
+
+/**
+ * Evaluates the where conditions the services use
+ * (plain values, IsNull, LessThan, LessThanOrEqual, Not, Or)
+ */
+export function matches(row: object, where: object): boolean {
+  return Object.entries(where).every(([field, condition]) =>
+    matchesValue((row as Record<string, unknown>)[field], condition),
+  );
+}
+
+function matchesValue(value: unknown, condition: unknown): boolean {
+  if (!(condition instanceof FindOperator)) return value === condition;
+  // `value` unwraps nested operators, `child` keeps them
+  const operand: unknown = condition.child ?? condition.value;
+  switch (condition.type) {
+    case 'isNull':
+      return value === null || value === undefined;
+    case 'lessThan':
+      return value != null && (value as number) < (operand as number);
+    case 'lessThanOrEqual':
+      return value != null && (value as number) <= (operand as number);
+    case 'not':
+      return !matchesValue(value, operand);
+    case 'or':
+      return (operand as unknown[]).some((inner) => matchesValue(value, inner));
+    default:
+      throw new Error(`Unsupported operator ${condition.type}`);
+  }
+}
+
+/** Repository stub keeping rows in an array */
+export function memoryRepository<T extends object>(rows: T[]) {
+  return {
+    rows,
+    create: (value: T) => value,
+    find: ({ where, take }: { where: object; take?: number }) =>
+      Promise.resolve(rows.filter((row) => matches(row, where)).slice(0, take)),
+    findOneBy: (where: object) =>
+      Promise.resolve(rows.find((row) => matches(row, where)) ?? null),
+    existsBy: (where: object) =>
+      Promise.resolve(rows.some((row) => matches(row, where))),
+    countBy: (where: object) =>
+      Promise.resolve(rows.filter((row) => matches(row, where)).length),
+    update: (where: object, patch: Partial<T>) => {
+      const matched = rows.filter((row) => matches(row, where));
+      matched.forEach((row) => Object.assign(row, patch));
+      return Promise.resolve({ affected: matched.length });
+    },
+    delete: (where: object) => {
+      const kept = rows.filter((row) => !matches(row, where));
+      const affected = rows.length - kept.length;
+      rows.splice(0, rows.length, ...kept);
+      return Promise.resolve({ affected });
+    },
+  };
+}